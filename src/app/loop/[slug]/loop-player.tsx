@@ -18,6 +18,7 @@ import {
   RefreshCw,
 } from 'lucide-react'
 import { useLoopHistory, getStoredLoopCount } from '@/lib/use-loop-history'
+import { formatTimestamp, parseTimestamp } from '@/lib/loop-points'
 
 interface YTPlayer {
   playVideo: () => void
@@ -26,6 +27,7 @@ interface YTPlayer {
   setPlaybackRate: (rate: number) => void
   getCurrentTime: () => number
   getDuration: () => number
+  getPlayerState: () => number
   destroy: () => void
 }
 
@@ -50,8 +52,13 @@ export default function LoopPlayer({ videoId }: { videoId: string }) {
   const containerRef = useRef<HTMLDivElement>(null)
   const loopCountRef = useRef(initialCount)
   const repeatLimitRef = useRef<number | null>(null)
+  const seekCooldownRef = useRef(false)
   const { upsert } = useLoopHistory(false)
 
+  // Start/End accept m:ss.mmm or plain seconds; unparseable input is ignored
+  const startSec = parseTimestamp(startTime) ?? 0
+  const endSec = parseTimestamp(endTime)
+
   useEffect(() => {
     if (window.YT && window.YT.Player) {
       setApiReady(true)
@@ -64,57 +71,68 @@ export default function LoopPlayer({ videoId }: { videoId: string }) {
     window.onYouTubeIframeAPIReady = () => setApiReady(true)
   }, [])
 
+  const completeLoop = useCallback(() => {
+    const next = loopCountRef.current + 1
+    loopCountRef.current = next
+    setLoopCount(next)
+    upsert(videoId, next)
+
+    if (repeatLimitRef.current !== null && next >= repeatLimitRef.current) {
+      playerRef.current?.pauseVideo()
+      setIsPlaying(false)
+      return
+    }
+
+    playerRef.current?.seekTo(startSec, true)
+    playerRef.current?.playVideo()
+  }, [startSec, videoId, upsert])
+
+  // 100 ms tick: refresh the clock and enforce a sub-second B point, which
+  // the whole-second `end` playerVar can't express on its own.
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null
     if (isPlaying && playerRef.current) {
       interval = setInterval(() => {
-        if (playerRef.current) {
-          setCurrentTime(playerRef.current.getCurrentTime?.() || 0)
-          setDuration(playerRef.current.getDuration?.() || 0)
-        }
-      }, 500)
+        const p = playerRef.current
+        if (!p) return
+        const ct = p.getCurrentTime?.() || 0
+        setCurrentTime(ct)
+        setDuration(p.getDuration?.() || 0)
+        if (endSec === null || seekCooldownRef.current || p.getPlayerState?.() !== 1) return
+        if (ct < endSec) return
+        seekCooldownRef.current = true
+        setTimeout(() => { seekCooldownRef.current = false }, 300)
+        completeLoop()
+      }, 100)
     }
     return () => {
       if (interval) clearInterval(interval)
     }
-  }, [isPlaying])
+  }, [isPlaying, endSec, completeLoop])
 
   const onPlayerStateChange = useCallback(
     (event: YTPlayerEvent) => {
-      if (event.data === 0) {
-        const next = loopCountRef.current + 1
-        loopCountRef.current = next
-        setLoopCount(next)
-        upsert(videoId, next)
-
-        if (repeatLimitRef.current !== null && next >= repeatLimitRef.current) {
-          setIsPlaying(false)
-          return
-        }
-
-        const start = startTime ? parseInt(startTime) : 0
-        playerRef.current?.seekTo(start, true)
-        playerRef.current?.playVideo()
-      }
+      if (event.data === 0) completeLoop()
       if (event.data === 1) setIsPlaying(true)
       if (event.data === 2) setIsPlaying(false)
     },
-    [startTime, videoId, upsert],
+    [completeLoop],
   )
 
   const onPlayerReady = useCallback(() => {
     if (playerRef.current) {
       setDuration(playerRef.current.getDuration?.() || 0)
       playerRef.current.setPlaybackRate(playbackSpeed)
+      if (startSec) playerRef.current.seekTo(startSec, true)
     }
-  }, [playbackSpeed])
+  }, [playbackSpeed, startSec])
 
   useEffect(() => {
     if (!apiReady || !containerRef.current) return
     if (playerRef.current) playerRef.current.destroy()
 
-    const start = startTime ? parseInt(startTime) : 0
-    const end = endTime ? parseInt(endTime) : undefined
+    const start = Math.floor(startSec)
+    const end = endSec !== null ? Math.ceil(endSec) : undefined
 
     playerRef.current = new window.YT.Player(containerRef.current, {
       videoId,
@@ -138,8 +156,8 @@ export default function LoopPlayer({ videoId }: { videoId: string }) {
   }, [
     apiReady,
     videoId,
-    startTime,
-    endTime,
+    startSec,
+    endSec,
     onPlayerStateChange,
     onPlayerReady,
   ])
@@ -171,12 +189,6 @@ export default function LoopPlayer({ videoId }: { videoId: string }) {
     playerRef.current?.seekTo(cur + 10, true)
   }
 
-  const formatTime = (s: number) => {
-    const m = Math.floor(s / 60)
-    const sec = Math.floor(s % 60)
-    return `${m}:${sec.toString().padStart(2, '0')}`
-  }
-
   return (
     <div className="space-y-4">
       {/* Stats */}
@@ -207,7 +219,7 @@ export default function LoopPlayer({ videoId }: { videoId: string }) {
         </div>
         <div className="rounded-base border-4 border-black bg-white px-5 py-2 shadow-base">
           <span className="text-base font-heading">
-            {formatTime(currentTime)} / {formatTime(duration)}
+            {formatTimestamp(Math.floor(currentTime))} / {formatTimestamp(Math.floor(duration))}
           </span>
         </div>
       </div>
@@ -284,25 +296,25 @@ export default function LoopPlayer({ videoId }: { videoId: string }) {
         {/* Time controls */}
         <div className="mt-3 flex flex-wrap items-center justify-center gap-4 border-t-2 border-black pt-3">
           <div className="flex items-center gap-2">
-            <label className="text-sm font-heading">Start (sec):</label>
+            <label className="text-sm font-heading">Start:</label>
             <input
-              type="number"
+              type="text"
+              inputMode="decimal"
               value={startTime}
               onChange={(e) => setStartTime(e.target.value)}
-              placeholder="0"
-              min="0"
-              className="w-20 rounded-base border-2 border-black px-2 py-1 text-center"
+              placeholder="0:00.000"
+              className="w-24 rounded-base border-2 border-black px-2 py-1 text-center font-mono text-sm"
             />
           </div>
           <div className="flex items-center gap-2">
-            <label className="text-sm font-heading">End (sec):</label>
+            <label className="text-sm font-heading">End:</label>
             <input
-              type="number"
+              type="text"
+              inputMode="decimal"
               value={endTime}
               onChange={(e) => setEndTime(e.target.value)}
               placeholder="∞"
-              min="0"
-              className="w-20 rounded-base border-2 border-black px-2 py-1 text-center"
+              className="w-24 rounded-base border-2 border-black px-2 py-1 text-center font-mono text-sm"
             />
           </div>
           <div className="flex items-center gap-2">
@@ -3,6 +3,7 @@ import type { Metadata } from 'next'
 import Link from 'next/link'
 import Image from 'next/image'
 import PublicPlaylistPlayer from './public-player'
+import type { LoopPacing } from '@/lib/loop-points'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
 
@@ -11,6 +12,7 @@ export interface PublicVideo {
   title?: string
   loopStart?: string
   loopEnd?: string
+  pacing?: LoopPacing
 }
 
 interface PublicPlaylist {
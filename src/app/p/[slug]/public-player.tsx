@@ -4,6 +4,8 @@ import { useState, useRef, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Play, Pause, SkipBack, SkipForward, Save, Check } from 'lucide-react'
+import { parseLoopTime, formatTimestamp, type VideoLoopPoints } from '@/lib/loop-points'
+import { restartLoop, loopEntryPoint } from '@/lib/loop-pacing'
 import type { PublicVideo } from './page'
 
 interface YTPlayer {
@@ -12,6 +14,7 @@ interface YTPlayer {
   seekTo: (seconds: number, allowSeekAhead: boolean) => void
   getCurrentTime: () => number
   getDuration: () => number
+  getPlayerState: () => number
   destroy: () => void
 }
 
@@ -35,6 +38,8 @@ export default function PublicPlaylistPlayer({ playlist }: { playlist: PublicPla
   const playerRef = useRef<YTPlayer | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const activeIdxRef = useRef(0)
+  const pendingRepeatRef = useRef<(() => void) | null>(null)
+  const seekCooldownRef = useRef(false)
 
   const activeVideo = playlist.videos[activeIdx]
 
@@ -54,17 +59,20 @@ export default function PublicPlaylistPlayer({ playlist }: { playlist: PublicPla
     window.onYouTubeIframeAPIReady = () => setApiReady(true)
   }, [])
 
+  // Back to A for the next repeat, with the owner's pre-roll / gap / count-in
+  const repeat = useCallback(() => {
+    const v = playlist.videos[activeIdxRef.current]
+    if (!playerRef.current || !v) return
+    pendingRepeatRef.current?.()
+    pendingRepeatRef.current = restartLoop(playerRef.current, parseLoopTime(v.loopStart), v.pacing)
+  }, [playlist.videos])
+
   const onPlayerStateChange = useCallback((event: YTPlayerEvent) => {
-    if (event.data === 0) {
-      // ended → loop the same video using its loop points
-      const v = playlist.videos[activeIdxRef.current]
-      const start = v?.loopStart ? parseInt(v.loopStart) : 0
-      playerRef.current?.seekTo(start, true)
-      playerRef.current?.playVideo()
-    }
+    // ended → loop the same video using its loop points
+    if (event.data === 0) repeat()
     if (event.data === 1) setIsPlaying(true)
     if (event.data === 2) setIsPlaying(false)
-  }, [playlist.videos])
+  }, [repeat])
 
   // Build / rebuild player when active video changes or API ready
   useEffect(() => {
@@ -73,23 +81,30 @@ export default function PublicPlaylistPlayer({ playlist }: { playlist: PublicPla
       playerRef.current.destroy()
       playerRef.current = null
     }
-    const start = activeVideo.loopStart ? parseInt(activeVideo.loopStart) : 0
-    const end = activeVideo.loopEnd ? parseInt(activeVideo.loopEnd) : undefined
+    // playerVars only take whole seconds — the tick below enforces the exact
+    // millisecond bounds, these just keep the initial buffer close.
+    const start = loopEntryPoint(parseLoopTime(activeVideo.loopStart), activeVideo.pacing)
+    const end = activeVideo.loopEnd ? parseLoopTime(activeVideo.loopEnd) : undefined
 
     playerRef.current = new window.YT.Player(containerRef.current, {
       videoId: activeVideo.videoId,
       playerVars: {
         autoplay: 0,
-        start,
-        end,
+        start: Math.floor(start),
+        end: end !== undefined ? Math.ceil(end) : undefined,
         rel: 0,
         modestbranding: 1,
         playsinline: 1,
       },
-      events: { onStateChange: onPlayerStateChange },
+      events: {
+        onStateChange: onPlayerStateChange,
+        onReady: () => { if (start) playerRef.current?.seekTo(start, true) },
+      },
     })
 
     return () => {
+      pendingRepeatRef.current?.()
+      pendingRepeatRef.current = null
       if (playerRef.current) {
         playerRef.current.destroy()
         playerRef.current = null
@@ -97,7 +112,25 @@ export default function PublicPlaylistPlayer({ playlist }: { playlist: PublicPla
     }
   }, [apiReady, activeVideo, onPlayerStateChange])
 
+  // Enforce the B point with sub-second precision while playing
+  useEffect(() => {
+    if (!activeVideo?.loopEnd) return
+    const end = parseLoopTime(activeVideo.loopEnd)
+    const id = setInterval(() => {
+      const p = playerRef.current
+      if (!p || typeof p.getPlayerState !== 'function' || p.getPlayerState() !== 1) return
+      if (seekCooldownRef.current || (p.getCurrentTime?.() || 0) < end) return
+      // The player keeps reporting the old time for a moment after seekTo
+      seekCooldownRef.current = true
+      setTimeout(() => { seekCooldownRef.current = false }, 300)
+      repeat()
+    }, 50)
+    return () => clearInterval(id)
+  }, [activeVideo, repeat])
+
   const togglePlay = () => {
+    pendingRepeatRef.current?.()
+    pendingRepeatRef.current = null
     if (isPlaying) playerRef.current?.pauseVideo()
     else playerRef.current?.playVideo()
   }
@@ -135,11 +168,11 @@ export default function PublicPlaylistPlayer({ playlist }: { playlist: PublicPla
 
       // Merge loop points (don't overwrite existing personal points)
       const lpRaw = localStorage.getItem(LOOP_KEY)
-      const loopPoints: Record<string, { start: string; end: string }> = lpRaw ? JSON.parse(lpRaw) : {}
+      const loopPoints: Record<string, VideoLoopPoints> = lpRaw ? JSON.parse(lpRaw) : {}
       for (const v of playlist.videos) {
         if (loopPoints[v.videoId]) continue
-        if (v.loopStart || v.loopEnd) {
-          loopPoints[v.videoId] = { start: v.loopStart || '', end: v.loopEnd || '' }
+        if (v.loopStart || v.loopEnd || v.pacing) {
+          loopPoints[v.videoId] = { start: v.loopStart || '', end: v.loopEnd || '', pacing: v.pacing }
         }
       }
       localStorage.setItem(LOOP_KEY, JSON.stringify(loopPoints))
@@ -181,7 +214,7 @@ export default function PublicPlaylistPlayer({ playlist }: { playlist: PublicPla
           </div>
           {(activeVideo?.loopStart || activeVideo?.loopEnd) && (
             <p className="mt-2 text-xs font-base text-gray-500">
-              Looping {activeVideo.loopStart || '0'}s → {activeVideo.loopEnd || 'end'}s
+              Looping {formatTimestamp(parseLoopTime(activeVideo.loopStart))} → {activeVideo.loopEnd ? formatTimestamp(parseLoopTime(activeVideo.loopEnd)) : 'end'}
             </p>
           )}
         </div>
@@ -225,7 +258,7 @@ export default function PublicPlaylistPlayer({ playlist }: { playlist: PublicPla
                 <p className="truncate text-xs font-heading">{v.title || v.videoId}</p>
                 {(v.loopStart || v.loopEnd) && (
                   <p className="truncate text-[10px] text-stone-500">
-                    {v.loopStart || '0'}s → {v.loopEnd || 'end'}s
+                    {formatTimestamp(parseLoopTime(v.loopStart))} → {v.loopEnd ? formatTimestamp(parseLoopTime(v.loopEnd)) : 'end'}
                   </p>
                 )}
               </div>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { createPortal } from 'react-dom'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -44,6 +44,7 @@ import {
   Check,
   Lightbulb,
   HelpCircle,
+  BarChart3,
   LogOut,
   User,
   Settings,
@@ -61,17 +62,64 @@ import {
   Share2,
   Copy,
   Globe,
+  Timer,
+  Cloud,
+  CloudOff,
+  CloudUpload,
+  TriangleAlert,
+  SlidersHorizontal,
+  Blend,
+  ListStart,
+  ListEnd,
+  CopyPlus,
+  ArrowUpDown,
+  Combine,
+  CopyMinus,
+  Scissors,
+  FolderPlus,
+  Keyboard,
 } from 'lucide-react'
 import Image from 'next/image'
 import { NoteEditor } from '@/components/NoteEditor'
+import { LoopTimeline } from '@/components/LoopTimeline'
+import { TranscriptPanel } from '@/components/TranscriptPanel'
+import { StatsDashboard } from '@/components/StatsDashboard'
+import { EntrySettingsEditor, entrySummary } from '@/components/EntrySettingsEditor'
+import { UpNextPanel } from '@/components/UpNextPanel'
+import { UndoToast } from '@/components/UndoToast'
+import { CommandPalette } from '@/components/CommandPalette'
+import { ComboKeys, ShortcutSettings } from '@/components/ShortcutSettings'
+import { type CommandItem, libraryCommands } from '@/lib/command-search'
+import { TrashPanel } from '@/components/TrashPanel'
+import { pushUndo, undoGroup, undoLast, redoLast } from '@/lib/undo'
+import {
+  type TransitionSettings,
+  DEFAULT_TRANSITION,
+  MIN_CROSSFADE,
+  MAX_CROSSFADE,
+  GAPLESS_LEAD,
+  loadTransition,
+  saveTransition,
+  crossfade,
+} from '@/lib/transitions'
+import { HistoryPanel } from '@/components/HistoryPanel'
 import ReactSlider from 'react-slider'
 import { FaDiscord } from 'react-icons/fa'
 import { useHotkeys } from 'react-hotkeys-hook'
-import { Kbd } from '@/components/ui/kbd'
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from '@/components/ui/tooltip'
 import { useLoopHistory } from '@/lib/use-loop-history'
-import { usePlaylists } from '@/lib/use-playlists'
+import { usePlaylists, entryKey, type PlaylistVideo } from '@/lib/use-playlists'
 import { useFolders } from '@/lib/use-folders'
+import { childFolders, flattenFolders, folderPath, isWithin, normalizeFolders } from '@/lib/folder-tree'
+import { useNotes, notesToItems } from '@/lib/use-notes'
+import { usePracticeSessions } from '@/lib/use-practice-sessions'
+import { useUpNext } from '@/lib/use-up-next'
+import { type TrashItem, useTrash } from '@/lib/use-trash'
+import { useShortcuts } from '@/lib/use-shortcuts'
+import { type ShortcutAction, SHORTCUTS } from '@/lib/shortcuts'
+import { buildSmartPlaylists, isSmartPlaylist } from '@/lib/smart-playlists'
+import { type SyncStatus, useSyncStatus, flushSync, resetSync, replaceCollection } from '@/lib/sync-engine'
+import { broadcast, subscribeTab } from '@/lib/cross-tab'
 import { usePublicPlaylists, publicUrl } from '@/lib/use-public-playlists'
 import { useLanguage } from '@/lib/use-language'
 import type { Lang } from '@/lib/translations'
@@ -94,6 +142,44 @@ import EmojiPicker, {
   EmojiStyle,
 } from 'emoji-picker-react'
 import { songs } from '@/data/songs'
+import {
+  type LoopPointsMap,
+  type LoopRegion,
+  type VideoLoopPoints,
+  type LoopPacing,
+  setLoopBounds,
+  addRegion,
+  activateRegion,
+  renameRegion,
+  removeRegion,
+  parseLoopTime,
+  toLoopTime,
+  formatTimestamp,
+  parseTimestamp,
+  setLoopPacing,
+  pacingDelay,
+  DEFAULT_COUNT_IN_BPM,
+} from '@/lib/loop-points'
+import { restartLoop, loopEntryPoint } from '@/lib/loop-pacing'
+import { type LoopLink, parseLoopLink, buildLoopLink } from '@/lib/deep-link'
+import { type TranscriptLine, parseTranscript, loadTranscript, saveTranscript } from '@/lib/transcript'
+import {
+  type ShadowingSettings,
+  type ShadowStep,
+  DEFAULT_SHADOWING,
+  loadShadowing,
+  saveShadowing,
+  nextShadowStep,
+  shadowPauseMs,
+} from '@/lib/shadowing'
+import {
+  type SpeedTrainer,
+  DEFAULT_SPEED_TRAINER,
+  loadSpeedTrainer,
+  saveSpeedTrainer,
+  trainerSpeed,
+  loopsUntilNextStep,
+} from '@/lib/speed-trainer'
 
 interface YTPlayer {
   playVideo: () => void
@@ -190,6 +276,54 @@ function extractVideoId(url: string): string | null {
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
 
+// A/B slider resolution; exact millisecond values are typed into the inputs
+const SLIDER_STEP = 0.1
+const MIN_LOOP_LENGTH = 0.1
+
+// Sleep timer presets (minutes) and how long the volume fades before stopping
+const SLEEP_PRESETS = [15, 30, 45, 60, 90]
+const SLEEP_FADE_SECONDS = 30
+
+// "Loop around" on a note timestamp spans this many seconds either side of it
+const NOTE_LOOP_PADDING = 2
+
+// A practice session ends after this long paused; shorter ones aren't logged
+const SESSION_IDLE_MS = 5 * 60 * 1000
+const MIN_SESSION_SECONDS = 10
+
+// Speeds and languages the command palette offers as actions
+const PALETTE_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5]
+const LANGS: Lang[] = ['en', 'de', 'ja', 'fr']
+const LANG_NAMES: Record<Lang, string> = { en: 'English', de: 'Deutsch', ja: '日本語', fr: 'Français' }
+
+// The practice session being timed, until it's written to the log
+interface SessionTracker {
+  videoId: string
+  title?: string
+  regionId?: string
+  startedAt: number
+  lastTick: number
+  played: number
+  // Sum of speed × seconds, for the time-weighted average
+  speedSeconds: number
+  loops: number
+}
+
+// A loop played for this session only, over the video's saved points, which
+// it leaves alone: a shared link's A/B or a playlist entry's region
+interface SessionLoop {
+  videoId: string
+  start: string
+  end: string
+  activeRegionId?: string
+}
+
+interface SleepTimer {
+  endsAt: number
+  // Keep playing past the deadline until the current loop reaches B
+  atLoopEnd: boolean
+}
+
 export default function Home() {
   const initialVideoId = typeof window !== 'undefined'
     ? new URLSearchParams(window.location.search).get('v') ?? undefined
@@ -216,31 +350,44 @@ export default function Home() {
 
   const [url, setUrl] = useState(initialVideoId ? `https://youtube.com/watch?v=${initialVideoId}` : '')
   const [videoId, setVideoId] = useState<string | null>(initialVideoId ?? null)
-  const [notes, setNotes] = useState<Record<string, string>>({})
+  // Bumped when the open note changes outside the editor (another tab, sync)
+  // to remount the editor with it
+  const [noteRevision, setNoteRevision] = useState(0)
+  const editorNoteRef = useRef<string | undefined>(undefined)
+  // Subtitle / lyrics source for the open video, as loaded or pasted
+  const [transcript, setTranscript] = useState('')
+  const transcriptLinesRef = useRef<TranscriptLine[]>([])
+  // Shadowing session over the transcript cues (null = off)
+  const [shadowStep, setShadowStep] = useState<ShadowStep | null>(null)
+  const [shadowing, setShadowing] = useState<ShadowingSettings>(DEFAULT_SHADOWING)
+  const shadowStepRef = useRef<ShadowStep | null>(null)
+  const shadowingRef = useRef<ShadowingSettings>(DEFAULT_SHADOWING)
   const [noteSaveStatus, setNoteSaveStatus] = useState<
     'idle' | 'saving' | 'saved'
   >('idle')
 
-  useEffect(() => {
-    const stored = localStorage.getItem('yol-notes')
-    if (stored) setNotes(JSON.parse(stored))
-  }, [])
-
-  const saveNote = useCallback((vid: string, text: string) => {
-    setNotes((prev) => {
-      const next = { ...prev, [vid]: text }
-      localStorage.setItem('yol-notes', JSON.stringify(next))
-      return next
-    })
-  }, [])
   const [loopCount, setLoopCount] = useState(0)
+  const [repeatLimit, setRepeatLimit] = useState('')
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null)
+  const [sleepAtLoopEnd, setSleepAtLoopEnd] = useState(false)
+  const [sleepRemaining, setSleepRemaining] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
   const [playbackSpeed, setPlaybackSpeed] = useState(1)
+  const [loopLinkCopied, setLoopLinkCopied] = useState(false)
+  const [speedTrainer, setSpeedTrainer] = useState<SpeedTrainer>(DEFAULT_SPEED_TRAINER)
+  const [transition, setTransition] = useState<TransitionSettings>(DEFAULT_TRANSITION)
+  // Which of the two player slots is on screen (see standbyRef)
+  const [frontSlot, setFrontSlot] = useState<0 | 1>(0)
   const [startTime, setStartTime] = useState('')
   const [endTime, setEndTime] = useState('')
   const [sliderDisplay, setSliderDisplay] = useState<[number, number] | null>(
     null,
   )
+  const [regions, setRegions] = useState<LoopRegion[]>([])
+  const [activeRegionId, setActiveRegionId] = useState<string | null>(null)
+  const [editingRegionId, setEditingRegionId] = useState<string | null>(null)
+  const [editingRegionName, setEditingRegionName] = useState('')
+  const [pacing, setPacing] = useState<LoopPacing>({})
   const [apiReady, setApiReady] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
   const [duration, setDuration] = useState(0)
@@ -257,6 +404,11 @@ export default function Home() {
   const [addSelectKey, setAddSelectKey] = useState(0)
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [helpOpen, setHelpOpen] = useState(false)
+  const [dataOpen, setDataOpen] = useState(false)
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  const [libraryReveal, setLibraryReveal] = useState<LibraryReveal | null>(null)
+  const [statsOpen, setStatsOpen] = useState(false)
   const [featureOpen, setFeatureOpen] = useState(false)
   const [featureText, setFeatureText] = useState('')
   const [featureSubmitting, setFeatureSubmitting] = useState(false)
@@ -273,9 +425,23 @@ export default function Home() {
   const [loopPlaylistMode, setLoopPlaylistMode] = useState(false)
   const [loopSongMode, setLoopSongMode] = useState(false)
   const [shuffleMode, setShuffleMode] = useState(false)
+  // The current video came from Up next; the playlist's index still points
+  // at the entry it carries on after
+  const [playingQueued, setPlayingQueued] = useState(false)
   const [volume, setVolume] = useState(100)
   const playerRef = useRef<YTPlayer | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
+  // Crossfade/gapless keep a second player loading whatever plays next. The
+  // two swap roles at every transition, so playerRef is always the one heard.
+  const standbyRef = useRef<YTPlayer | null>(null)
+  const standbyContainerRef = useRef<HTMLDivElement>(null)
+  // What the standby is loading; `ready` once it's buffered and paused at `start`
+  const standbyCueRef = useRef<{ videoId: string; start: number; ready: boolean } | null>(null)
+  const frontSlotRef = useRef<0 | 1>(0)
+  // Finishes a running crossfade immediately
+  const fadeCancelRef = useRef<(() => void) | null>(null)
+  const transitionRef = useRef<TransitionSettings>(DEFAULT_TRANSITION)
+  const onPlayerStateChangeRef = useRef<(event: YTPlayerEvent) => void>(() => {})
   const queueListRef = useRef<HTMLUListElement>(null)
   const urlInputRef = useRef<HTMLInputElement>(null)
   const timeUpdateRef = useRef<NodeJS.Timeout | null>(null)
@@ -289,12 +455,26 @@ export default function Home() {
   const loopSongModeRef = useRef(false)
   const shuffleModeRef = useRef(false)
   const shuffleQueueRef = useRef<number[]>([])
+  const playingQueuedRef = useRef(false)
   const volumeRef = useRef(100)
   const preMuteVolumeRef = useRef(100)
+  // User's speed/volume while a playlist entry overrides them
+  const entryBaseRef = useRef<{ speed: number; volume: number } | null>(null)
+  // The playing entry sets its own speed, which the speed trainer leaves alone
+  const entrySpeedRef = useRef(false)
+  const speedTrainerRef = useRef<SpeedTrainer>(DEFAULT_SPEED_TRAINER)
   const volumeRestoredRef = useRef(false)
   const playlistsRef = useRef<ReturnType<typeof import('@/lib/use-playlists').usePlaylists>['playlists']>([])
-  const loopPointsRef = useRef<Record<string, { start: string; end: string }>>({})
+  const loopPointsRef = useRef<LoopPointsMap>({})
+  const sessionLoopRef = useRef<SessionLoop | null>(null)
   const seekCooldownRef = useRef(false)
+  // Cancels a repeat that is waiting out its gap / count-in
+  const pendingRepeatRef = useRef<(() => void) | null>(null)
+  const playbackSpeedRef = useRef(1)
+  const deepLinkHandledRef = useRef(false)
+  const loopCountRef = useRef(0)
+  const repeatLimitRef = useRef<number | null>(null)
+  const sleepTimerRef = useRef<SleepTimer | null>(null)
   const internalNavRef = useRef(false)
   const videoIdRef = useRef<string | null>(null)
   const loopPointsSyncRef = useRef<ReturnType<typeof setTimeout> | null>(null)
@@ -311,15 +491,14 @@ export default function Home() {
   const {
     history,
     setHistory,
-    flushSync: flushHistory,
     upsert,
     remove,
+    removeMany,
     clear,
   } = useLoopHistory(isLoggedIn)
   const {
     playlists,
     setPlaylists,
-    flushSync: flushPlaylists,
     createPlaylist,
     deletePlaylist,
     addToPlaylist,
@@ -328,18 +507,139 @@ export default function Home() {
     reorderVideos,
     setPlaylistEmoji,
     renameVideo,
+    setEntrySettings,
+    duplicatePlaylist,
+    mergePlaylists,
+    splitPlaylist,
+    moveEntries,
+    copyEntries,
+    dedupePlaylists,
+    sortVideos,
+    restorePlaylist,
+    restoreVideo,
   } = usePlaylists(isLoggedIn)
+  const { upNext, addToQueue, playNext, removeFromQueue, reorderQueue, clearQueue, peekQueue, takeFromQueue } = useUpNext()
   const {
     folders,
     setFolders,
-    flushSync: flushFolders,
     createFolder,
     deleteFolder,
     moveToFolder,
     reorderFolderPlaylists,
     reorderFolders,
     setFolderEmoji,
+    restoreFolder,
+    moveFolder,
   } = useFolders(isLoggedIn)
+  const { notes, setNotes, saveNote, absorbLocal } = useNotes(isLoggedIn)
+  const {
+    sessions,
+    setSessions,
+    logSession,
+    absorbLocal: absorbLocalSessions,
+  } = usePracticeSessions(isLoggedIn)
+  const {
+    trash,
+    setTrash,
+    moveToTrash,
+    takeFromTrash,
+    purge,
+    emptyTrash,
+    absorbLocal: absorbLocalTrash,
+  } = useTrash(isLoggedIn)
+  const {
+    bindings: shortcuts,
+    setShortcuts,
+    rebind,
+    resetShortcuts,
+    absorbLocal: absorbLocalShortcuts,
+  } = useShortcuts(isLoggedIn)
+
+  // Deleting from the library goes through the trash. The trash entry and the
+  // removal are one undo step.
+  const trashPlaylist = useCallback((id: string) => {
+    const playlist = playlists.find((p) => p.id === id)
+    if (!playlist) return
+    const folder = folders.find((f) => f.playlistIds.includes(id))
+    undoGroup('undoDeletePlaylist', () => {
+      moveToTrash({ kind: 'playlist', playlist, folderId: folder?.id, folderIndex: folder?.playlistIds.indexOf(id) })
+      if (folder) moveToFolder(id, null)
+      deletePlaylist(id)
+    })
+  }, [playlists, folders, moveToTrash, moveToFolder, deletePlaylist])
+
+  const trashFolder = useCallback((id: string) => {
+    const folder = folders.find((f) => f.id === id)
+    if (!folder) return
+    undoGroup('undoDeleteFolder', () => {
+      moveToTrash({ kind: 'folder', folder, childIds: childFolders(folders, id).map((f) => f.id) })
+      deleteFolder(id)
+    })
+  }, [folders, moveToTrash, deleteFolder])
+
+  const trashVideo = useCallback((playlistId: string, key: string) => {
+    const index = playlists.find((p) => p.id === playlistId)?.videos.findIndex((v) => entryKey(v) === key) ?? -1
+    if (index === -1) return
+    const video = playlists.find((p) => p.id === playlistId)!.videos[index]
+    undoGroup('undoRemoveVideo', () => {
+      moveToTrash({ kind: 'video', playlistId, index, video })
+      removeFromPlaylist(playlistId, key)
+    })
+  }, [playlists, moveToTrash, removeFromPlaylist])
+
+  // A video can only go back into a playlist that exists
+  const canRestore = useCallback(
+    (item: TrashItem) => item.kind !== 'video' || playlists.some((p) => p.id === item.playlistId),
+    [playlists],
+  )
+
+  const restoreFromTrash = useCallback((id: string) => {
+    const found = trash.find((i) => i.id === id)
+    if (!found || !canRestore(found)) return
+    undoGroup('undoRestore', () => {
+      const item = takeFromTrash(id)
+      if (item?.kind === 'playlist') {
+        restorePlaylist(item.playlist)
+        if (item.folderId && folders.some((f) => f.id === item.folderId)) {
+          moveToFolder(item.playlist.id, item.folderId, item.folderIndex)
+        }
+      } else if (item?.kind === 'folder') {
+        // Playlists filed elsewhere since stay where they are now
+        const filed = new Set(folders.flatMap((f) => f.playlistIds))
+        restoreFolder({ ...item.folder, playlistIds: item.folder.playlistIds.filter((pid) => !filed.has(pid)) })
+        // Subfolders that moved up a level when it was deleted go back in
+        item.childIds?.forEach((childId) => {
+          if (folders.some((f) => f.id === childId)) moveFolder(childId, item.folder.id)
+        })
+      } else if (item) {
+        restoreVideo(item.playlistId, item.video, item.index)
+      }
+    })
+  }, [trash, folders, canRestore, takeFromTrash, restorePlaylist, restoreFolder, restoreVideo, moveToFolder, moveFolder])
+  const sessionRef = useRef<SessionTracker | null>(null)
+  // Loop points live in a ref for the player; this copy is for views derived
+  // from them (smart playlists), updated wherever the ref is replaced
+  const [loopPointsSnapshot, setLoopPointsSnapshot] = useState<LoopPointsMap>({})
+  const smartPlaylists = useMemo(
+    () => buildSmartPlaylists({ history, playlists, sessions, loopPoints: loopPointsSnapshot, notes }, t),
+    [history, playlists, sessions, notes, loopPointsSnapshot, t],
+  )
+  // A smart playlist keeps the track list it started playing with: playing a
+  // video reorders history, which would otherwise shift the queue mid-play.
+  const [smartQueue, setSmartQueue] = useState<import('@/lib/use-playlists').Playlist | null>(null)
+  const queuePlaylists = useMemo(
+    () => (smartQueue ? [...playlists, smartQueue] : playlists),
+    [playlists, smartQueue],
+  )
+
+  useEffect(() => {
+    if (!videoId) return
+    const md = notes[videoId]
+    if (md === editorNoteRef.current) return
+    editorNoteRef.current = md
+    setNoteRevision((r) => r + 1)
+  }, [notes, videoId])
+  const syncStatus = useSyncStatus()
   const {
     publicMap,
     publish: publishPlaylist,
@@ -362,6 +662,40 @@ export default function Home() {
     }, 500)
   }, [API_URL_SYNC])
 
+  // The loop to play for a video: its saved points, with this session's A/B
+  // and region on top when one is set
+  const loopFor = useCallback((vid: string): VideoLoopPoints | undefined => {
+    const saved = loopPointsRef.current[vid]
+    const session = sessionLoopRef.current
+    if (session?.videoId !== vid) return saved
+    return { ...saved, start: session.start, end: session.end, activeRegionId: session.activeRegionId }
+  }, [])
+
+  // Push a video's loop entry into the A/B state, refs and region list in one
+  // pass so the tick loop never sees a half-applied switch.
+  const applyLoopEntry = useCallback((entry: VideoLoopPoints | undefined) => {
+    const start = entry?.start ?? ''
+    const end = entry?.end ?? ''
+    setStartTime(start)
+    setEndTime(end)
+    startTimeRef.current = start
+    endTimeRef.current = end
+    setRegions(entry?.regions ?? [])
+    setActiveRegionId(entry?.activeRegionId ?? null)
+    setPacing(entry?.pacing ?? {})
+  }, [])
+
+  const commitLoopEntry = useCallback((vid: string, entry: VideoLoopPoints) => {
+    loopPointsRef.current = { ...loopPointsRef.current, [vid]: entry }
+    setLoopPointsSnapshot(loopPointsRef.current)
+    localStorage.setItem('yol-loop-points', JSON.stringify(loopPointsRef.current))
+    broadcast('loop-points', loopPointsRef.current)
+    syncLoopPointsToServer()
+    if (vid === videoIdRef.current) applyLoopEntry(loopFor(vid))
+  }, [syncLoopPointsToServer, applyLoopEntry, loopFor])
+
+  // Load (or first migrate) the account's data once per sign-in. The deps
+  // besides isLoggedIn are callbacks that only change along with it.
   useEffect(() => {
     if (!isLoggedIn) return
     const token = getAuthToken()
@@ -376,7 +710,7 @@ export default function Home() {
       const localHistory = JSON.parse(
         localStorage.getItem('yol-loop-history') || '[]',
       )
-      let localLoopPoints: Record<string, { start: string; end: string }> = {}
+      let localLoopPoints: LoopPointsMap = {}
       try {
         const raw = localStorage.getItem('yol-loop-points')
         if (raw) localLoopPoints = JSON.parse(raw)
@@ -429,6 +763,10 @@ export default function Home() {
               setPlaylists(localPlaylists)
               setFolders(localFolders)
               setHistory(localHistory)
+              absorbLocal()
+              absorbLocalSessions()
+              absorbLocalTrash()
+              absorbLocalShortcuts()
             } else {
               setSyncError(
                 'Sync failed — your data is safe locally, try signing in again',
@@ -465,19 +803,23 @@ export default function Home() {
         setPlaylists(data.playlists ?? [])
         setFolders(data.folders ?? [])
         setHistory(data.history ?? [])
+        if (data.notes) setNotes(data.notes)
+        if (data.sessions) setSessions(data.sessions)
+        if (data.trash) setTrash(data.trash)
+        if (data.shortcuts) setShortcuts(data.shortcuts)
+        absorbLocal()
+        absorbLocalSessions()
+        absorbLocalTrash()
+        absorbLocalShortcuts()
         if (data.loopPoints) {
           loopPointsRef.current = data.loopPoints
+          setLoopPointsSnapshot(loopPointsRef.current)
           localStorage.setItem('yol-loop-points', JSON.stringify(data.loopPoints))
           // Re-apply to the currently-loaded video so sync from another device
           // takes effect immediately without needing a video reload.
           if (videoIdRef.current) {
-            const pts = data.loopPoints[videoIdRef.current]
-            if (pts) {
-              setStartTime(pts.start ?? '')
-              setEndTime(pts.end ?? '')
-              startTimeRef.current = pts.start ?? ''
-              endTimeRef.current = pts.end ?? ''
-            }
+            const pts = loopFor(videoIdRef.current)
+            if (pts) applyLoopEntry(pts)
           }
         }
         setMigrated()
@@ -492,10 +834,15 @@ export default function Home() {
       })
 
     return () => controller.abort()
-  }, [isLoggedIn])
+  }, [
+    isLoggedIn, API_URL_SYNC, applyLoopEntry, loopFor,
+    setPlaylists, setFolders, setHistory, setNotes, setSessions, setTrash, setShortcuts,
+    absorbLocal, absorbLocalSessions, absorbLocalTrash, absorbLocalShortcuts,
+  ])
 
   // Keep refs in sync so callbacks never stale-close over startTime/endTime
   useEffect(() => { videoIdRef.current = videoId }, [videoId])
+  useEffect(() => { playbackSpeedRef.current = playbackSpeed }, [playbackSpeed])
   useEffect(() => {
     startTimeRef.current = startTime
   }, [startTime])
@@ -509,12 +856,15 @@ export default function Home() {
   useEffect(() => { activePlaylistIndexRef.current = activePlaylistIndex }, [activePlaylistIndex])
   useEffect(() => { loopPlaylistModeRef.current = loopPlaylistMode }, [loopPlaylistMode])
   useEffect(() => { loopSongModeRef.current = loopSongMode }, [loopSongMode])
+  useEffect(() => { playingQueuedRef.current = playingQueued }, [playingQueued])
   useEffect(() => {
     shuffleModeRef.current = shuffleMode
     // Reset the shuffle queue when toggling — a fresh queue is built on next advance
     shuffleQueueRef.current = []
   }, [shuffleMode])
-  useEffect(() => { playlistsRef.current = playlists }, [playlists])
+  useEffect(() => { playlistsRef.current = queuePlaylists }, [queuePlaylists])
+  useEffect(() => { loopCountRef.current = loopCount }, [loopCount])
+  useEffect(() => { sleepTimerRef.current = sleepTimer }, [sleepTimer])
 
   // Restore volume from localStorage on mount. Persistence on subsequent
   // changes happens inside updateVolume so it writes synchronously with the
@@ -544,42 +894,120 @@ export default function Home() {
     })
   }, [])
 
+  useEffect(() => {
+    speedTrainerRef.current = loadSpeedTrainer()
+    setSpeedTrainer(speedTrainerRef.current)
+  }, [])
+
+  useEffect(() => { setShadowing(loadShadowing()) }, [])
+
+  useEffect(() => { setTransition(loadTransition()) }, [])
+  useEffect(() => { transitionRef.current = transition }, [transition])
+
+  const updateTransition = useCallback((patch: Partial<TransitionSettings>) => {
+    setTransition((prev) => {
+      const next = { ...prev, ...patch }
+      saveTransition(next)
+      return next
+    })
+  }, [])
+  useEffect(() => { shadowingRef.current = shadowing }, [shadowing])
+
+  const updateShadowing = useCallback((patch: Partial<ShadowingSettings>) => {
+    setShadowing((prev) => {
+      const next = { ...prev, ...patch }
+      saveShadowing(next)
+      return next
+    })
+  }, [])
+
+  // Switching the trainer on starts its ramp where the loop count stands;
+  // after that it only steps at loop boundaries (see completeLoop)
+  const updateSpeedTrainer = useCallback((patch: Partial<SpeedTrainer>) => {
+    const prev = speedTrainerRef.current
+    const next = { ...prev, ...patch }
+    speedTrainerRef.current = next
+    setSpeedTrainer(next)
+    saveSpeedTrainer(next)
+    if (next.enabled && !prev.enabled && !entrySpeedRef.current) {
+      setPlaybackSpeed(trainerSpeed(next, loopCountRef.current))
+    }
+  }, [])
+
   // Load loop points from localStorage on mount
   useEffect(() => {
     const stored = localStorage.getItem('yol-loop-points')
     if (stored) {
-      try { loopPointsRef.current = JSON.parse(stored) } catch {}
+      try {
+        loopPointsRef.current = JSON.parse(stored)
+        setLoopPointsSnapshot(loopPointsRef.current)
+      } catch {}
     }
   }, [])
 
+  // Another tab saved loop points (it already wrote localStorage and queued
+  // the server sync). Only the open video's UI needs refreshing.
+  useEffect(() => subscribeTab<LoopPointsMap>('loop-points', (map) => {
+    const vid = videoIdRef.current
+    const changed = vid && JSON.stringify(map[vid]) !== JSON.stringify(loopPointsRef.current[vid])
+    loopPointsRef.current = map
+    setLoopPointsSnapshot(loopPointsRef.current)
+    if (changed) applyLoopEntry(loopFor(vid))
+  }), [applyLoopEntry, loopFor])
+
+  // Shared links carry the loop on top of the video id. It plays for this
+  // session only: a region name the recipient already has is picked, else
+  // the link's A/B (or YouTube's t=). Their saved regions stay as they were;
+  // saving the loop as a region or editing it keeps it.
+  const applyLoopLink = useCallback((link: LoopLink) => {
+    const saved = loopPointsRef.current[link.videoId]
+    const named = link.region
+      ? saved?.regions?.find((r) => r.name.toLowerCase() === link.region!.toLowerCase())
+      : undefined
+    if (named) {
+      sessionLoopRef.current = { videoId: link.videoId, start: named.start, end: named.end, activeRegionId: named.id }
+    } else if (link.start !== undefined || link.end !== undefined) {
+      sessionLoopRef.current = {
+        videoId: link.videoId,
+        start: link.start ? toLoopTime(link.start) : '',
+        end: link.end ? toLoopTime(link.end) : '',
+      }
+    }
+    if (link.videoId === videoIdRef.current) applyLoopEntry(loopFor(link.videoId))
+    if (link.speed !== undefined) setPlaybackSpeed(link.speed)
+    if (link.volume !== undefined) {
+      // Applied for this session only — the recipient's saved volume stays
+      setVolume(link.volume)
+      volumeRef.current = link.volume
+      playerRef.current?.setVolume(link.volume)
+    }
+  }, [applyLoopEntry, loopFor])
+
+  // Runs once, after the stored loop points above are loaded and before the
+  // video effect below picks them up. The extra params are then dropped from
+  // the address bar so a reload doesn't undo later edits.
+  useEffect(() => {
+    if (deepLinkHandledRef.current) return
+    deepLinkHandledRef.current = true
+    const link = parseLoopLink(new URLSearchParams(window.location.search))
+    if (!link) return
+    applyLoopLink(link)
+    window.history.replaceState(null, '', `/?v=${encodeURIComponent(link.videoId)}`)
+  }, [applyLoopLink])
+
   // Restore loop points when video changes. Sync refs synchronously in the
   // same pass so they can't be stale between the setVideoId and the ref
   // sync effects firing on the next render commit.
   useEffect(() => {
-    if (!videoId) {
-      setStartTime('')
-      setEndTime('')
-      startTimeRef.current = ''
-      endTimeRef.current = ''
-      return
-    }
-    const pts = loopPointsRef.current[videoId]
-    if (pts) {
-      setStartTime(pts.start)
-      setEndTime(pts.end)
-      startTimeRef.current = pts.start
-      endTimeRef.current = pts.end
-    } else {
-      setStartTime('')
-      setEndTime('')
-      startTimeRef.current = ''
-      endTimeRef.current = ''
-    }
-  }, [videoId])
+    if (sessionLoopRef.current?.videoId !== videoId) sessionLoopRef.current = null
+    applyLoopEntry(videoId ? loopFor(videoId) : undefined)
+    setEditingRegionId(null)
+  }, [videoId, applyLoopEntry, loopFor])
 
   // Pick the next index under shuffle mode. Uses a queue of all indices so every song
   // plays once before any repeats; refills (excluding current) when exhausted.
-  const pickNextShuffleIndex = useCallback((total: number, current: number): number => {
+  // `peek` leaves the pick at the front of the queue for the real advance.
+  const pickNextShuffleIndex = useCallback((total: number, current: number, peek = false): number => {
     if (total <= 1) return 0
     shuffleQueueRef.current = shuffleQueueRef.current.filter((i) => i < total)
     if (shuffleQueueRef.current.length === 0) {
@@ -591,74 +1019,253 @@ export default function Home() {
       }
       shuffleQueueRef.current = pool
     }
-    return shuffleQueueRef.current.shift() as number
+    return (peek ? shuffleQueueRef.current[0] : shuffleQueueRef.current.shift()) as number
   }, [])
 
-  // Advance to the next video in the active playlist. Returns true if advanced, false if playlist ended.
-  const advancePlaylist = useCallback((): boolean => {
+  // An entry with a repeat count loops (via the caller's fallback) until it's done
+  const repeatOwed = useCallback(() => {
+    if (playingQueuedRef.current) return false
+    const plist = playlistsRef.current.find((p) => p.id === activePlaylistIdRef.current)
+    const repeat = plist?.videos[activePlaylistIndexRef.current]?.repeat
+    return Boolean(repeat && loopCountRef.current + 1 < repeat)
+  }, [])
+
+  // The Up next item that plays when the current one finishes, if any
+  const nextQueued = useCallback(
+    () => (loopSongModeRef.current || repeatOwed() ? undefined : peekQueue()),
+    [repeatOwed, peekQueue],
+  )
+
+  // Where the active playlist goes after the current entry, or null to stay
+  // on it (loop-song mode, repeats still owed, or the end without playlist loop)
+  const upcomingIndex = useCallback((peek: boolean): number | null => {
     // Loop-song mode short-circuits: caller's fallback loops the current video
-    if (loopSongModeRef.current) return false
-    const pid = activePlaylistIdRef.current
+    if (loopSongModeRef.current || repeatOwed()) return null
     const idx = activePlaylistIndexRef.current
-    const plist = playlistsRef.current.find((p) => p.id === pid)
-    if (!plist || plist.videos.length === 0) return false
+    const plist = playlistsRef.current.find((p) => p.id === activePlaylistIdRef.current)
+    if (!plist || plist.videos.length === 0) return null
     const total = plist.videos.length
+    if (shuffleModeRef.current && total > 1) return pickNextShuffleIndex(total, idx, peek)
+    if (idx + 1 < total) return idx + 1
+    return loopPlaylistModeRef.current ? 0 : null
+  }, [pickNextShuffleIndex, repeatOwed])
+
+  // Hand playback to the standby player, fading over `ms` (0 = instant)
+  const swapToStandby = useCallback((ms: number) => {
+    const from = playerRef.current
+    const to = standbyRef.current
+    if (!from || !to) return
+    fadeCancelRef.current?.()
+    to.setPlaybackRate(playbackSpeedRef.current)
+    to.playVideo()
+    playerRef.current = to
+    standbyRef.current = from
+    standbyCueRef.current = null
+    frontSlotRef.current = frontSlotRef.current === 0 ? 1 : 0
+    setFrontSlot(frontSlotRef.current)
+    let done = false
+    const cancel = crossfade(from, to, () => volumeRef.current, ms, () => {
+      done = true
+      fadeCancelRef.current = null
+      from.pauseVideo()
+    })
+    // A zero-length fade has already finished
+    if (!done) fadeCancelRef.current = cancel
+  }, [])
 
-    const loadNext = (video: { videoId: string; title?: string }, index: number) => {
-      const pts = loopPointsRef.current[video.videoId]
-      const startSec = pts?.start ? parseInt(pts.start) : 0
-      setActivePlaylistIndex(index)
-      internalNavRef.current = true
-      setVideoId(video.videoId)
-      setUrl(`https://youtube.com/watch?v=${video.videoId}`)
-      setLoopCount(0)
-      setIsPlaying(true)
-      upsert(video.videoId, 0, video.title)
-      // Load in existing player to avoid autoplay restrictions in background tabs
-      if (playerRef.current?.loadVideoById) {
-        playerRef.current.loadVideoById({ videoId: video.videoId, startSeconds: startSec })
+  // Swap if the standby is primed with exactly this; false means load normally
+  const swapIfCued = useCallback((vid: string, start: number) => {
+    const t = transitionRef.current
+    const cue = standbyCueRef.current
+    if (t.mode === 'cut' || !cue?.ready || cue.videoId !== vid || Math.abs(cue.start - start) > 0.5) return false
+    let ms = 0
+    if (t.mode === 'crossfade') {
+      // Never fade past the end of what's playing now
+      const p = playerRef.current
+      const current = videoIdRef.current
+      const end = (current && parseLoopTime(loopFor(current)?.end)) || p?.getDuration?.() || 0
+      const left = (end - (p?.getCurrentTime?.() || 0)) / playbackSpeedRef.current
+      ms = Math.max(0, Math.min(t.seconds, left)) * 1000
+    }
+    swapToStandby(ms)
+    return true
+  }, [swapToStandby, loopFor])
+
+  // Load `target` into the standby player (muted) and let it buffer; the
+  // standby state handler pauses it at the start once it plays.
+  const primeStandby = useCallback((target: { videoId: string; start: number }) => {
+    standbyCueRef.current = { ...target, ready: false }
+    const p = standbyRef.current
+    if (p) {
+      // Still starting up: its onReady loads whatever the cue says by then
+      if (typeof p.loadVideoById !== 'function') return
+      p.setVolume(0)
+      if (p.getVideoData?.()?.video_id === target.videoId) {
+        // Same video (a loop repeat): already buffered, just park it at the start
+        p.pauseVideo()
+        p.seekTo(target.start, true)
+        standbyCueRef.current.ready = true
+      } else {
+        p.loadVideoById({ videoId: target.videoId, startSeconds: target.start })
       }
+      return
     }
+    const host = frontSlotRef.current === 0 ? standbyContainerRef.current : containerRef.current
+    if (!host || !window.YT?.Player) return
+    standbyRef.current = new window.YT.Player(host, {
+      videoId: target.videoId,
+      playerVars: { autoplay: 0, rel: 0, modestbranding: 1, playsinline: 1 },
+      events: {
+        onStateChange: (event) => onPlayerStateChangeRef.current(event),
+        onReady: () => {
+          const cue = standbyCueRef.current
+          if (!cue) return
+          standbyRef.current?.setVolume(0)
+          standbyRef.current?.loadVideoById({ videoId: cue.videoId, startSeconds: cue.start })
+        },
+      },
+    })
+  }, [])
 
-    if (shuffleModeRef.current && total > 1) {
-      const nextIdx = pickNextShuffleIndex(total, idx)
-      loadNext(plist.videos[nextIdx], nextIdx)
-      return true
+  const onStandbyStateChange = useCallback((event: YTPlayerEvent) => {
+    const cue = standbyCueRef.current
+    if (event.target !== standbyRef.current || !cue || cue.ready || event.data !== 1) return
+    event.target.pauseVideo()
+    event.target.seekTo(cue.start, true)
+    cue.ready = true
+  }, [])
+
+  const dropStandby = useCallback(() => {
+    fadeCancelRef.current?.()
+    standbyRef.current?.destroy()
+    standbyRef.current = null
+    standbyCueRef.current = null
+  }, [])
+
+  useEffect(() => {
+    if (transition.mode === 'cut') dropStandby()
+  }, [transition.mode, dropStandby])
+
+  // The repeat now playing is the last one: the repeat limit is reached or an
+  // end-of-loop sleep timer has run out. Playback stops even with a playlist
+  // or Up next waiting.
+  const isLastLoop = useCallback(() => {
+    const limit = repeatLimitRef.current
+    const sleep = sleepTimerRef.current
+    if (limit !== null && loopCountRef.current + 1 >= limit) return true
+    return Boolean(sleep?.atLoopEnd && Date.now() >= sleep.endsAt)
+  }, [])
+
+  // What a transition would switch to now: the next playlist entry, else this
+  // video again from A. Null when playback is about to stop, or when the
+  // loop's pacing wants a real pause between repeats.
+  const transitionTarget = useCallback((): { videoId: string; start: number } | null => {
+    const vid = videoIdRef.current
+    if (!vid || isLastLoop()) return null
+    const nextIdx = activePlaylistIdRef.current ? upcomingIndex(true) : null
+    const entry = nextQueued() ?? (nextIdx === null
+      ? undefined
+      : playlistsRef.current.find((p) => p.id === activePlaylistIdRef.current)?.videos[nextIdx])
+    if (entry) {
+      const pts = loopPointsRef.current[entry.videoId]
+      const region = entry.regionId ? pts?.regions?.find((r) => r.id === entry.regionId) : undefined
+      return { videoId: entry.videoId, start: loopEntryPoint(parseLoopTime(region?.start ?? pts?.start), pts?.pacing) }
+    }
+    const pts = loopFor(vid)
+    if (pacingDelay(pts?.pacing) > 0) return null
+    return { videoId: vid, start: loopEntryPoint(parseLoopTime(pts?.start), pts?.pacing) }
+  }, [upcomingIndex, nextQueued, isLastLoop, loopFor])
+
+  // Apply a playlist entry's own region, speed and volume. All of them are
+  // temporary: the region plays as a session loop, leaving the video's saved
+  // active region alone, and the user's own speed and volume are kept aside
+  // and come back with the first entry that doesn't override them.
+  const applyEntrySettings = useCallback((entry: PlaylistVideo) => {
+    const region = entry.regionId
+      ? loopPointsRef.current[entry.videoId]?.regions?.find((r) => r.id === entry.regionId)
+      : undefined
+    sessionLoopRef.current = region
+      ? { videoId: entry.videoId, start: region.start, end: region.end, activeRegionId: region.id }
+      : null
+    if (entry.videoId === videoIdRef.current) applyLoopEntry(loopFor(entry.videoId))
+    const overrides = entry.speed !== undefined || entry.volume !== undefined
+    entrySpeedRef.current = entry.speed !== undefined
+    if (overrides && !entryBaseRef.current) {
+      entryBaseRef.current = { speed: playbackSpeedRef.current, volume: volumeRef.current }
+    }
+    const base = entryBaseRef.current
+    if (!overrides) entryBaseRef.current = null
+    const speed = entry.speed ?? base?.speed
+    const volume = entry.volume ?? base?.volume
+    if (speed !== undefined) {
+      playbackSpeedRef.current = speed
+      setPlaybackSpeed(speed)
+      playerRef.current?.setPlaybackRate(speed)
+    }
+    if (volume !== undefined) {
+      volumeRef.current = volume
+      setVolume(volume)
+      playerRef.current?.setVolume(volume)
+    }
+  }, [applyLoopEntry, loopFor])
+
+  // Play a playlist entry, or with a null index an Up next item, which leaves
+  // the playlist's position where it was
+  const loadPlaylistEntry = useCallback((video: PlaylistVideo, index: number | null) => {
+    // Settings first so the load starts at the entry's region
+    applyEntrySettings(video)
+    // From the pre-roll, as the transition standby was primed
+    const pts = loopFor(video.videoId)
+    const startSec = loopEntryPoint(parseLoopTime(pts?.start), pts?.pacing)
+    if (index !== null) setActivePlaylistIndex(index)
+    playingQueuedRef.current = index === null
+    setPlayingQueued(index === null)
+    // Without a player yet (Up next started from idle) the player effect creates one
+    internalNavRef.current = Boolean(playerRef.current)
+    setVideoId(video.videoId)
+    setUrl(`https://youtube.com/watch?v=${video.videoId}`)
+    setLoopCount(0)
+    setIsPlaying(true)
+    upsert(video.videoId, 0, video.title)
+    if (swapIfCued(video.videoId, startSec)) return
+    // Load in existing player to avoid autoplay restrictions in background tabs
+    if (playerRef.current?.loadVideoById) {
+      playerRef.current.loadVideoById({ videoId: video.videoId, startSeconds: startSec })
     }
+  }, [upsert, applyEntrySettings, swapIfCued, loopFor])
 
-    const nextIdx = idx + 1
-    if (nextIdx < total) {
-      loadNext(plist.videos[nextIdx], nextIdx)
-      return true
-    } else if (loopPlaylistModeRef.current) {
-      loadNext(plist.videos[0], 0)
+  // Advance to Up next's first item, else the next video in the active playlist.
+  // Returns true if advanced, false if there's nothing to advance to.
+  const advancePlaylist = useCallback((): boolean => {
+    const queued = nextQueued()
+    if (queued) {
+      takeFromQueue(entryKey(queued))
+      loadPlaylistEntry(queued, null)
       return true
     }
-    return false
-  }, [upsert, pickNextShuffleIndex])
+    const nextIdx = upcomingIndex(false)
+    const plist = playlistsRef.current.find((p) => p.id === activePlaylistIdRef.current)
+    if (nextIdx === null || !plist) return false
+    loadPlaylistEntry(plist.videos[nextIdx], nextIdx)
+    return true
+  }, [loadPlaylistEntry, upcomingIndex, nextQueued, takeFromQueue])
 
   const prevPlaylistVideo = useCallback(() => {
-    const plist = playlists.find((p) => p.id === activePlaylistId)
+    const plist = queuePlaylists.find((p) => p.id === activePlaylistId)
     if (!plist) return
-    const prevIdx = activePlaylistIndex - 1
+    // From an Up next item, "previous" is the entry the playlist stopped on
+    const prevIdx = playingQueued ? activePlaylistIndex : activePlaylistIndex - 1
     if (prevIdx < 0) return
-    const prev = plist.videos[prevIdx]
-    const pts = loopPointsRef.current[prev.videoId]
-    const startSec = pts?.start ? parseInt(pts.start) : 0
-    setActivePlaylistIndex(prevIdx)
-    internalNavRef.current = true
-    setVideoId(prev.videoId)
-    setUrl(`https://youtube.com/watch?v=${prev.videoId}`)
-    setLoopCount(0)
-    setIsPlaying(true)
-    upsert(prev.videoId, 0, prev.title)
-    if (playerRef.current?.loadVideoById) {
-      playerRef.current.loadVideoById({ videoId: prev.videoId, startSeconds: startSec })
-    }
-  }, [activePlaylistId, activePlaylistIndex, playlists, upsert])
+    loadPlaylistEntry(plist.videos[prevIdx], prevIdx)
+  }, [activePlaylistId, activePlaylistIndex, playingQueued, queuePlaylists, loadPlaylistEntry])
 
   const nextPlaylistVideo = useCallback(() => {
-    const plist = playlists.find((p) => p.id === activePlaylistId)
+    const queued = takeFromQueue()
+    if (queued) {
+      loadPlaylistEntry(queued, null)
+      return
+    }
+    const plist = queuePlaylists.find((p) => p.id === activePlaylistId)
     if (!plist || plist.videos.length === 0) return
     const total = plist.videos.length
 
@@ -673,39 +1280,29 @@ export default function Home() {
       }
     }
 
-    const next = plist.videos[nextIdx]
-    const pts = loopPointsRef.current[next.videoId]
-    const startSec = pts?.start ? parseInt(pts.start) : 0
-    setActivePlaylistIndex(nextIdx)
-    internalNavRef.current = true
-    setVideoId(next.videoId)
-    setUrl(`https://youtube.com/watch?v=${next.videoId}`)
-    setLoopCount(0)
-    setIsPlaying(true)
-    upsert(next.videoId, 0, next.title)
-    if (playerRef.current?.loadVideoById) {
-      playerRef.current.loadVideoById({ videoId: next.videoId, startSeconds: startSec })
-    }
-  }, [activePlaylistId, activePlaylistIndex, playlists, upsert, shuffleMode, loopPlaylistMode, pickNextShuffleIndex])
+    loadPlaylistEntry(plist.videos[nextIdx], nextIdx)
+  }, [activePlaylistId, activePlaylistIndex, queuePlaylists, loadPlaylistEntry, shuffleMode, loopPlaylistMode, pickNextShuffleIndex, takeFromQueue])
+
+  const playFromQueue = useCallback((key: string) => {
+    const item = takeFromQueue(key)
+    if (item) loadPlaylistEntry(item, null)
+  }, [takeFromQueue, loadPlaylistEntry])
+
+  const saveQueueAsPlaylist = () => {
+    const name = prompt(t.newPlaylistTitle + ':')
+    if (!name?.trim()) return
+    undoGroup('undoCreatePlaylist', () => {
+      const id = createPlaylist(name.trim())
+      upNext.forEach((v) => addToPlaylist(id, v.videoId, v.title))
+    })
+  }
 
   const jumpToPlaylistIndex = useCallback((index: number) => {
-    const plist = playlists.find((p) => p.id === activePlaylistId)
+    const plist = queuePlaylists.find((p) => p.id === activePlaylistId)
     if (!plist || index < 0 || index >= plist.videos.length) return
-    if (index === activePlaylistIndex) return
-    const target = plist.videos[index]
-    const pts = loopPointsRef.current[target.videoId]
-    const startSec = pts?.start ? parseInt(pts.start) : 0
-    setActivePlaylistIndex(index)
-    internalNavRef.current = true
-    setVideoId(target.videoId)
-    setUrl(`https://youtube.com/watch?v=${target.videoId}`)
-    setLoopCount(0)
-    setIsPlaying(true)
-    upsert(target.videoId, 0, target.title)
-    if (playerRef.current?.loadVideoById) {
-      playerRef.current.loadVideoById({ videoId: target.videoId, startSeconds: startSec })
-    }
-  }, [activePlaylistId, activePlaylistIndex, playlists, upsert])
+    if (index === activePlaylistIndex && !playingQueued) return
+    loadPlaylistEntry(plist.videos[index], index)
+  }, [activePlaylistId, activePlaylistIndex, playingQueued, queuePlaylists, loadPlaylistEntry])
 
   // Keep the active queue row visible WITHIN the queue's own scroll container
   // only — never scrollIntoView, which would yank the page on unrelated renders
@@ -738,6 +1335,181 @@ export default function Home() {
     window.onYouTubeIframeAPIReady = () => setApiReady(true)
   }, [])
 
+  // Jump back for the next repeat, honouring the video's pre-roll, gap and
+  // count-in (see lib/loop-pacing).
+  const repeatLoop = useCallback((vid: string) => {
+    const p = playerRef.current
+    if (!p) return
+    pendingRepeatRef.current?.()
+    const pts = loopFor(vid)
+    // Without a gap or count-in to wait out, a primed standby takes the repeat
+    if (pacingDelay(pts?.pacing) <= 0 && swapIfCued(vid, loopEntryPoint(parseLoopTime(pts?.start), pts?.pacing))) {
+      pendingRepeatRef.current = null
+      return
+    }
+    pendingRepeatRef.current = restartLoop(p, parseLoopTime(pts?.start), pts?.pacing)
+  }, [swapIfCued, loopFor])
+
+  useEffect(() => () => {
+    pendingRepeatRef.current?.()
+    pendingRepeatRef.current = null
+  }, [videoId])
+
+  // Write the timed session to the practice log (if it was long enough)
+  const flushSession = useCallback(() => {
+    const s = sessionRef.current
+    sessionRef.current = null
+    if (!s || s.played < MIN_SESSION_SECONDS) return
+    const region = loopPointsRef.current[s.videoId]?.regions?.find((r) => r.id === s.regionId)
+    logSession({
+      videoId: s.videoId,
+      title: s.title,
+      regionId: s.regionId,
+      regionName: region?.name,
+      speed: Math.round((s.speedSeconds / s.played) * 100) / 100,
+      startedAt: s.startedAt,
+      duration: Math.round(s.played),
+      loopCount: s.loops,
+    })
+  }, [logSession])
+
+  // Called on every playing tick. Switching video or region starts a new
+  // session; time between ticks is capped so a sleeping tab doesn't count.
+  const trackSession = useCallback((vid: string, title?: string) => {
+    const now = Date.now()
+    const regionId = loopFor(vid)?.activeRegionId
+    if (sessionRef.current && (sessionRef.current.videoId !== vid || sessionRef.current.regionId !== regionId)) {
+      flushSession()
+    }
+    const s = sessionRef.current ?? {
+      videoId: vid,
+      regionId,
+      startedAt: now,
+      lastTick: now,
+      played: 0,
+      speedSeconds: 0,
+      loops: 0,
+    }
+    const dt = Math.min(now - s.lastTick, 1000) / 1000
+    s.played += dt
+    s.speedSeconds += dt * playbackSpeedRef.current
+    s.lastTick = now
+    s.title = title || s.title
+    sessionRef.current = s
+  }, [flushSession, loopFor])
+
+  useEffect(() => flushSession, [videoId, flushSession])
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSession)
+    return () => window.removeEventListener('pagehide', flushSession)
+  }, [flushSession])
+
+  // Start shadowing at a step (or stop it with null) and play that cue
+  const playShadowStep = useCallback((step: ShadowStep | null) => {
+    pendingRepeatRef.current?.()
+    pendingRepeatRef.current = null
+    shadowStepRef.current = step
+    setShadowStep(step)
+    const p = playerRef.current
+    const line = step && transcriptLinesRef.current[step.index]
+    if (!p || !line) return
+    p.seekTo(line.start, true)
+    p.playVideo()
+  }, [])
+
+  // A cue finished playing. Wait at the start of whatever plays next for the
+  // learner's turn; pressing play during the wait cuts it short.
+  const finishShadowCue = useCallback(() => {
+    const p = playerRef.current
+    const step = shadowStepRef.current
+    const lines = transcriptLinesRef.current
+    if (!p || !step || !lines[step.index]) return
+    const next = nextShadowStep(step, shadowingRef.current, lines.length)
+    p.pauseVideo()
+    shadowStepRef.current = next
+    setShadowStep(next)
+    if (!next) return
+    p.seekTo(lines[next.index].start, true)
+    const timer = setTimeout(() => {
+      pendingRepeatRef.current = null
+      p.playVideo()
+    }, shadowPauseMs(lines[step.index], shadowingRef.current))
+    pendingRepeatRef.current = () => clearTimeout(timer)
+  }, [])
+
+  // Pause back at A and undo any sleep fade, so pressing play picks up cleanly
+  const stopLoop = useCallback((vid: string) => {
+    const p = playerRef.current
+    if (!p) return
+    pendingRepeatRef.current?.()
+    pendingRepeatRef.current = null
+    p.pauseVideo()
+    p.seekTo(parseLoopTime(loopFor(vid)?.start), true)
+    p.setVolume(volumeRef.current)
+  }, [loopFor])
+
+  // A repeat just finished: count it, then either go round again or stop for
+  // the repeat limit / an expired end-of-loop sleep timer. Returns the new count.
+  const completeLoop = useCallback((vid: string) => {
+    const next = loopCountRef.current + 1
+    loopCountRef.current = next
+    setLoopCount(next)
+    if (sessionRef.current?.videoId === vid) sessionRef.current.loops += 1
+    // The speed trainer moves on when this loop crosses one of its steps, so
+    // a speed set by hand in between holds until then
+    const trainer = speedTrainerRef.current
+    if (trainer.enabled && !entrySpeedRef.current && trainerSpeed(trainer, next) !== trainerSpeed(trainer, next - 1)) {
+      setPlaybackSpeed(trainerSpeed(trainer, next))
+    }
+    const limit = repeatLimitRef.current
+    const sleep = sleepTimerRef.current
+    if (sleep?.atLoopEnd && Date.now() >= sleep.endsAt) {
+      setSleepTimer(null)
+      stopLoop(vid)
+    } else if (limit !== null && next >= limit) {
+      stopLoop(vid)
+    } else {
+      repeatLoop(vid)
+    }
+    return next
+  }, [repeatLoop, stopLoop])
+
+  // Sleep timer: fade the player volume over the last SLEEP_FADE_SECONDS, then
+  // stop. In end-of-loop mode the fade runs towards B once the deadline passes
+  // and completeLoop does the stopping. The saved volume is never touched.
+  useEffect(() => {
+    if (!sleepTimer) return
+    const tick = () => {
+      const p = playerRef.current
+      const now = Date.now()
+      setSleepRemaining(Math.max(0, Math.ceil((sleepTimer.endsAt - now) / 1000)))
+      if (!p || typeof p.getPlayerState !== 'function') return
+      let remaining = (sleepTimer.endsAt - now) / 1000
+      if (sleepTimer.atLoopEnd) {
+        if (remaining > 0) return
+        const vid = videoIdRef.current
+        const end = (vid && parseLoopTime(loopFor(vid)?.end)) || p.getDuration?.() || 0
+        remaining = end - (p.getCurrentTime?.() || 0)
+      } else if (remaining <= 0) {
+        pendingRepeatRef.current?.()
+        pendingRepeatRef.current = null
+        p.pauseVideo()
+        setSleepTimer(null)
+        return
+      }
+      const fade = Math.min(Math.max(remaining / SLEEP_FADE_SECONDS, 0), 1)
+      // A crossfade in progress owns the volume until it finishes
+      if (!fadeCancelRef.current) p.setVolume(Math.round(volumeRef.current * fade))
+    }
+    tick()
+    const id = setInterval(tick, 250)
+    return () => {
+      clearInterval(id)
+      playerRef.current?.setVolume(volumeRef.current)
+    }
+  }, [sleepTimer, loopFor])
+
   // Poll the player while a video is loaded — do NOT gate on React's
   // isPlaying state, because YouTube can miss the PLAYING state-change event
   // (autoplay after loadVideoById, background tabs), leaving isPlaying stuck
@@ -750,60 +1522,69 @@ export default function Home() {
     const tick = () => {
       const p = playerRef.current
       if (!p || typeof p.getPlayerState !== 'function') return
-      if (p.getPlayerState() !== 1) return // 1 = PLAYING
+      if (p.getPlayerState() !== 1) { // 1 = PLAYING
+        const session = sessionRef.current
+        if (session && Date.now() - session.lastTick > SESSION_IDLE_MS) flushSession()
+        return
+      }
+      trackSession(videoId, p.getVideoData?.()?.title)
       const ct = p.getCurrentTime?.() || 0
       const dur = p.getDuration?.() || 0
       setCurrentTime(ct)
       setDuration(dur)
-      const pts = loopPointsRef.current[videoId]
-      const end = pts?.end ? parseInt(pts.end) : 0
+      // Shadowing replaces the A/B loop with the current cue's bounds
+      const shadow = shadowStepRef.current
+      const cue = shadow && transcriptLinesRef.current[shadow.index]
+      const pts = loopFor(videoId)
+      let end = cue ? cue.end : parseLoopTime(pts?.end)
+      // Crossfade/gapless: keep the standby primed with what comes next, and
+      // once it's ready hand over early (at the video's end too, not only B)
+      let lead = 0
+      const transition = transitionRef.current
+      if (!cue && transition.mode !== 'cut' && !fadeCancelRef.current) {
+        const target = transitionTarget()
+        const primed = standbyCueRef.current
+        if (target && (primed?.videoId !== target.videoId || primed.start !== target.start)) {
+          primeStandby(target)
+        } else if (target && primed?.ready) {
+          end = end || dur
+          lead = transition.mode === 'gapless'
+            ? GAPLESS_LEAD
+            : Math.min(transition.seconds * playbackSpeedRef.current, (end - parseLoopTime(pts?.start)) / 3)
+        }
+      }
       if (!(end > 0) || seekCooldownRef.current) return
-      if (ct < end) return
+      if (ct < end - lead) return
       seekCooldownRef.current = true
       setTimeout(() => { seekCooldownRef.current = false }, 300)
-      const start = pts?.start ? parseInt(pts.start) : 0
-      if (activePlaylistIdRef.current) {
-        const advanced = advancePlaylist()
-        if (advanced) return
+      if (cue) {
+        finishShadowCue()
+        return
       }
-      setLoopCount((prev) => prev + 1)
-      p.seekTo(start, true)
-      p.playVideo()
+      // Up next or the playlist moves on, unless playback stops here;
+      // otherwise go round again
+      if (!isLastLoop() && advancePlaylist()) return
+      completeLoop(videoId)
     }
     const id = setInterval(tick, 100)
     return () => clearInterval(id)
-  }, [videoId, advancePlaylist])
+  }, [videoId, advancePlaylist, completeLoop, isLastLoop, finishShadowCue, trackSession, flushSession, transitionTarget, primeStandby, loopFor])
 
   const onPlayerStateChange = useCallback(
     (event: YTPlayerEvent) => {
+      if (event.target !== playerRef.current) {
+        onStandbyStateChange(event)
+        return
+      }
       if (event.data === 0) {
-        if (activePlaylistIdRef.current) {
-          const advanced = advancePlaylist()
-          if (!advanced) {
-            // Playlist ended with no loop — keep looping last video
-            setLoopCount((prev) => {
-              const next = prev + 1
-              if (videoId) upsert(videoId, next)
-              return next
-            })
-            playerRef.current?.seekTo(
-              startTimeRef.current ? parseInt(startTimeRef.current) : 0,
-              true,
-            )
-            playerRef.current?.playVideo()
-          }
+        if (shadowStepRef.current) {
+          finishShadowCue()
           return
         }
-        setLoopCount((prev) => {
-          const next = prev + 1
-          if (videoId) upsert(videoId, next)
-          return next
-        })
-        playerRef.current?.seekTo(
-          startTimeRef.current ? parseInt(startTimeRef.current) : 0,
-          true,
-        )
-        playerRef.current?.playVideo()
+        if (!isLastLoop() && advancePlaylist()) return
+        // Nothing queued (or the playlist ended with no loop) — keep looping,
+        // or stop for the repeat limit / sleep timer
+        if (videoId) upsert(videoId, completeLoop(videoId))
       }
       if (event.data === 1) {
         setIsPlaying(true)
@@ -812,20 +1593,25 @@ export default function Home() {
       }
       if (event.data === 2) setIsPlaying(false)
     },
-    [videoId, upsert, advancePlaylist],
+    [videoId, upsert, advancePlaylist, completeLoop, isLastLoop, finishShadowCue, onStandbyStateChange],
   )
 
+  // Players created for the standby slot outlive this render's handler
+  useEffect(() => { onPlayerStateChangeRef.current = onPlayerStateChange }, [onPlayerStateChange])
+
   const onPlayerReady = useCallback(() => {
     if (playerRef.current) {
       setDuration(playerRef.current.getDuration?.() || 0)
       playerRef.current.setVolume(volumeRef.current)
-      if (startTimeRef.current) {
-        playerRef.current.seekTo(parseInt(startTimeRef.current), true)
+      playerRef.current.setPlaybackRate(playbackSpeedRef.current)
+      const pacing = videoIdRef.current ? loopFor(videoIdRef.current)?.pacing : undefined
+      if (startTimeRef.current || pacing?.preRoll) {
+        playerRef.current.seekTo(loopEntryPoint(parseLoopTime(startTimeRef.current), pacing), true)
       }
       const title = playerRef.current.getVideoData?.()?.title
       if (title) document.title = `${title} on Loop | YOL`
     }
-  }, [])
+  }, [loopFor])
 
   useEffect(() => {
     if (!videoId) {
@@ -841,7 +1627,10 @@ export default function Home() {
       internalNavRef.current = false
       return
     }
+    dropStandby()
     if (playerRef.current) playerRef.current.destroy()
+    frontSlotRef.current = 0
+    setFrontSlot(0)
     playerRef.current = new window.YT.Player(containerRef.current, {
       videoId,
       playerVars: {
@@ -855,12 +1644,20 @@ export default function Home() {
     return () => {
       // Skip destroy during internal playlist navigation — player is being reused
       if (internalNavRef.current) return
+      dropStandby()
       if (playerRef.current) {
         playerRef.current.destroy()
         playerRef.current = null
       }
     }
-  }, [apiReady, videoId, onPlayerStateChange, onPlayerReady])
+  }, [apiReady, videoId, onPlayerStateChange, onPlayerReady, dropStandby])
+
+  // A reset loop counter (by hand or with another video) restarts the speed
+  // trainer's ramp from its start speed
+  useEffect(() => {
+    const trainer = speedTrainerRef.current
+    if (loopCount === 0 && trainer.enabled && !entrySpeedRef.current) setPlaybackSpeed(trainerSpeed(trainer, 0))
+  }, [loopCount])
 
   // Apply playback speed without recreating player
   useEffect(() => {
@@ -948,9 +1745,17 @@ export default function Home() {
     e.preventDefault()
     const id = extractVideoId(url)
     if (!id) return
+    // Pasted YouTube (or YOL) links may carry t= / a= / b= etc.
+    let params: URLSearchParams | null = null
+    try { params = new URL(url.trim()).searchParams } catch {}
+    if (params) {
+      params.set('v', id)
+      const link = parseLoopLink(params)
+      if (link) applyLoopLink(link)
+    }
     if (id === videoId) {
       setLoopCount(0)
-      playerRef.current?.seekTo(startTime ? parseInt(startTime) : 0, true)
+      playerRef.current?.seekTo(parseLoopTime(startTimeRef.current), true)
       playerRef.current?.playVideo()
     } else {
       setActivePlaylistId(null)
@@ -964,6 +1769,7 @@ export default function Home() {
   }
 
   const handleReset = () => {
+    dropStandby()
     if (playerRef.current) {
       playerRef.current.destroy()
       playerRef.current = null
@@ -980,8 +1786,12 @@ export default function Home() {
     setActivePlaylistIndex(0)
   }
 
-  const togglePlay = () =>
-    isPlaying ? playerRef.current?.pauseVideo() : playerRef.current?.playVideo()
+  const togglePlay = () => {
+    pendingRepeatRef.current?.()
+    pendingRepeatRef.current = null
+    if (isPlaying) playerRef.current?.pauseVideo()
+    else playerRef.current?.playVideo()
+  }
   const skipBack = () =>
     playerRef.current?.seekTo(
       Math.max(0, (playerRef.current?.getCurrentTime() || 0) - 10),
@@ -993,81 +1803,293 @@ export default function Home() {
       true,
     )
 
-  const hotkeyOpts = { preventDefault: true, ignoreEventWhen: () => false }
+  // Sidebar library views and the command palette start playback through these
+  const playVideo = (vId: string, title?: string) => {
+    entrySpeedRef.current = false
+    setActivePlaylistId(null)
+    setVideoId(vId)
+    setUrl(`https://youtube.com/watch?v=${vId}`)
+    setLoopCount(0)
+    setIsPlaying(true)
+    setSearchResults([])
+    upsert(vId, 0, title)
+  }
+  const playFromPlaylist = (playlistId: string, index: number, vId: string, title?: string) => {
+    const smart = isSmartPlaylist(playlistId) ? smartPlaylists.find((p) => p.id === playlistId) ?? null : null
+    setSmartQueue(smart)
+    const entry = (smart ?? playlists.find((p) => p.id === playlistId))?.videos[index]
+    if (entry) applyEntrySettings(entry)
+    setPlayingQueued(false)
+    setActivePlaylistId(playlistId)
+    setActivePlaylistIndex(index)
+    setVideoId(vId)
+    setUrl(`https://youtube.com/watch?v=${vId}`)
+    setLoopCount(0)
+    setIsPlaying(true)
+    setSearchResults([])
+    upsert(vId, 0, title)
+  }
 
-  useHotkeys('space', () => videoId && togglePlay(), { preventDefault: true })
-  useHotkeys('left', () => videoId && skipBack(), { preventDefault: true })
-  useHotkeys('right', () => videoId && skipForward(), { preventDefault: true })
+  const changeSpeed = (speed: number) => {
+    setPlaybackSpeed(speed)
+    playerRef.current?.setPlaybackRate(speed)
+  }
+
+  // A or B to `seconds`, kept inside the video and clear of the other edge;
+  // playback carries on where it is
+  const moveLoopEdge = (edge: 'start' | 'end', seconds: number) => {
+    if (!videoId) return
+    if (edge === 'start') commitLoopBounds(Math.min(Math.max(0, seconds), loopEndSec - MIN_LOOP_LENGTH), loopEndSec, false)
+    else commitLoopBounds(loopStartSec, Math.max(Math.min(seconds, duration), loopStartSec + MIN_LOOP_LENGTH), false)
+  }
+
+  // Every shortcut comes from the user's bindings (defaults plus whatever
+  // they rebound). All of them pause while the shortcut settings are open so
+  // the keys being recorded don't also act.
+  const keysFor = (action: ShortcutAction) => shortcuts[action].join(',')
+  const shortcutOpts = { preventDefault: true, enabled: !shortcutsOpen }
+
+  useHotkeys(keysFor('playPause'), () => videoId && togglePlay(), shortcutOpts)
+  useHotkeys(keysFor('back10'), () => videoId && skipBack(), shortcutOpts)
+  useHotkeys(keysFor('forward10'), () => videoId && skipForward(), shortcutOpts)
   useHotkeys(
-    'shift+left',
+    keysFor('back30'),
     () =>
       videoId &&
       playerRef.current?.seekTo(
         Math.max(0, (playerRef.current?.getCurrentTime() || 0) - 30),
         true,
       ),
-    { preventDefault: true },
+    shortcutOpts,
   )
   useHotkeys(
-    'shift+right',
+    keysFor('forward30'),
     () =>
       videoId &&
       playerRef.current?.seekTo(
         (playerRef.current?.getCurrentTime() || 0) + 30,
         true,
       ),
-    { preventDefault: true },
+    shortcutOpts,
+  )
+  useHotkeys(
+    keysFor('speedUp'),
+    () => videoId && changeSpeed(Math.min(Math.round((playbackSpeed + 0.05) * 100) / 100, 2)),
+    shortcutOpts,
   )
   useHotkeys(
-    'equal,plus',
+    keysFor('speedDown'),
+    () => videoId && changeSpeed(Math.max(Math.round((playbackSpeed - 0.05) * 100) / 100, 0.25)),
+    shortcutOpts,
+  )
+  useHotkeys(keysFor('speedReset'), () => videoId && changeSpeed(1), shortcutOpts)
+  useHotkeys(keysFor('setA'), () => moveLoopEdge('start', getPlayerTime()), shortcutOpts)
+  useHotkeys(keysFor('setB'), () => moveLoopEdge('end', getPlayerTime()), shortcutOpts)
+  useHotkeys(keysFor('nudgeAEarlier'), () => moveLoopEdge('start', loopStartSec - SLIDER_STEP), shortcutOpts)
+  useHotkeys(keysFor('nudgeALater'), () => moveLoopEdge('start', loopStartSec + SLIDER_STEP), shortcutOpts)
+  useHotkeys(keysFor('nudgeBEarlier'), () => moveLoopEdge('end', loopEndSec - SLIDER_STEP), shortcutOpts)
+  useHotkeys(keysFor('nudgeBLater'), () => moveLoopEdge('end', loopEndSec + SLIDER_STEP), shortcutOpts)
+  useHotkeys(keysFor('prevItem'), () => activePlaylistId && prevPlaylistVideo(), shortcutOpts)
+  useHotkeys(keysFor('nextItem'), () => (activePlaylistId || upNext.length) && nextPlaylistVideo(), shortcutOpts)
+  useHotkeys(
+    keysFor('toggleLoopSong'),
     () => {
-      if (!videoId) return
-      const next = Math.min(Math.round((playbackSpeed + 0.05) * 100) / 100, 2)
-      setPlaybackSpeed(next)
-      playerRef.current?.setPlaybackRate(next)
+      setLoopSongMode(!loopSongMode)
+      if (!loopSongMode) setLoopPlaylistMode(false)
     },
-    { preventDefault: true },
+    shortcutOpts,
   )
   useHotkeys(
-    'minus',
+    keysFor('toggleLoopPlaylist'),
     () => {
-      if (!videoId) return
-      const prev = Math.max(Math.round((playbackSpeed - 0.05) * 100) / 100, 0.25)
-      setPlaybackSpeed(prev)
-      playerRef.current?.setPlaybackRate(prev)
+      setLoopPlaylistMode(!loopPlaylistMode)
+      if (!loopPlaylistMode) setLoopSongMode(false)
     },
-    { preventDefault: true },
+    shortcutOpts,
   )
+  useHotkeys(keysFor('toggleShuffle'), () => setShuffleMode(!shuffleMode), shortcutOpts)
   useHotkeys(
-    '0',
+    keysFor('focusSearch'),
     () => {
-      if (!videoId) return
-      setPlaybackSpeed(1)
-      playerRef.current?.setPlaybackRate(1)
+      urlInputRef.current?.focus()
+      urlInputRef.current?.select()
     },
-    { preventDefault: true },
+    shortcutOpts,
   )
-  useHotkeys('f', (e) => {
-    e.preventDefault()
-    urlInputRef.current?.focus()
-    urlInputRef.current?.select()
+  // Works from inside text fields too, as long as it needs a modifier
+  useHotkeys(keysFor('commandPalette'), () => setPaletteOpen((v) => !v), {
+    ...shortcutOpts,
+    enableOnFormTags: shortcuts.commandPalette.every((k) => /(mod|ctrl|alt|meta)\+/.test(k)),
   })
-  useHotkeys('shift+/', () => setHelpOpen((v) => !v), { preventDefault: true })
+  useHotkeys(keysFor('undo'), () => undoLast(), shortcutOpts)
+  useHotkeys(keysFor('redo'), () => redoLast(), shortcutOpts)
+  useHotkeys(keysFor('help'), () => setHelpOpen((v) => !v), shortcutOpts)
+
+  // Home re-renders on every player tick, so the palette's rows are only
+  // rebuilt when what they list changes. Handlers that aren't stable are
+  // called through this ref to get the current render's version.
+  const paletteRunRef = useRef({ changeSpeed, playVideo, playFromPlaylist })
+  useEffect(() => { paletteRunRef.current = { changeSpeed, playVideo, playFromPlaylist } })
+
+  const paletteItems = useMemo((): CommandItem[] => {
+    if (!paletteOpen) return []
+    const reveal = (kind: LibraryReveal['kind'], id: string) => {
+      setLibraryReveal({ kind, id })
+      if (window.matchMedia('(max-width: 1023px)').matches) setSidebarOpen(true)
+    }
+    const actions: CommandItem[] = [
+      { id: 'action:dark', kind: 'action', label: darkMode ? t.lightMode : t.darkMode, run: toggleDark },
+      { id: 'action:data', kind: 'action', label: t.manageData, run: () => setDataOpen(true) },
+      { id: 'action:shortcuts', kind: 'action', label: t.shortcutsTitle, run: () => setShortcutsOpen(true) },
+      {
+        id: 'action:loop-song',
+        kind: 'action',
+        label: t.loopSong,
+        detail: loopSongMode ? '✓' : undefined,
+        run: () => {
+          setLoopSongMode(!loopSongMode)
+          if (!loopSongMode) setLoopPlaylistMode(false)
+        },
+      },
+      {
+        id: 'action:loop-playlist',
+        kind: 'action',
+        label: t.loopPlaylist,
+        detail: loopPlaylistMode ? '✓' : undefined,
+        run: () => {
+          setLoopPlaylistMode(!loopPlaylistMode)
+          if (!loopPlaylistMode) setLoopSongMode(false)
+        },
+      },
+      { id: 'action:shuffle', kind: 'action', label: t.shuffle, detail: shuffleMode ? '✓' : undefined, run: () => setShuffleMode(!shuffleMode) },
+      ...PALETTE_SPEEDS.map((speed): CommandItem => ({
+        id: `action:speed-${speed}`,
+        kind: 'action',
+        label: `${t.speed} ${speed}×`,
+        detail: playbackSpeed === speed ? '✓' : undefined,
+        run: () => paletteRunRef.current.changeSpeed(speed),
+      })),
+      ...LANGS.map((l): CommandItem => ({
+        id: `action:lang-${l}`,
+        kind: 'action',
+        label: `${t.language}: ${LANG_NAMES[l]}`,
+        detail: lang === l ? '✓' : undefined,
+        run: () => setLang(l),
+      })),
+    ]
+    return [
+      ...actions,
+      ...libraryCommands(
+        { playlists, folders, history, notes, loopPoints: loopPointsSnapshot },
+        {
+          openPlaylist: (id) => reveal('playlist', id),
+          openFolder: (id) => reveal('folder', id),
+          playEntry: (playlistId, index) => {
+            const entry = playlists.find((p) => p.id === playlistId)?.videos[index]
+            if (entry) paletteRunRef.current.playFromPlaylist(playlistId, index, entry.videoId, entry.title)
+          },
+          playVideo: (vId, title) => paletteRunRef.current.playVideo(vId, title),
+          playRegion: (vId, regionId, title) => {
+            const entry = loopPointsRef.current[vId]
+            if (sessionLoopRef.current?.videoId === vId) sessionLoopRef.current = null
+            if (entry) commitLoopEntry(vId, activateRegion(entry, regionId))
+            paletteRunRef.current.playVideo(vId, title)
+          },
+        },
+      ),
+    ]
+  }, [
+    paletteOpen, t, lang, setLang, darkMode, toggleDark, loopSongMode, loopPlaylistMode, shuffleMode, playbackSpeed,
+    playlists, folders, history, notes, loopPointsSnapshot, commitLoopEntry,
+  ])
+
+  const selectRegion = (regionId: string) => {
+    const entry = videoId ? loopPointsRef.current[videoId] : undefined
+    if (!videoId || !entry) return
+    const next = activateRegion(entry, regionId)
+    sessionLoopRef.current = null
+    commitLoopEntry(videoId, next)
+    setLoopCount(0)
+    playerRef.current?.seekTo(parseLoopTime(next.start), true)
+  }
+
+  const commitRegionName = (regionId: string) => {
+    const entry = videoId ? loopPointsRef.current[videoId] : undefined
+    if (videoId && entry && editingRegionName.trim()) {
+      commitLoopEntry(videoId, renameRegion(entry, regionId, editingRegionName.trim()))
+    }
+    setEditingRegionId(null)
+  }
+
+  const loopStartSec = parseLoopTime(startTime)
+  const loopEndSec = endTime ? parseLoopTime(endTime) : duration
+
+  // Bounds at (or beyond) the edges of the video are stored as '' so the loop
+  // keeps tracking the full video rather than a hard-coded timestamp.
+  const commitLoopBounds = (start: number, end: number, seek = true) => {
+    if (!videoId) return
+    const newStart = start <= 0 ? '' : toLoopTime(start)
+    const newEnd = end >= duration ? '' : toLoopTime(end)
+    // Editing a session loop saves it
+    const entry = setLoopBounds(loopFor(videoId), newStart, newEnd)
+    sessionLoopRef.current = null
+    commitLoopEntry(videoId, entry)
+    if (seek) playerRef.current?.seekTo(Math.max(0, start), true)
+  }
 
-  void hotkeyOpts
+  useEffect(() => {
+    setTranscript(videoId ? loadTranscript(videoId) : '')
+  }, [videoId])
+
+  const transcriptLines = useMemo(() => parseTranscript(transcript, duration), [transcript, duration])
+
+  useEffect(() => { transcriptLinesRef.current = transcriptLines }, [transcriptLines])
+
+  // A different video or transcript leaves nothing to shadow
+  useEffect(() => {
+    shadowStepRef.current = null
+    setShadowStep(null)
+  }, [videoId, transcript])
+
+  const loadVideoTranscript = (source: string) => {
+    if (!videoId) return
+    setTranscript(source)
+    saveTranscript(videoId, source)
+  }
+
+  const getPlayerTime = useCallback(() => playerRef.current?.getCurrentTime() || 0, [])
 
-  const formatTime = (s: number) =>
-    `${Math.floor(s / 60)}:${Math.floor(s % 60)
-      .toString()
-      .padStart(2, '0')}`
+  const loopAroundTimestamp = (seconds: number) =>
+    commitLoopBounds(Math.max(0, seconds - NOTE_LOOP_PADDING), seconds + NOTE_LOOP_PADDING)
+
+  const copyLoopLink = async () => {
+    if (!videoId) return
+    const link = buildLoopLink(window.location.origin, {
+      videoId,
+      start: loopStartSec,
+      end: endTime ? loopEndSec : undefined,
+      speed: playbackSpeed,
+      volume: volume === 100 ? undefined : volume,
+      region: regions.find((r) => r.id === activeRegionId)?.name,
+    })
+    try {
+      await navigator.clipboard.writeText(link)
+      setLoopLinkCopied(true)
+      setTimeout(() => setLoopLinkCopied(false), 1500)
+    } catch {}
+  }
 
   const handleExport = () => {
     const data = {
+      // 2: folders nest through parentId
+      version: 2,
       exportedAt: new Date().toISOString(),
       playlists,
       history,
       folders,
       loopPoints: loopPointsRef.current,
+      notes,
+      sessions,
     }
     const blob = new Blob([JSON.stringify(data, null, 2)], {
       type: 'application/json',
@@ -1085,55 +2107,33 @@ export default function Home() {
     reader.onload = async (ev) => {
       try {
         const parsed = JSON.parse(ev.target?.result as string)
+        // Version 1 files have flat folders, which read as top-level ones
+        const importedFolders = normalizeFolders(parsed.folders ?? [])
         if (isLoggedIn) {
           const confirmed = window.confirm(
             'This will replace all your synced data. Continue?',
           )
           if (!confirmed) return
-          const token = getAuthToken()
-          const apiUrl =
-            process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
-          await Promise.all([
-            fetch(`${apiUrl}/yol/sync/playlists`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${token}`,
-              },
-              body: JSON.stringify({ data: parsed.playlists ?? [] }),
-            }),
-            fetch(`${apiUrl}/yol/sync/folders`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${token}`,
-              },
-              body: JSON.stringify({ data: parsed.folders ?? [] }),
-            }),
-            fetch(`${apiUrl}/yol/sync/history`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${token}`,
-              },
-              body: JSON.stringify({ data: parsed.history ?? [] }),
-            }),
-            fetch(`${apiUrl}/yol/sync/loop-points`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${token}`,
-              },
-              body: JSON.stringify({ data: parsed.loopPoints ?? {} }),
-            }),
-          ])
-          setPlaylists(parsed.playlists ?? [])
-          setFolders(parsed.folders ?? [])
-          setHistory(parsed.history ?? [])
+          // Loop points aren't part of the sync engine; the rest is pushed
+          // through it so the import is merged and retried like any edit
+          await fetch(`${API_URL_SYNC}/yol/sync/loop-points`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${getAuthToken()}`,
+            },
+            body: JSON.stringify({ data: parsed.loopPoints ?? {} }),
+          })
+          replaceCollection('playlists', parsed.playlists ?? [])
+          replaceCollection('folders', importedFolders)
+          replaceCollection('history', parsed.history ?? [])
+          replaceCollection('notes', notesToItems(parsed.notes ?? {}))
+          replaceCollection('sessions', parsed.sessions ?? [])
           if (parsed.loopPoints) {
             loopPointsRef.current = parsed.loopPoints
             localStorage.setItem('yol-loop-points', JSON.stringify(parsed.loopPoints))
           }
+          await flushSync()
           window.location.reload()
           return
         }
@@ -1148,9 +2148,13 @@ export default function Home() {
             JSON.stringify(parsed.history),
           )
         if (parsed.folders)
-          localStorage.setItem('yol-folders', JSON.stringify(parsed.folders))
+          localStorage.setItem('yol-folders', JSON.stringify(importedFolders))
         if (parsed.loopPoints)
           localStorage.setItem('yol-loop-points', JSON.stringify(parsed.loopPoints))
+        if (parsed.notes)
+          localStorage.setItem('yol-notes', JSON.stringify(parsed.notes))
+        if (parsed.sessions)
+          localStorage.setItem('yol-sessions', JSON.stringify(parsed.sessions))
         window.location.reload()
       } catch {
         alert('Invalid file. Please use a yol-data.json export.')
@@ -1204,6 +2208,16 @@ export default function Home() {
           </button>
         </div>
       )}
+      <UndoToast t={t} />
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} items={paletteItems} t={t} />
+      <ShortcutSettings
+        open={shortcutsOpen}
+        onOpenChange={setShortcutsOpen}
+        bindings={shortcuts}
+        onRebind={rebind}
+        onReset={resetShortcuts}
+        t={t}
+      />
       {/* Mobile overlay */}
       {sidebarOpen && (
         <div
@@ -1227,14 +2241,21 @@ export default function Home() {
           </div>
           <LibrarySidebar
             playlists={playlists}
+            smartPlaylists={smartPlaylists}
             history={history}
             folders={folders}
             createPlaylist={createPlaylist}
-            deletePlaylist={deletePlaylist}
-            removeFromPlaylist={removeFromPlaylist}
+            deletePlaylist={trashPlaylist}
+            removeFromPlaylist={trashVideo}
             createFolder={createFolder}
-            deleteFolder={deleteFolder}
+            deleteFolder={trashFolder}
+            trash={trash}
+            canRestore={canRestore}
+            restoreFromTrash={restoreFromTrash}
+            purgeFromTrash={purge}
+            emptyTrash={emptyTrash}
             moveToFolder={moveToFolder}
+            moveFolder={moveFolder}
             reorderPlaylists={reorderPlaylists}
             reorderFolderPlaylists={reorderFolderPlaylists}
             reorderFolders={reorderFolders}
@@ -1242,33 +2263,28 @@ export default function Home() {
             setFolderEmoji={setFolderEmoji}
             clear={clear}
             addToPlaylist={addToPlaylist}
-            onPlay={(vId, title) => {
-              setActivePlaylistId(null)
-              setVideoId(vId)
-              setUrl(`https://youtube.com/watch?v=${vId}`)
-              setLoopCount(0)
-              setIsPlaying(true)
-              setSearchResults([])
-              upsert(vId, 0, title)
-            }}
-            onPlayFromPlaylist={(playlistId, index, vId, title) => {
-              setActivePlaylistId(playlistId)
-              setActivePlaylistIndex(index)
-              setVideoId(vId)
-              setUrl(`https://youtube.com/watch?v=${vId}`)
-              setLoopCount(0)
-              setIsPlaying(true)
-              setSearchResults([])
-              upsert(vId, 0, title)
-            }}
+            onPlay={playVideo}
+            onPlayFromPlaylist={playFromPlaylist}
+            onPlayNext={playNext}
+            onAddToQueue={addToQueue}
             onRemove={remove}
+            onRemoveMany={removeMany}
             reorderVideos={reorderVideos}
             renameVideo={renameVideo}
+            setEntrySettings={setEntrySettings}
+            duplicatePlaylist={duplicatePlaylist}
+            mergePlaylists={mergePlaylists}
+            splitPlaylist={splitPlaylist}
+            moveEntries={moveEntries}
+            copyEntries={copyEntries}
+            dedupePlaylists={dedupePlaylists}
+            sortVideos={sortVideos}
             isLoggedIn={isLoggedIn}
             publicMap={publicMap}
             publishPlaylist={publishPlaylist}
             unpublishPlaylist={unpublishPlaylist}
             getLoopPoints={() => loopPointsRef.current}
+            reveal={libraryReveal}
             t={t}
           />
         </div>
@@ -1327,6 +2343,9 @@ export default function Home() {
             </div>
           </div>
         </form>
+        {isLoggedIn && (
+          <SyncBadge status={syncStatus.status} pending={syncStatus.pending} onRetry={syncStatus.retry} t={t} />
+        )}
         <a
           href="https://discord.gg/yAwv9ESCX3"
           target="_blank"
@@ -1342,20 +2361,24 @@ export default function Home() {
           login={login}
           loginWithEmail={loginWithEmail}
           register={register}
-          logout={() => {
-            flushPlaylists()
-            flushFolders()
-            flushHistory()
+          logout={async () => {
+            // What can't be sent now is kept for this account's next sign-in
+            await flushSync()
             logout()
+            resetSync()
           }}
           onExport={handleExport}
           onHelp={() => setHelpOpen(true)}
+          onStats={() => setStatsOpen(true)}
+          onShortcuts={() => setShortcutsOpen(true)}
           onImport={handleImport}
           onFeature={() => {
             setFeatureOpen(true)
             setFeatureSubmitted(false)
             setFeatureText('')
           }}
+          dataOpen={dataOpen}
+          setDataOpen={setDataOpen}
           darkMode={darkMode}
           onToggleDark={toggleDark}
           lang={lang}
@@ -1370,14 +2393,21 @@ export default function Home() {
         <aside className="sticky top-[68px] hidden h-[calc(100vh-84px)] shrink-0 flex-col overflow-hidden rounded-2xl border-2 border-black bg-white shadow-base lg:flex lg:w-[220px] xl:w-[260px]">
           <LibrarySidebar
             playlists={playlists}
+            smartPlaylists={smartPlaylists}
             history={history}
             folders={folders}
             createPlaylist={createPlaylist}
-            deletePlaylist={deletePlaylist}
-            removeFromPlaylist={removeFromPlaylist}
+            deletePlaylist={trashPlaylist}
+            removeFromPlaylist={trashVideo}
             createFolder={createFolder}
-            deleteFolder={deleteFolder}
+            deleteFolder={trashFolder}
+            trash={trash}
+            canRestore={canRestore}
+            restoreFromTrash={restoreFromTrash}
+            purgeFromTrash={purge}
+            emptyTrash={emptyTrash}
             moveToFolder={moveToFolder}
+            moveFolder={moveFolder}
             reorderPlaylists={reorderPlaylists}
             reorderFolderPlaylists={reorderFolderPlaylists}
             reorderFolders={reorderFolders}
@@ -1385,33 +2415,28 @@ export default function Home() {
             setFolderEmoji={setFolderEmoji}
             clear={clear}
             addToPlaylist={addToPlaylist}
-            onPlay={(vId, title) => {
-              setActivePlaylistId(null)
-              setVideoId(vId)
-              setUrl(`https://youtube.com/watch?v=${vId}`)
-              setLoopCount(0)
-              setIsPlaying(true)
-              setSearchResults([])
-              upsert(vId, 0, title)
-            }}
-            onPlayFromPlaylist={(playlistId, index, vId, title) => {
-              setActivePlaylistId(playlistId)
-              setActivePlaylistIndex(index)
-              setVideoId(vId)
-              setUrl(`https://youtube.com/watch?v=${vId}`)
-              setLoopCount(0)
-              setIsPlaying(true)
-              setSearchResults([])
-              upsert(vId, 0, title)
-            }}
+            onPlay={playVideo}
+            onPlayFromPlaylist={playFromPlaylist}
+            onPlayNext={playNext}
+            onAddToQueue={addToQueue}
             onRemove={remove}
+            onRemoveMany={removeMany}
             reorderVideos={reorderVideos}
             renameVideo={renameVideo}
+            setEntrySettings={setEntrySettings}
+            duplicatePlaylist={duplicatePlaylist}
+            mergePlaylists={mergePlaylists}
+            splitPlaylist={splitPlaylist}
+            moveEntries={moveEntries}
+            copyEntries={copyEntries}
+            dedupePlaylists={dedupePlaylists}
+            sortVideos={sortVideos}
             isLoggedIn={isLoggedIn}
             publicMap={publicMap}
             publishPlaylist={publishPlaylist}
             unpublishPlaylist={unpublishPlaylist}
             getLoopPoints={() => loopPointsRef.current}
+            reveal={libraryReveal}
             t={t}
           />
         </aside>
@@ -1459,7 +2484,23 @@ export default function Home() {
                   >
                     <RefreshCw className="h-3 w-3" />
                     {loopCount}x
+                    {repeatLimit !== '' && parseInt(repeatLimit) > 0 && ` / ${repeatLimit}`}
                   </div>
+                  <label className="flex items-center gap-1 text-xs text-stone-500">
+                    {t.stopAfter}
+                    <input
+                      type="number"
+                      min="1"
+                      value={repeatLimit}
+                      onChange={(e) => {
+                        const num = parseInt(e.target.value)
+                        setRepeatLimit(e.target.value)
+                        repeatLimitRef.current = isNaN(num) || num <= 0 ? null : num
+                      }}
+                      placeholder="∞"
+                      className="w-12 rounded-lg border-2 border-black px-1 py-1 text-center text-xs focus:outline-none"
+                    />
+                  </label>
                 </div>
               </div>
             )}
@@ -1467,11 +2508,18 @@ export default function Home() {
             {/* ── FIXED VIDEO AREA (always same 16:9 size) ── */}
             <div className="overflow-hidden rounded-2xl border-2 border-black bg-white shadow-base">
               <div
-                className="relative w-full [&>iframe]:absolute [&>iframe]:inset-0 [&>iframe]:h-full [&>iframe]:w-full"
+                className="relative w-full [&_iframe]:absolute [&_iframe]:inset-0 [&_iframe]:h-full [&_iframe]:w-full"
                 style={{ paddingBottom: '56.25%' }}
               >
-                {/* YT player container — always in DOM */}
-                <div ref={containerRef} className="absolute inset-0" />
+                {/* YT player containers — always in DOM. The second slot only
+                    gets a player for crossfade/gapless; the slots trade places
+                    on every transition. */}
+                <div className={`absolute inset-0 ${frontSlot === 0 ? '' : 'invisible'}`}>
+                  <div ref={containerRef} className="absolute inset-0" />
+                </div>
+                <div className={`absolute inset-0 ${frontSlot === 1 ? '' : 'invisible'}`}>
+                  <div ref={standbyContainerRef} className="absolute inset-0" />
+                </div>
 
 
                 {/* Empty-state overlay — shown when no video */}
@@ -1589,6 +2637,20 @@ export default function Home() {
                             )}
                           </div>
                         </button>
+                        <button
+                          onClick={() => playNext(video.videoId, video.title)}
+                          className="shrink-0 rounded-lg border-2 border-black p-1.5 transition-all hover:bg-main"
+                          title={t.playNext}
+                        >
+                          <ListStart className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => addToQueue(video.videoId, video.title)}
+                          className="shrink-0 rounded-lg border-2 border-black p-1.5 transition-all hover:bg-main"
+                          title={t.addToQueue}
+                        >
+                          <ListEnd className="h-3.5 w-3.5" />
+                        </button>
                         <button
                           onClick={(e) => {
                             e.stopPropagation()
@@ -1716,6 +2778,20 @@ export default function Home() {
                             )}
                           </div>
                         </button>
+                        <button
+                          onClick={() => playNext(cv.videoId, cv.title)}
+                          className="shrink-0 rounded-lg border-2 border-black p-1.5 transition-all hover:bg-main"
+                          title={t.playNext}
+                        >
+                          <ListStart className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => addToQueue(cv.videoId, cv.title)}
+                          className="shrink-0 rounded-lg border-2 border-black p-1.5 transition-all hover:bg-main"
+                          title={t.addToQueue}
+                        >
+                          <ListEnd className="h-3.5 w-3.5" />
+                        </button>
                         <button
                           onClick={(e) => {
                             e.stopPropagation()
@@ -1824,22 +2900,31 @@ export default function Home() {
                       <Button
                         variant="neutral"
                         size="icon"
-                        onClick={activePlaylistId ? nextPlaylistVideo : skipForward}
-                        title={activePlaylistId ? 'Next song' : 'Forward 10s'}
+                        onClick={activePlaylistId || upNext.length ? nextPlaylistVideo : skipForward}
+                        title={activePlaylistId || upNext.length ? 'Next song' : 'Forward 10s'}
                         className="h-10 w-10 rounded-xl"
                       >
                         <SkipForward className="h-4 w-4" />
                       </Button>
                     </div>
 
-                    {/* Speed */}
+                    {/* Copy link to this loop */}
+                    <button
+                      onClick={copyLoopLink}
+                      className="flex h-9 shrink-0 items-center gap-1.5 rounded-xl border-2 border-black bg-white px-2.5 text-sm font-medium transition-all hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-none shadow-base"
+                      title={loopLinkCopied ? t.loopLinkCopied : t.copyLoopLink}
+                    >
+                      {loopLinkCopied ? <Check className="h-3.5 w-3.5" /> : <Link className="h-3.5 w-3.5" />}
+                    </button>
+
+                    {/* Speed */}
                     <div className="group/speed relative shrink-0">
                       <button
                         onClick={() => {
                           setPlaybackSpeed(1)
                           playerRef.current?.setPlaybackRate(1)
                         }}
-                        className="flex h-9 items-center gap-1.5 rounded-xl border-2 border-black bg-white px-2.5 text-sm font-medium transition-all hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-none shadow-base"
+                        className={`flex h-9 items-center gap-1.5 rounded-xl border-2 border-black px-2.5 text-sm font-medium transition-all hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-none shadow-base ${speedTrainer.enabled ? 'bg-main' : 'bg-white'}`}
                         title={`Speed: ${playbackSpeed}x (click to reset)`}
                       >
                         <svg viewBox="0 0 16 16" className="h-3.5 w-3.5" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
@@ -1847,30 +2932,43 @@ export default function Home() {
                           <line x1="8" y1="12.5" x2="8" y2="6" transform={`rotate(${((playbackSpeed - 0.25) / 1.75) * 180 - 90}, 8, 12.5)`} />
                           <circle cx="8" cy="12.5" r="1.2" fill="currentColor" stroke="none" />
                         </svg>
+                        {speedTrainer.enabled && (
+                          <span className="text-[11px] font-bold tabular-nums">
+                            {playbackSpeed.toFixed(2)}→{speedTrainer.to.toFixed(2)}×
+                          </span>
+                        )}
                       </button>
                       <div className="invisible opacity-0 group-hover/speed:visible group-hover/speed:opacity-100 transition-all duration-150 absolute right-0 top-full z-50 pt-1.5">
-                        <div className="flex items-center gap-2.5 rounded-xl border-2 border-black bg-white px-3 py-2.5 shadow-base">
-                          <ReactSlider
-                            className="relative flex h-5 w-28 items-center"
-                            thumbClassName="h-4 w-4 rounded-full border-2 border-black bg-white cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-main z-10"
-                            min={25}
-                            max={200}
-                            step={5}
-                            value={Math.round(playbackSpeed * 100)}
-                            onChange={(v) => {
-                              const s = (v as number) / 100
-                              setPlaybackSpeed(s)
-                              playerRef.current?.setPlaybackRate(s)
-                            }}
-                            renderTrack={({ key, ...props }, state) => (
-                              <div
-                                key={key}
-                                {...props}
-                                className={`h-2 rounded-full ${state.index === 0 ? 'bg-main border-2 border-black' : 'bg-stone-200 border-2 border-black'}`}
-                              />
-                            )}
+                        <div className="flex flex-col gap-2 rounded-xl border-2 border-black bg-white px-3 py-2.5 shadow-base">
+                          <div className="flex items-center gap-2.5">
+                            <ReactSlider
+                              className="relative flex h-5 w-28 items-center"
+                              thumbClassName="h-4 w-4 rounded-full border-2 border-black bg-white cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-main z-10"
+                              min={25}
+                              max={200}
+                              step={5}
+                              value={Math.round(playbackSpeed * 100)}
+                              onChange={(v) => {
+                                const s = (v as number) / 100
+                                setPlaybackSpeed(s)
+                                playerRef.current?.setPlaybackRate(s)
+                              }}
+                              renderTrack={({ key, ...props }, state) => (
+                                <div
+                                  key={key}
+                                  {...props}
+                                  className={`h-2 rounded-full ${state.index === 0 ? 'bg-main border-2 border-black' : 'bg-stone-200 border-2 border-black'}`}
+                                />
+                              )}
+                            />
+                            <span className="text-xs font-bold tabular-nums w-8 text-right">{playbackSpeed.toFixed(2)}x</span>
+                          </div>
+                          <SpeedTrainerPanel
+                            trainer={speedTrainer}
+                            loopCount={loopCount}
+                            onChange={updateSpeedTrainer}
+                            t={t}
                           />
-                          <span className="text-xs font-bold tabular-nums w-8 text-right">{playbackSpeed.toFixed(2)}x</span>
                         </div>
                       </div>
                     </div>
@@ -1904,106 +3002,260 @@ export default function Home() {
                         </div>
                       </div>
                     </div>
+
+                    {/* Sleep timer */}
+                    <div className="group/sleep relative shrink-0">
+                      <button
+                        onClick={() => setSleepTimer(null)}
+                        className={`flex h-9 items-center gap-1.5 rounded-xl border-2 border-black px-2.5 text-sm font-medium transition-all hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-none shadow-base ${sleepTimer ? 'bg-main' : 'bg-white'}`}
+                        title={sleepTimer ? t.sleepCancel : t.sleepTimer}
+                      >
+                        <Timer className="h-3.5 w-3.5" />
+                        {sleepTimer && (
+                          <span className="text-[11px] font-bold tabular-nums">
+                            {sleepRemaining > 0 ? formatTimestamp(sleepRemaining) : t.sleepLastLoop}
+                          </span>
+                        )}
+                      </button>
+                      <div className="invisible opacity-0 group-hover/sleep:visible group-hover/sleep:opacity-100 transition-all duration-150 absolute right-0 top-full z-50 pt-1.5">
+                        <div className="flex w-48 flex-col gap-2 rounded-xl border-2 border-black bg-white px-3 py-2.5 shadow-base">
+                          <span className="text-xs font-bold">{t.sleepTimer}</span>
+                          <div className="flex flex-wrap gap-1">
+                            {SLEEP_PRESETS.map((min) => (
+                              <button
+                                key={min}
+                                onClick={() => setSleepTimer({ endsAt: Date.now() + min * 60_000, atLoopEnd: sleepAtLoopEnd })}
+                                className="rounded-lg border-2 border-black bg-white px-1.5 py-0.5 text-[11px] font-bold transition-colors hover:bg-main"
+                              >
+                                {min} {t.sleepMinutes}
+                              </button>
+                            ))}
+                          </div>
+                          <label className="flex cursor-pointer items-center gap-2 text-[11px] font-bold text-stone-500">
+                            <input
+                              type="checkbox"
+                              checked={sleepAtLoopEnd}
+                              onChange={(e) => {
+                                setSleepAtLoopEnd(e.target.checked)
+                                setSleepTimer((prev) => (prev ? { ...prev, atLoopEnd: e.target.checked } : prev))
+                              }}
+                              className="accent-black"
+                            />
+                            {t.sleepAtLoopEnd}
+                          </label>
+                          {sleepTimer && (
+                            <button
+                              onClick={() => setSleepTimer(null)}
+                              className="rounded-lg border-2 border-black bg-white px-2 py-0.5 text-[11px] font-bold transition-colors hover:bg-red-100"
+                            >
+                              {t.sleepCancel}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* Crossfade / gapless transitions */}
+                    <div className="group/transition relative shrink-0">
+                      <button
+                        onClick={() => updateTransition({ mode: transition.mode === 'cut' ? 'crossfade' : 'cut' })}
+                        className={`flex h-9 items-center gap-1.5 rounded-xl border-2 border-black px-2.5 text-sm font-medium transition-all hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-none shadow-base ${transition.mode === 'cut' ? 'bg-white' : 'bg-main'}`}
+                        title={t.transition}
+                      >
+                        <Blend className="h-3.5 w-3.5" />
+                      </button>
+                      <div className="invisible opacity-0 group-hover/transition:visible group-hover/transition:opacity-100 transition-all duration-150 absolute right-0 top-full z-50 pt-1.5">
+                        <div className="flex w-52 flex-col gap-2 rounded-xl border-2 border-black bg-white px-3 py-2.5 shadow-base">
+                          <span className="text-xs font-bold">{t.transition}</span>
+                          <div className="flex gap-1">
+                            {(['cut', 'crossfade', 'gapless'] as const).map((mode) => (
+                              <button
+                                key={mode}
+                                onClick={() => updateTransition({ mode })}
+                                className={`flex-1 rounded-lg border-2 border-black px-1.5 py-0.5 text-[11px] font-bold transition-colors ${transition.mode === mode ? 'bg-main' : 'bg-white hover:bg-bg'}`}
+                              >
+                                {mode === 'cut' ? t.transitionCut : mode === 'crossfade' ? t.transitionCrossfade : t.transitionGapless}
+                              </button>
+                            ))}
+                          </div>
+                          {transition.mode === 'crossfade' && (
+                            <label className="flex items-center gap-2 text-[11px] font-bold text-stone-500">
+                              <input
+                                type="range"
+                                min={MIN_CROSSFADE}
+                                max={MAX_CROSSFADE}
+                                value={transition.seconds}
+                                onChange={(e) => updateTransition({ seconds: Number(e.target.value) })}
+                                className="min-w-0 flex-1 accent-black"
+                              />
+                              <span className="w-6 text-right tabular-nums">{transition.seconds}s</span>
+                            </label>
+                          )}
+                          <p className="text-[10px] leading-snug text-stone-400">{t.transitionHint}</p>
+                        </div>
+                      </div>
+                    </div>
                   </div>
 
-                  {/* Bottom row: A–B slider (only when video loaded) */}
+                  {/* Bottom row: A–B timeline (only when video loaded) */}
                   {duration > 0 && (
                     <div className="flex items-center border-t-2 border-black px-4 pb-4 pt-2">
                       <div className="flex w-full flex-col gap-2">
-                        <div className="mb-2 mb-3.5 flex justify-between text-[9px] font-bold text-stone-400">
-                          <span>
-                            Start{' '}
-                            {formatTime(
-                              sliderDisplay
-                                ? sliderDisplay[0]
-                                : startTime
-                                  ? parseInt(startTime)
-                                  : 0,
-                            )}
-                          </span>
-                          <span>
-                            End{' '}
-                            {formatTime(
-                              sliderDisplay
-                                ? sliderDisplay[1]
-                                : endTime
-                                  ? parseInt(endTime)
-                                  : Math.floor(duration),
-                            )}
-                          </span>
-                        </div>
-                        <ReactSlider
-                          className="relative flex h-5 w-full items-center"
-                          thumbClassName="h-5 w-5 rounded-full border-2 border-black bg-white cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-main z-10"
-                          trackClassName="h-3 rounded-full"
-                          value={
-                            sliderDisplay ?? [
-                              startTime ? parseInt(startTime) : 0,
-                              endTime
-                                ? parseInt(endTime)
-                                : Math.floor(duration),
-                            ]
-                          }
-                          min={0}
-                          max={Math.floor(duration)}
-                          step={1}
-                          minDistance={1}
-                          pearling
-                          renderTrack={({ key, ...props }, state) => (
-                            <div
-                              key={key}
-                              {...props}
-                              className={`h-3 rounded-full border-2 border-black ${state.index === 1 ? 'bg-main' : 'bg-stone-100'}`}
+                        <div className="flex justify-between text-[9px] font-bold text-stone-400">
+                          <label className="flex items-center gap-1">
+                            Start
+                            <TimeInput
+                              value={sliderDisplay ? sliderDisplay[0] : loopStartSec}
+                              onCommit={(v) => commitLoopBounds(Math.min(v, loopEndSec - MIN_LOOP_LENGTH), loopEndSec)}
+                            />
+                          </label>
+                          <label className="flex items-center gap-1">
+                            End
+                            <TimeInput
+                              value={sliderDisplay ? sliderDisplay[1] : loopEndSec}
+                              onCommit={(v) => commitLoopBounds(loopStartSec, Math.max(v, loopStartSec + MIN_LOOP_LENGTH))}
                             />
+                          </label>
+                        </div>
+                        <LoopTimeline
+                          duration={duration}
+                          start={loopStartSec}
+                          end={loopEndSec}
+                          currentTime={currentTime}
+                          regions={regions}
+                          activeRegionId={activeRegionId}
+                          step={SLIDER_STEP}
+                          minLength={MIN_LOOP_LENGTH}
+                          onDrag={setSliderDisplay}
+                          onCommit={commitLoopBounds}
+                          onSeek={(sec) => playerRef.current?.seekTo(sec, true)}
+                          onSelectRegion={selectRegion}
+                        />
+                        <div className="flex flex-wrap items-center gap-1.5">
+                          <span className="text-[9px] font-bold uppercase tracking-wider text-stone-400">
+                            {t.regions}
+                          </span>
+                          {regions.map((r) =>
+                            editingRegionId === r.id ? (
+                              <input
+                                key={r.id}
+                                autoFocus
+                                type="text"
+                                value={editingRegionName}
+                                onChange={(e) => setEditingRegionName(e.target.value)}
+                                onBlur={() => commitRegionName(r.id)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') commitRegionName(r.id)
+                                  if (e.key === 'Escape') setEditingRegionId(null)
+                                }}
+                                className="w-24 rounded-lg border-2 border-black px-1.5 py-0.5 text-[11px] focus:outline-none"
+                              />
+                            ) : (
+                              <div
+                                key={r.id}
+                                className={`group flex items-center gap-1 rounded-lg border-2 border-black px-2 py-0.5 text-[11px] font-bold transition-all ${r.id === activeRegionId ? 'shadow-base' : 'opacity-60 hover:opacity-100'}`}
+                                style={{ backgroundColor: r.color }}
+                              >
+                                <button
+                                  onClick={() => selectRegion(r.id)}
+                                  onDoubleClick={() => {
+                                    setEditingRegionId(r.id)
+                                    setEditingRegionName(r.name)
+                                  }}
+                                  className="max-w-[120px] truncate"
+                                >
+                                  {r.name}
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setEditingRegionId(r.id)
+                                    setEditingRegionName(r.name)
+                                  }}
+                                  className="hidden text-stone-600 hover:text-black group-hover:block"
+                                  title={t.renameSong}
+                                >
+                                  <Pencil className="h-2.5 w-2.5" />
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    const entry = loopPointsRef.current[videoId]
+                                    if (sessionLoopRef.current?.activeRegionId === r.id) sessionLoopRef.current = null
+                                    if (entry) commitLoopEntry(videoId, removeRegion(entry, r.id))
+                                  }}
+                                  className="hidden text-stone-600 hover:text-red-500 group-hover:block"
+                                  title={t.deleteRegion}
+                                >
+                                  <X className="h-2.5 w-2.5" />
+                                </button>
+                              </div>
+                            ),
                           )}
-                          renderThumb={({ key, ...props }, state) => (
-                            <div key={key} {...props}>
-                              <span className="absolute -top-5 left-1/2 -translate-x-1/2 whitespace-nowrap text-[9px] font-bold text-stone-500">
-                                {formatTime(
-                                  sliderDisplay
-                                    ? sliderDisplay[state.index]
-                                    : state.index === 0
-                                      ? startTime
-                                        ? parseInt(startTime)
-                                        : 0
-                                      : endTime
-                                        ? parseInt(endTime)
-                                        : Math.floor(duration),
-                                )}
-                              </span>
-                            </div>
+                          <button
+                            onClick={() => {
+                              const entry = addRegion(loopFor(videoId), t.regionDefaultName)
+                              sessionLoopRef.current = null
+                              commitLoopEntry(videoId, entry)
+                            }}
+                            className="flex items-center gap-1 rounded-lg border-2 border-dashed border-stone-300 px-2 py-0.5 text-[11px] text-stone-400 transition-colors hover:border-black hover:text-black"
+                          >
+                            <Plus className="h-2.5 w-2.5" />
+                            {regions.length > 0 ? t.addRegion : t.saveAsRegion}
+                          </button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                          <span className="text-[9px] font-bold uppercase tracking-wider text-stone-400">
+                            {t.pacing}
+                          </span>
+                          {([
+                            ['preRoll', `${t.preRoll} (s)`, 0, 30, 0.5],
+                            ['gap', `${t.gap} (s)`, 0, 30, 0.5],
+                            ['countIn', t.countIn, 0, 16, 1],
+                            ['bpm', 'BPM', 30, 240, 1],
+                          ] as const).map(([key, label, min, max, step]) =>
+                            key === 'bpm' && !pacing.countIn ? null : (
+                              <label key={key} className="flex items-center gap-1 text-[9px] font-bold text-stone-400">
+                                {label}
+                                <input
+                                  type="number"
+                                  min={min}
+                                  max={max}
+                                  step={step}
+                                  value={pacing[key] ?? (key === 'bpm' ? DEFAULT_COUNT_IN_BPM : 0)}
+                                  onChange={(e) => {
+                                    const v = parseFloat(e.target.value)
+                                    if (isNaN(v)) return
+                                    commitLoopEntry(
+                                      videoId,
+                                      setLoopPacing(loopPointsRef.current[videoId], { [key]: Math.min(Math.max(v, min), max) }),
+                                    )
+                                  }}
+                                  className="w-12 rounded-md border border-stone-200 bg-white px-1 py-0.5 text-right font-mono text-[10px] text-stone-600 focus:border-black focus:outline-none"
+                                />
+                              </label>
+                            ),
                           )}
-                          onChange={(values) => {
-                            setSliderDisplay(values as [number, number])
-                          }}
-                          onAfterChange={(values) => {
-                            const [start, end] = values as [number, number]
-                            setSliderDisplay(null)
-                            const newStart = start === 0 ? '' : start.toString()
-                            const newEnd = end === Math.floor(duration) ? '' : end.toString()
-                            setStartTime(newStart)
-                            setEndTime(newEnd)
-                            if (videoId) {
-                              loopPointsRef.current = { ...loopPointsRef.current, [videoId]: { start: newStart, end: newEnd } }
-                              localStorage.setItem('yol-loop-points', JSON.stringify(loopPointsRef.current))
-                              syncLoopPointsToServer()
-                            }
-                            if (
-                              playerRef.current &&
-                              typeof playerRef.current.seekTo === 'function'
-                            ) {
-                              playerRef.current.seekTo(start, true)
-                            }
-                          }}
-                        />
+                        </div>
                       </div>
                     </div>
                   )}
                 </div>
 
+                {/* Up next (ad-hoc queue, plays before the playlist carries on) */}
+                {upNext.length > 0 && (
+                  <UpNextPanel
+                    items={upNext}
+                    onPlay={playFromQueue}
+                    onRemove={removeFromQueue}
+                    onReorder={reorderQueue}
+                    onClear={clearQueue}
+                    onSave={saveQueueAsPlaylist}
+                    t={t}
+                  />
+                )}
+
                 {/* Playlist queue (shown when playing from a playlist) */}
                 {activePlaylistId && (() => {
-                  const queuePlaylist = playlists.find((p) => p.id === activePlaylistId)
+                  const queuePlaylist = queuePlaylists.find((p) => p.id === activePlaylistId)
                   if (!queuePlaylist || queuePlaylist.videos.length === 0) return null
                   return (
                     <div className="overflow-hidden rounded-2xl border-4 border-black bg-white shadow-base">
@@ -2018,7 +3270,7 @@ export default function Home() {
                       </div>
                       <ul ref={queueListRef} className="max-h-72 overflow-y-auto">
                         {queuePlaylist.videos.map((v, i) => {
-                          const isCurrent = i === activePlaylistIndex
+                          const isCurrent = i === activePlaylistIndex && !playingQueued
                           return (
                             <li key={`${v.videoId}-${i}`}>
                               <button
@@ -2069,8 +3321,10 @@ export default function Home() {
                         if (value === '__new__') {
                           const name = prompt(t.newPlaylistTitle + ':')
                           if (name?.trim()) {
-                            const id = createPlaylist(name.trim())
-                            addToPlaylist(id, videoId, currentTitle)
+                            undoGroup('undoCreatePlaylist', () => {
+                              const id = createPlaylist(name.trim())
+                              addToPlaylist(id, videoId, currentTitle)
+                            })
                           }
                         } else {
                           addToPlaylist(value, videoId, currentTitle)
@@ -2095,6 +3349,22 @@ export default function Home() {
                   </div>
                 </div>
 
+                {/* Transcript */}
+                {videoId && (
+                  <TranscriptPanel
+                    lines={transcriptLines}
+                    source={transcript}
+                    currentTime={currentTime}
+                    onLoad={loadVideoTranscript}
+                    onSelect={commitLoopBounds}
+                    shadowStep={shadowStep}
+                    shadowing={shadowing}
+                    onShadow={(index) => playShadowStep(index === null ? null : { index, pass: 1 })}
+                    onShadowingChange={updateShadowing}
+                    t={t}
+                  />
+                )}
+
                 {/* Notes */}
                 {videoId && (
                   <div className="overflow-hidden rounded-2xl border-4 border-black bg-white shadow-base">
@@ -2116,10 +3386,17 @@ export default function Home() {
                       </div>
                     </div>
                     <NoteEditor
+                      key={noteRevision}
                       videoId={videoId}
                       initialMarkdown={notes[videoId] ?? ''}
-                      onChange={(md) => saveNote(videoId, md)}
+                      onChange={(md) => {
+                        editorNoteRef.current = md
+                        saveNote(videoId, md)
+                      }}
                       onSaveStatus={setNoteSaveStatus}
+                      getCurrentTime={getPlayerTime}
+                      onSeek={(sec) => playerRef.current?.seekTo(sec, true)}
+                      onLoopAround={loopAroundTimestamp}
                     />
                   </div>
                 )}
@@ -2292,12 +3569,12 @@ export default function Home() {
                 return (
                   <button
                     key={p.id}
-                    disabled={already}
+                    title={already ? t.addAgain : undefined}
                     onClick={() => {
                       addToPlaylist(p.id, addToPlaylistTarget.videoId, addToPlaylistTarget.title)
                       setAddToPlaylistTarget(null)
                     }}
-                    className="flex w-full items-center gap-3 rounded-xl border-2 border-black px-3 py-2 text-sm font-bold transition-all hover:bg-bg disabled:opacity-40"
+                    className="flex w-full items-center gap-3 rounded-xl border-2 border-black px-3 py-2 text-sm font-bold transition-all hover:bg-bg"
                   >
                     <span>{p.emoji || '🎵'}</span>
                     <span className="flex-1 truncate text-left">{p.name}</span>
@@ -2455,6 +3732,15 @@ export default function Home() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={statsOpen} onOpenChange={setStatsOpen}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto rounded-2xl border-2 border-black bg-white shadow-none sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold">{t.statsTitle}</DialogTitle>
+          </DialogHeader>
+          <StatsDashboard sessions={sessions} playlists={playlists} t={t} />
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={helpOpen} onOpenChange={setHelpOpen}>
         <DialogContent className="rounded-2xl border-2 border-black bg-white shadow-none sm:max-w-2xl">
           <DialogHeader>
@@ -2523,12 +3809,44 @@ export default function Home() {
                 />
                 <Row
                   label="Start / End"
-                  value="Set the A–B loop points in seconds. Leave End blank to loop the full video."
+                  value="Drag the A–B handles on the timeline (or the whole loop) or type exact times as m:ss.mmm (millisecond precision). Click the timeline to seek. Leave End at the video length to loop the full video."
+                />
+                <Row
+                  label="Zoom"
+                  value="Scroll or pinch over the timeline to zoom, shift+scroll to pan. The minimap below shows where you are; drag it to move around. The buttons zoom to the current loop or back out to the whole video."
+                />
+                <Row
+                  label="Regions"
+                  value="Save several named sections per video (intro, solo, outro…). Click a region to loop it; double-click to rename."
                 />
                 <Row
                   label="Speed"
                   value="Adjust playback speed from 0.25× to 2× in 0.05× steps."
                 />
+                <Row
+                  label="Between repeats"
+                  value="Per video: a pre-roll starts each repeat a few seconds before A, a gap pauses at B, and a count-in plays metronome clicks at the chosen BPM before playback resumes. Shared playlists keep these settings."
+                />
+                <Row
+                  label="Speed trainer"
+                  value="In the speed popover: set a start and target speed, a step and how many loops to play before each step. Resetting the repeat counter starts the ramp over."
+                />
+                <Row
+                  label="Stop after"
+                  value="Next to the repeat counter: pause back at A once the counter reaches this number. Leave empty to loop forever."
+                />
+                <Row
+                  label="Sleep timer"
+                  value="The timer button stops playback after 15–90 minutes, fading the volume out over the last 30 seconds. Tick “finish the current loop” to let the loop reach B first. Click the button to cancel."
+                />
+                <Row
+                  label="Share a loop"
+                  value="The link button copies a URL with the video, A/B points, speed, volume and active region name (?v=…&a=…&b=…&speed=…&region=…). YouTube links with t= start the loop at that time."
+                />
+                <Row label="Timestamps" value="In the notes, Alt+T (or the clock button) inserts the current time. Click it to jump there, or the loop icon to loop around it." />
+                <Row label="Transcript" value="Load or paste an SRT, VTT or LRC file under the player. Click a line to loop it, shift-click to loop several lines." />
+                <Row label="Shadowing" value="With a transcript loaded, press Shadow: each line plays, pauses (a multiple of its length) for you to repeat it, replays the set number of times, then moves on." />
+                <Row label="Transitions" value="The blend button next to the sleep timer picks how one playlist item (or loop repeat) hands over to the next: a plain cut, a crossfade of adjustable length, or gapless. The next video preloads in the background." />
                 <Row label="Skip" value="← → buttons jump ±10 seconds." />
               </Section>
             </TabsContent>
@@ -2539,10 +3857,38 @@ export default function Home() {
                   label="Add to playlist"
                   value='While a video is playing, use the "Add to playlist" dropdown below the controls.'
                 />
+                <Row
+                  label="Smart playlists"
+                  value="Listed under your playlists and filled automatically: most looped this month, videos with loop points or notes, added this week, and history not in any playlist. They play like any other playlist."
+                />
                 <Row
                   label="Open a playlist"
                   value="Click any playlist in the sidebar to see its songs. Click a song to play it."
                 />
+                <Row
+                  label="Up next"
+                  value="Play next / Add to queue on search results, channel videos and history build a temporary queue under the player. Queued videos play as soon as the current one finishes its loop, before the playlist carries on. Drag to reorder, or save the queue as a playlist."
+                />
+                <Row
+                  label="Entry settings"
+                  value="The sliders icon on a song sets its own speed, volume, region and how many times it plays before the playlist moves on. A video can be added more than once with different settings."
+                />
+                <Row
+                  label="Curate"
+                  value="Tick playlists in the sidebar to merge them into the first one ticked or remove duplicates across them. Inside a playlist, tick songs to move, copy or split them off; the header duplicates the playlist or sorts it by title, date added or loop count. Each change can be undone from the toast that follows."
+                />
+                <Row
+                  label="Undo"
+                  value="Every playlist and folder change (delete, reorder, rename, emoji, moving between folders) can be taken back with Ctrl+Z, or the toast that appears, and made again with Ctrl+Shift+Z. Undone changes sync like any other edit."
+                />
+                <Row
+                  label="Trash"
+                  value="Deleted playlists, folders and songs wait in the Trash section under your playlists for 30 days. Restore puts them back where they were, including a playlist's folder; Delete forever removes them right away."
+                />
+                <Row
+                  label="Folders"
+                  value="The folder button next to Import makes a folder; hover a folder to make one inside it. Drag playlists and folders into, out of and between folders at any depth. An open playlist shows the folders it sits in above its name; click one to jump back to it."
+                />
               </Section>
             </TabsContent>
 
@@ -2550,7 +3896,11 @@ export default function Home() {
               <Section title="History">
                 <Row
                   label="Auto-tracked"
-                  value="Every video you loop is saved to History with a loop count."
+                  value="Every video you loop is saved to History with a loop count — no limit on how many."
+                />
+                <Row
+                  label="Find"
+                  value="Search by title or pick a date range; tick items to remove them or add them to a playlist in one go."
                 />
                 <Row
                   label="Revisit"
@@ -2571,54 +3921,55 @@ export default function Home() {
                 />
                 <Row
                   label="Import"
-                  value="Restore a backup from a previously exported file. This overwrites current data."
+                  value="Restore a backup from a previously exported file. This overwrites current data, notes included."
+                />
+              </Section>
+              <Section title="Practice stats">
+                <Row
+                  label="Sessions"
+                  value="Each stretch of playing a video or region is logged with its speed, time and loops. Open Practice stats in the menu for totals, your streak and speed progress."
                 />
+                <Row label="CSV" value="The stats dialog exports the session log as a spreadsheet; JSON backups include it too." />
               </Section>
             </TabsContent>
 
             <TabsContent value="shortcuts" className="flex-1 overflow-y-auto">
               <Section title="Keyboard Shortcuts">
                 <div className="divide-y divide-stone-100">
-                  {[
-                    { keys: ['Space'], description: 'Play / Pause' },
-                    { keys: ['←'], description: 'Skip back 10s' },
-                    { keys: ['→'], description: 'Skip forward 10s' },
-                    { keys: ['Shift', '←'], description: 'Skip back 30s' },
-                    { keys: ['Shift', '→'], description: 'Skip forward 30s' },
-                    { keys: ['+'], description: 'Speed up +0.05×' },
-                    { keys: ['-'], description: 'Speed down −0.05×' },
-                    { keys: ['0'], description: 'Reset speed to 1×' },
-                    { keys: ['F'], description: 'Focus search / URL bar' },
-                    {
-                      keys: ['Shift', '/'],
-                      description: 'Open / close this help dialog',
-                    },
-                  ].map(({ keys, description }) => (
+                  {SHORTCUTS.filter(({ action }) => shortcuts[action].length > 0).map(({ action, label }) => (
                     <div
-                      key={description}
+                      key={action}
                       className="flex items-center justify-between px-3 py-3"
                     >
                       <span className="text-sm text-stone-600">
-                        {description}
+                        {t[label]}
                       </span>
-                      <div className="flex items-center gap-1">
-                        {keys.map((k, i) => (
-                          <span key={i} className="flex items-center gap-1">
-                            <Kbd>{k}</Kbd>
-                            {i < keys.length - 1 && (
-                              <span className="text-[10px] text-stone-400">
-                                +
-                              </span>
-                            )}
+                      <div className="flex items-center gap-2">
+                        {shortcuts[action].map((combo, i) => (
+                          <span key={combo} className="flex items-center gap-2">
+                            {i > 0 && <span className="text-[10px] text-stone-400">/</span>}
+                            <ComboKeys combo={combo} />
                           </span>
                         ))}
                       </div>
                     </div>
                   ))}
                 </div>
-                <p className="mt-3 text-[11px] text-stone-400">
-                  Shortcuts are disabled while typing in text fields.
-                </p>
+                <div className="mt-3 flex items-center justify-between gap-3">
+                  <p className="text-[11px] text-stone-400">
+                    Shortcuts are disabled while typing in text fields, except the command palette.
+                  </p>
+                  <button
+                    onClick={() => {
+                      setHelpOpen(false)
+                      setShortcutsOpen(true)
+                    }}
+                    className="flex shrink-0 items-center gap-1.5 rounded-xl border-2 border-black px-2.5 py-1 text-xs font-bold transition-colors hover:bg-main"
+                  >
+                    <Keyboard className="h-3.5 w-3.5" />
+                    {t.shortcutsCustomize}
+                  </button>
+                </div>
               </Section>
             </TabsContent>
           </Tabs>
@@ -2661,9 +4012,112 @@ function Row({ label, value }: { label: string; value: React.ReactNode }) {
   )
 }
 
+// ── A/B time field — accepts m:ss.mmm or plain seconds ───────────────────────
+function TimeInput({
+  value,
+  onCommit,
+}: {
+  value: number
+  onCommit: (seconds: number) => void
+}) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft === null) return
+    const parsed = parseTimestamp(draft)
+    setDraft(null)
+    if (parsed !== null) onCommit(parsed)
+  }
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={draft ?? formatTimestamp(value)}
+      onFocus={(e) => {
+        setDraft(formatTimestamp(value))
+        e.target.select()
+      }}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur()
+        if (e.key === 'Escape') setDraft(null)
+      }}
+      placeholder="m:ss.mmm"
+      className="w-[72px] rounded-md border border-stone-200 bg-white px-1 py-0.5 text-center font-mono text-[10px] text-stone-600 focus:border-black focus:outline-none"
+    />
+  )
+}
+
+// ── Speed trainer settings + progress (inside the speed popover) ────────────
+function SpeedTrainerPanel({
+  trainer,
+  loopCount,
+  onChange,
+  t,
+}: {
+  trainer: SpeedTrainer
+  loopCount: number
+  onChange: (patch: Partial<SpeedTrainer>) => void
+  t: import('@/lib/translations').Translations
+}) {
+  const remaining = loopsUntilNextStep(trainer, loopCount)
+  const span = Math.abs(trainer.to - trainer.from)
+  const progress = span > 0 ? Math.abs(trainerSpeed(trainer, loopCount) - trainer.from) / span : 1
+  const field = (key: 'from' | 'to' | 'step' | 'every', label: string, min: number, max: number, step: number) => (
+    <label className="flex items-center justify-between gap-2 text-[11px] font-bold text-stone-500">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={trainer[key]}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value)
+          if (!isNaN(v)) onChange({ [key]: Math.min(Math.max(v, min), max) })
+        }}
+        className="w-14 rounded-md border border-stone-200 px-1 py-0.5 text-right font-mono text-[11px] text-black focus:border-black focus:outline-none"
+      />
+    </label>
+  )
+
+  return (
+    <div className="flex flex-col gap-1.5 border-t-2 border-black pt-2">
+      <label className="flex cursor-pointer items-center gap-2 text-xs font-bold">
+        <input
+          type="checkbox"
+          checked={trainer.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="accent-black"
+        />
+        {t.speedTrainer}
+      </label>
+      {trainer.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+            {field('from', `${t.trainerFrom} ×`, 0.25, 2, 0.05)}
+            {field('to', `${t.trainerTo} ×`, 0.25, 2, 0.05)}
+            {field('step', `${t.trainerStep} ×`, 0.05, 1, 0.05)}
+            {field('every', `${t.trainerEvery} (${t.trainerLoops})`, 1, 100, 1)}
+          </div>
+          <div className="h-2 w-full overflow-hidden rounded-full border-2 border-black bg-stone-100">
+            <div className="h-full bg-main transition-all" style={{ width: `${Math.min(progress, 1) * 100}%` }} />
+          </div>
+          <p className="text-[10px] font-bold text-stone-500">
+            {remaining === null ? t.trainerDone : `${t.trainerNextIn} ${remaining} ${t.trainerLoops}`}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
 // ── Shared sidebar content component ─────────────────────────────────────────
 function LibrarySidebar({
   playlists,
+  smartPlaylists,
   history,
   folders,
   createPlaylist,
@@ -2671,7 +4125,13 @@ function LibrarySidebar({
   removeFromPlaylist,
   createFolder,
   deleteFolder,
+  trash,
+  canRestore,
+  restoreFromTrash,
+  purgeFromTrash,
+  emptyTrash,
   moveToFolder,
+  moveFolder,
   reorderPlaylists,
   reorderFolderPlaylists,
   reorderFolders,
@@ -2680,30 +4140,49 @@ function LibrarySidebar({
   clear,
   addToPlaylist,
   onPlay,
+  onPlayNext,
+  onAddToQueue,
   onPlayFromPlaylist,
   onRemove,
+  onRemoveMany,
   reorderVideos,
   renameVideo,
+  setEntrySettings,
+  duplicatePlaylist,
+  mergePlaylists,
+  splitPlaylist,
+  moveEntries,
+  copyEntries,
+  dedupePlaylists,
+  sortVideos,
   isLoggedIn,
   publicMap,
   publishPlaylist,
   unpublishPlaylist,
   getLoopPoints,
+  reveal,
   t,
 }: {
   playlists: ReturnType<
     typeof import('@/lib/use-playlists').usePlaylists
   >['playlists']
+  smartPlaylists: import('@/lib/use-playlists').Playlist[]
   history: ReturnType<
     typeof import('@/lib/use-loop-history').useLoopHistory
   >['history']
   folders: ReturnType<typeof import('@/lib/use-folders').useFolders>['folders']
   createPlaylist: (name: string) => string
   deletePlaylist: (id: string) => void
-  removeFromPlaylist: (playlistId: string, videoId: string) => void
-  createFolder: (name: string) => string
+  removeFromPlaylist: (playlistId: string, entryKey: string) => void
+  createFolder: (name: string, parentId?: string | null) => string
   deleteFolder: (id: string) => void
-  moveToFolder: (playlistId: string, folderId: string | null) => void
+  trash: TrashItem[]
+  canRestore: (item: TrashItem) => boolean
+  restoreFromTrash: (id: string) => void
+  purgeFromTrash: (id: string) => void
+  emptyTrash: () => void
+  moveToFolder: (playlistId: string, folderId: string | null, index?: number) => void
+  moveFolder: (id: string, parentId: string | null, orderedSiblingIds?: string[]) => void
   reorderPlaylists: (ids: string[]) => void
   reorderFolderPlaylists: (folderId: string, ids: string[]) => void
   reorderFolders: (ids: string[]) => void
@@ -2712,27 +4191,42 @@ function LibrarySidebar({
   clear: () => void
   addToPlaylist: (playlistId: string, videoId: string, title?: string) => void
   onPlay: (videoId: string, title?: string) => void
+  onPlayNext: (videoId: string, title?: string) => void
+  onAddToQueue: (videoId: string, title?: string) => void
   onPlayFromPlaylist: (playlistId: string, index: number, videoId: string, title?: string) => void
   onRemove: (videoId: string) => void
-  reorderVideos: (playlistId: string, orderedVideoIds: string[]) => void
-  renameVideo: (playlistId: string, videoId: string, newTitle: string) => void
+  onRemoveMany: (videoIds: string[]) => void
+  reorderVideos: (playlistId: string, orderedKeys: string[]) => void
+  renameVideo: (playlistId: string, entryKey: string, newTitle: string) => void
+  setEntrySettings: (playlistId: string, entryKey: string, patch: import('@/lib/use-playlists').EntrySettings) => void
+  duplicatePlaylist: (id: string, name: string) => string
+  mergePlaylists: (ids: string[]) => void
+  splitPlaylist: (id: string, entryKeys: string[], name: string) => string
+  moveEntries: (fromId: string, entryKeys: string[], toId: string) => void
+  copyEntries: (fromId: string, entryKeys: string[], toId: string) => void
+  dedupePlaylists: (ids: string[]) => void
+  sortVideos: (id: string, by: import('@/lib/playlist-tools').PlaylistSort, loopCounts?: Record<string, number>) => void
   isLoggedIn: boolean
   publicMap: import('@/lib/use-public-playlists').PublicMap
   publishPlaylist: (
     playlist: import('@/lib/use-playlists').Playlist,
-    loopPoints: Record<string, { start: string; end: string }>,
+    loopPoints: LoopPointsMap,
   ) => Promise<string | null>
   unpublishPlaylist: (playlistId: string) => Promise<boolean>
-  getLoopPoints: () => Record<string, { start: string; end: string }>
+  getLoopPoints: () => LoopPointsMap
+  // A playlist or folder to bring into view, picked in the command palette
+  reveal: LibraryReveal | null
   t: import('@/lib/translations').Translations
 }) {
   // local UI state
+  const [tab, setTab] = useState('playlists')
   const [activePlaylistId, setActivePlaylistId] = useState<string | null>(null)
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
   const [shareOpenId, setShareOpenId] = useState<string | null>(null)
   const [shareBusy, setShareBusy] = useState(false)
   const [copied, setCopied] = useState(false)
   const [editingVideoId, setEditingVideoId] = useState<string | null>(null)
+  const [settingsEntryKey, setSettingsEntryKey] = useState<string | null>(null)
   const [editingTitle, setEditingTitle] = useState('')
   const [emojiPickerPlaylistId, setEmojiPickerPlaylistId] = useState<
     string | null
@@ -2744,6 +4238,8 @@ function LibrarySidebar({
   const [showNewPlaylist, setShowNewPlaylist] = useState(false)
   const [newFolderName, setNewFolderName] = useState('')
   const [showNewFolder, setShowNewFolder] = useState(false)
+  // Where the new folder goes; null for the top level
+  const [newFolderParentId, setNewFolderParentId] = useState<string | null>(null)
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set())
   const [preDragFolderState, setPreDragFolderState] =
     useState<Set<string> | null>(null)
@@ -2752,6 +4248,22 @@ function LibrarySidebar({
   const [importUrl, setImportUrl] = useState('')
   const [importLoading, setImportLoading] = useState(false)
   const [importError, setImportError] = useState<string | null>(null)
+  // Bulk selections: playlists in click order (a merge goes into the first),
+  // entries of the open playlist by entry key
+  const [selectedPlaylistIds, setSelectedPlaylistIds] = useState<string[]>([])
+  const [selectedEntryKeys, setSelectedEntryKeys] = useState<Set<string>>(new Set())
+
+  useEffect(() => { setSelectedEntryKeys(new Set()) }, [activePlaylistId])
+
+  const togglePlaylistSelected = (id: string) =>
+    setSelectedPlaylistIds((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]))
+
+  const toggleEntrySelected = (key: string) =>
+    setSelectedEntryKeys((prev) => {
+      const next = new Set(prev)
+      next.has(key) ? next.delete(key) : next.add(key)
+      return next
+    })
 
   useEffect(() => {
     const stored = localStorage.getItem('yol-top-order')
@@ -2762,6 +4274,12 @@ function LibrarySidebar({
     localStorage.setItem('yol-top-order', JSON.stringify(order))
     setTopLevelOrderRaw(order)
   }
+  // The sidebar order is local-only, but undoing a drag should put it back too
+  const changeTopLevelOrder = (order: string[]) => {
+    const before = topLevelOrder
+    saveTopLevelOrder(order)
+    pushUndo({ label: 'undoReorder', undo: () => saveTopLevelOrder(before), redo: () => saveTopLevelOrder(order) })
+  }
   const [dialogStep, setDialogStep] = useState<'choose' | 'export' | 'import'>(
     'choose',
   )
@@ -2773,13 +4291,45 @@ function LibrarySidebar({
       return next
     })
 
+  // Opens a folder along with every folder above it
+  const openFolder = (id: string) =>
+    setExpandedFolders((prev) => {
+      const next = new Set(prev)
+      folderPath(folders, id).forEach((f) => next.add(f.id))
+      return next
+    })
+
+  const startNewFolder = (parentId: string | null) => {
+    setNewFolderParentId(parentId)
+    setNewFolderName('')
+    setShowNewFolder(true)
+  }
+
+  // Each reveal request moves the sidebar once, not again on later edits
+  const handledReveal = useRef<LibraryReveal | null>(null)
+  useEffect(() => {
+    if (!reveal || handledReveal.current === reveal) return
+    handledReveal.current = reveal
+    setTab('playlists')
+    if (reveal.kind === 'playlist') {
+      setActivePlaylistId(reveal.id)
+      return
+    }
+    setActivePlaylistId(null)
+    setExpandedFolders((prev) => {
+      const next = new Set(prev)
+      folderPath(folders, reveal.id).forEach((f) => next.add(f.id))
+      return next
+    })
+  }, [reveal, folders])
+
   // derive uncategorized playlists (not in any folder)
   const categorizedIds = new Set(folders.flatMap((f) => f.playlistIds))
   const uncategorized = playlists.filter((p) => !categorizedIds.has(p.id))
 
   // unified top-level order: merge stored order with current items
   const uncatPrefixed = uncategorized.map((p) => `p-${p.id}`)
-  const folderPrefixed = folders.map((f) => `f-${f.id}`)
+  const folderPrefixed = childFolders(folders, null).map((f) => `f-${f.id}`)
   const allTopLevelIds = new Set([...uncatPrefixed, ...folderPrefixed])
   const orderedExisting = topLevelOrder.filter((id) => allTopLevelIds.has(id))
   const newItems = [...uncatPrefixed, ...folderPrefixed].filter(
@@ -2787,15 +4337,47 @@ function LibrarySidebar({
   )
   const effectiveOrder = [...orderedExisting, ...newItems]
 
+  const folderBranchProps = {
+    folders,
+    playlists,
+    expandedFolders,
+    onToggle: toggleFolder,
+    onEmojiClick: setEmojiPickerFolderId,
+    onNewSubfolder: startNewFolder,
+    onDelete: deleteFolder,
+    renderPlaylist: (
+      playlist: import('@/lib/use-playlists').Playlist,
+      dragHandle: React.HTMLAttributes<HTMLElement> | null | undefined,
+    ) => (
+      <PlaylistRow
+        playlist={playlist}
+        dragHandle={dragHandle}
+        onOpen={() => setActivePlaylistId(playlist.id)}
+        onEmojiClick={() => setEmojiPickerPlaylistId(playlist.id)}
+        selected={selectedPlaylistIds.includes(playlist.id)}
+        selecting={selectedPlaylistIds.length > 0}
+        onToggleSelect={() => togglePlaylistSelected(playlist.id)}
+      />
+    ),
+    t,
+  }
+
   // if drilled into a playlist
   const activePlaylist = activePlaylistId
     ? playlists.find((p) => p.id === activePlaylistId)
     : null
+  const activeSmart = smartPlaylists.find((p) => p.id === activePlaylistId)
+  // Folders above the open playlist, for the breadcrumbs
+  const activeFolder = activePlaylist
+    ? folders.find((f) => f.playlistIds.includes(activePlaylist.id))
+    : undefined
+  const activeFolderPath = activeFolder ? folderPath(folders, activeFolder.id) : []
 
   return (
     <div className="flex flex-1 flex-col overflow-hidden">
       <Tabs
-        defaultValue="playlists"
+        value={tab}
+        onValueChange={setTab}
         className="flex flex-1 flex-col overflow-hidden"
       >
         <TabsList className="grid w-full grid-cols-2 rounded-none border-b-2 border-black bg-transparent p-0 h-auto">
@@ -2822,6 +4404,24 @@ function LibrarySidebar({
           {/* DRILL-DOWN: playlist songs view */}
           {activePlaylist ? (
             <div className="flex flex-col">
+              {activeFolderPath.length > 0 && (
+                <nav className="flex flex-wrap items-center gap-0.5 px-3 pt-2 text-[10px] text-stone-400">
+                  {activeFolderPath.map((f, i) => (
+                    <span key={f.id} className="flex items-center gap-0.5">
+                      {i > 0 && <ChevronRight className="h-2.5 w-2.5" />}
+                      <button
+                        onClick={() => {
+                          openFolder(f.id)
+                          setActivePlaylistId(null)
+                        }}
+                        className="max-w-[8rem] truncate rounded px-0.5 transition-colors hover:text-black"
+                      >
+                        {f.emoji ?? '📁'} {f.name}
+                      </button>
+                    </span>
+                  ))}
+                </nav>
+              )}
               <div className="flex items-center gap-1.5 px-2 py-2">
                 <button
                   onClick={() => setActivePlaylistId(null)}
@@ -2854,6 +4454,33 @@ function LibrarySidebar({
                   </div>
                 ) : (
                   <>
+                    <label
+                      className="relative shrink-0 rounded-lg p-1 text-stone-300 transition-colors hover:bg-stone-100 hover:text-black"
+                      title={t.sortBy}
+                    >
+                      <ArrowUpDown className="h-3.5 w-3.5" />
+                      <select
+                        value=""
+                        disabled={activePlaylist.videos.length < 2}
+                        onChange={(e) => {
+                          const by = e.target.value as import('@/lib/playlist-tools').PlaylistSort
+                          if (by) sortVideos(activePlaylist.id, by, Object.fromEntries(history.map((h) => [h.videoId, h.loopCount])))
+                        }}
+                        className="absolute inset-0 cursor-pointer opacity-0 disabled:cursor-default"
+                      >
+                        <option value="">{t.sortBy}</option>
+                        <option value="title">{t.sortTitle}</option>
+                        <option value="added">{t.sortAdded}</option>
+                        <option value="loops">{t.sortLoops}</option>
+                      </select>
+                    </label>
+                    <button
+                      onClick={() => setActivePlaylistId(duplicatePlaylist(activePlaylist.id, `${activePlaylist.name} ${t.copySuffix}`))}
+                      className="shrink-0 rounded-lg p-1 text-stone-300 transition-colors hover:bg-stone-100 hover:text-black"
+                      title={t.duplicatePlaylist}
+                    >
+                      <CopyPlus className="h-3.5 w-3.5" />
+                    </button>
                     <button
                       onClick={() => {
                         if (!isLoggedIn) {
@@ -2985,9 +4612,9 @@ function LibrarySidebar({
                     </SelectTrigger>
                     <SelectContent className="rounded-xl border-2 border-black bg-white text-xs">
                       <SelectItem value="none">{t.noFolder}</SelectItem>
-                      {folders.map((f) => (
+                      {flattenFolders(folders).map(({ folder: f, depth }) => (
                         <SelectItem key={f.id} value={f.id}>
-                          {f.name}
+                          <span style={{ paddingLeft: depth * 12 }}>{f.name}</span>
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -2995,6 +4622,64 @@ function LibrarySidebar({
                 </div>
               )}
 
+              {selectedEntryKeys.size > 0 && (
+                <div className="mx-2 mb-1.5 flex items-center gap-1.5 rounded-xl border-2 border-black bg-[#FFD6BA] px-2 py-1 text-[10px] font-bold">
+                  <span className="shrink-0">{selectedEntryKeys.size} {t.selectedLabel}</span>
+                  {playlists.length > 1 && (
+                    <>
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          if (!e.target.value) return
+                          moveEntries(activePlaylist.id, Array.from(selectedEntryKeys), e.target.value)
+                          setSelectedEntryKeys(new Set())
+                        }}
+                        className="min-w-0 flex-1 truncate rounded-md border border-black bg-white px-1 py-0.5"
+                      >
+                        <option value="">{t.moveTo}</option>
+                        {playlists.filter((p) => p.id !== activePlaylist.id).map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.emoji ? `${p.emoji} ` : ''}{p.name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          if (!e.target.value) return
+                          copyEntries(activePlaylist.id, Array.from(selectedEntryKeys), e.target.value)
+                          setSelectedEntryKeys(new Set())
+                        }}
+                        className="min-w-0 flex-1 truncate rounded-md border border-black bg-white px-1 py-0.5"
+                      >
+                        <option value="">{t.copyTo}</option>
+                        {playlists.filter((p) => p.id !== activePlaylist.id).map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.emoji ? `${p.emoji} ` : ''}{p.name}
+                          </option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                  <button
+                    onClick={() => {
+                      const keys = activePlaylist.videos.map(entryKey).filter((key) => selectedEntryKeys.has(key))
+                      setActivePlaylistId(splitPlaylist(activePlaylist.id, keys, `${activePlaylist.name} ${t.splitSuffix}`))
+                    }}
+                    title={t.splitSelection}
+                    className="ml-auto shrink-0 rounded-md p-0.5 hover:bg-white"
+                  >
+                    <Scissors className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => setSelectedEntryKeys(new Set())}
+                    className="shrink-0 rounded-md p-0.5 hover:bg-white"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+
               {activePlaylist.videos.length === 0 && (
                 <p className="px-3 py-2 text-xs text-stone-400">
                   {t.noSongsYet}
@@ -3006,7 +4691,7 @@ function LibrarySidebar({
                   const reordered = [...activePlaylist.videos]
                   const [moved] = reordered.splice(source.index, 1)
                   reordered.splice(destination.index, 0, moved)
-                  reorderVideos(activePlaylist.id, reordered.map((v) => v.videoId))
+                  reorderVideos(activePlaylist.id, reordered.map(entryKey))
                 }}
               >
                 <Droppable droppableId="videos">
@@ -3016,88 +4701,164 @@ function LibrarySidebar({
                       {...provided.droppableProps}
                       className="space-y-1 px-1"
                     >
-                      {activePlaylist.videos.map((v, idx) => (
-                        <Draggable key={v.videoId} draggableId={v.videoId} index={idx}>
-                          {(provided, snapshot) => (
-                            <div
-                              ref={provided.innerRef}
-                              {...provided.draggableProps}
-                              style={{ ...provided.draggableProps.style, opacity: snapshot.isDragging ? 0.7 : 1 }}
-                              className="group flex items-center gap-2 rounded-xl px-2 py-1 transition-colors hover:bg-bg/50"
-                            >
+                      {activePlaylist.videos.map((v, idx) => {
+                        const key = entryKey(v)
+                        const regions = getLoopPoints()[v.videoId]?.regions ?? []
+                        const summary = entrySummary(v, regions)
+                        return (
+                          <Draggable key={key} draggableId={key} index={idx}>
+                            {(provided, snapshot) => (
                               <div
-                                {...provided.dragHandleProps}
-                                className="shrink-0 cursor-grab text-stone-300 hover:text-stone-500 active:cursor-grabbing"
+                                ref={provided.innerRef}
+                                {...provided.draggableProps}
+                                style={{ ...provided.draggableProps.style, opacity: snapshot.isDragging ? 0.7 : 1 }}
                               >
-                                <GripVertical className="h-3 w-3" />
-                              </div>
-                              <img
-                                src={`https://i.ytimg.com/vi/${v.videoId}/default.jpg`}
-                                alt=""
-                                className="h-8 w-11 shrink-0 rounded-lg object-cover opacity-70 transition-opacity group-hover:opacity-100"
-                              />
-                              {editingVideoId === v.videoId ? (
-                                <form
-                                  className="min-w-0 flex-1"
-                                  onSubmit={(e) => {
-                                    e.preventDefault()
-                                    if (editingTitle.trim()) {
-                                      renameVideo(activePlaylist.id, v.videoId, editingTitle.trim())
-                                    }
-                                    setEditingVideoId(null)
-                                  }}
+                                <div
+                                  className={`group flex items-center gap-2 rounded-xl px-2 py-1 transition-colors hover:bg-bg/50 ${
+                                    selectedEntryKeys.has(key) ? 'bg-bg/50' : ''
+                                  }`}
                                 >
                                   <input
-                                    autoFocus
-                                    type="text"
-                                    value={editingTitle}
-                                    onChange={(e) => setEditingTitle(e.target.value)}
-                                    onBlur={() => {
-                                      if (editingTitle.trim()) {
-                                        renameVideo(activePlaylist.id, v.videoId, editingTitle.trim())
-                                      }
-                                      setEditingVideoId(null)
-                                    }}
-                                    onKeyDown={(e) => { if (e.key === 'Escape') setEditingVideoId(null) }}
-                                    className="w-full rounded-lg border border-stone-300 px-1.5 py-0.5 text-[11px] focus:border-black focus:outline-none"
+                                    type="checkbox"
+                                    checked={selectedEntryKeys.has(key)}
+                                    onChange={() => toggleEntrySelected(key)}
+                                    className={`h-3 w-3 shrink-0 accent-black transition-opacity ${
+                                      selectedEntryKeys.size ? '' : 'opacity-0 group-hover:opacity-100'
+                                    }`}
                                   />
-                                </form>
-                              ) : (
-                                <button
-                                  onClick={() => onPlayFromPlaylist(activePlaylist.id, idx, v.videoId, v.title)}
-                                  className="min-w-0 flex-1 text-left"
-                                >
-                                  <p className="truncate text-[11px] text-stone-600 transition-colors group-hover:text-black">
-                                    {v.title || v.videoId}
-                                  </p>
-                                </button>
-                              )}
-                              <button
-                                onClick={() => {
-                                  setEditingVideoId(v.videoId)
-                                  setEditingTitle(v.title || v.videoId)
-                                }}
-                                className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-stone-500 group-hover:opacity-100"
-                                title={t.renameSong}
-                              >
-                                <Pencil className="h-2.5 w-2.5" />
-                              </button>
-                              <button
-                                onClick={() => removeFromPlaylist(activePlaylist.id, v.videoId)}
-                                className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-red-400 group-hover:opacity-100"
-                              >
-                                <X className="h-2.5 w-2.5" />
-                              </button>
-                            </div>
-                          )}
-                        </Draggable>
-                      ))}
+                                  <div
+                                    {...provided.dragHandleProps}
+                                    className="shrink-0 cursor-grab text-stone-300 hover:text-stone-500 active:cursor-grabbing"
+                                  >
+                                    <GripVertical className="h-3 w-3" />
+                                  </div>
+                                  <img
+                                    src={`https://i.ytimg.com/vi/${v.videoId}/default.jpg`}
+                                    alt=""
+                                    className="h-8 w-11 shrink-0 rounded-lg object-cover opacity-70 transition-opacity group-hover:opacity-100"
+                                  />
+                                  {editingVideoId === key ? (
+                                    <form
+                                      className="min-w-0 flex-1"
+                                      onSubmit={(e) => {
+                                        e.preventDefault()
+                                        if (editingTitle.trim()) {
+                                          renameVideo(activePlaylist.id, key, editingTitle.trim())
+                                        }
+                                        setEditingVideoId(null)
+                                      }}
+                                    >
+                                      <input
+                                        autoFocus
+                                        type="text"
+                                        value={editingTitle}
+                                        onChange={(e) => setEditingTitle(e.target.value)}
+                                        onBlur={() => {
+                                          if (editingTitle.trim()) {
+                                            renameVideo(activePlaylist.id, key, editingTitle.trim())
+                                          }
+                                          setEditingVideoId(null)
+                                        }}
+                                        onKeyDown={(e) => { if (e.key === 'Escape') setEditingVideoId(null) }}
+                                        className="w-full rounded-lg border border-stone-300 px-1.5 py-0.5 text-[11px] focus:border-black focus:outline-none"
+                                      />
+                                    </form>
+                                  ) : (
+                                    <button
+                                      onClick={() => onPlayFromPlaylist(activePlaylist.id, idx, v.videoId, v.title)}
+                                      className="min-w-0 flex-1 text-left"
+                                    >
+                                      <p className="truncate text-[11px] text-stone-600 transition-colors group-hover:text-black">
+                                        {v.title || v.videoId}
+                                      </p>
+                                      {summary && (
+                                        <p className="mt-0.5 truncate text-[10px] text-stone-400">{summary}</p>
+                                      )}
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => setSettingsEntryKey(settingsEntryKey === key ? null : key)}
+                                    className={`shrink-0 transition-all hover:text-stone-500 group-hover:opacity-100 ${
+                                      settingsEntryKey === key ? 'text-black' : 'text-stone-300 opacity-0'
+                                    }`}
+                                    title={t.entrySettings}
+                                  >
+                                    <SlidersHorizontal className="h-2.5 w-2.5" />
+                                  </button>
+                                  <button
+                                    onClick={() => {
+                                      setEditingVideoId(key)
+                                      setEditingTitle(v.title || v.videoId)
+                                    }}
+                                    className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-stone-500 group-hover:opacity-100"
+                                    title={t.renameSong}
+                                  >
+                                    <Pencil className="h-2.5 w-2.5" />
+                                  </button>
+                                  <button
+                                    onClick={() => removeFromPlaylist(activePlaylist.id, key)}
+                                    className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-red-400 group-hover:opacity-100"
+                                  >
+                                    <X className="h-2.5 w-2.5" />
+                                  </button>
+                                </div>
+                                {settingsEntryKey === key && (
+                                  <EntrySettingsEditor
+                                    entry={v}
+                                    regions={regions}
+                                    onChange={(patch) => setEntrySettings(activePlaylist.id, key, patch)}
+                                    t={t}
+                                  />
+                                )}
+                              </div>
+                            )}
+                          </Draggable>
+                        )
+                      })}
                       {provided.placeholder}
                     </div>
                   )}
                 </Droppable>
               </DragDropContext>
             </div>
+          ) : activeSmart ? (
+            /* DRILL-DOWN: smart playlist (read-only, rebuilt from rules) */
+            <div className="flex flex-col">
+              <div className="flex items-center gap-1.5 px-2 py-2">
+                <button
+                  onClick={() => setActivePlaylistId(null)}
+                  className="flex items-center gap-1 rounded-lg px-1.5 py-1 text-xs text-stone-400 transition-colors hover:bg-bg/50 hover:text-black"
+                >
+                  <ChevronRight className="h-3 w-3 rotate-180" />
+                  {t.back}
+                </button>
+                <span className="min-w-0 flex-1 truncate text-xs font-bold text-stone-700">
+                  {activeSmart.emoji} {activeSmart.name}
+                </span>
+              </div>
+              {activeSmart.videos.length === 0 && (
+                <p className="px-3 py-1 text-xs text-stone-400">{t.smartEmpty}</p>
+              )}
+              <div className="space-y-1 px-1">
+                {activeSmart.videos.map((v, idx) => (
+                  <button
+                    key={v.videoId}
+                    onClick={() => onPlayFromPlaylist(activeSmart.id, idx, v.videoId, v.title)}
+                    className="group flex w-full items-center gap-2 rounded-xl px-2 py-1 text-left transition-colors hover:bg-bg/50"
+                  >
+                    <img
+                      src={`https://i.ytimg.com/vi/${v.videoId}/default.jpg`}
+                      alt=""
+                      loading="lazy"
+                      className="h-8 w-11 shrink-0 rounded-lg object-cover opacity-70 transition-opacity group-hover:opacity-100"
+                    />
+                    <p className="min-w-0 flex-1 truncate text-[11px] text-stone-600 transition-colors group-hover:text-black">
+                      {v.title || v.videoId}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </div>
           ) : (
             /* LIST VIEW: folders + playlists */
             <div className="flex flex-col gap-0.5">
@@ -3124,8 +4885,50 @@ function LibrarySidebar({
                   <Link className="h-3 w-3" />
                   {t.import}
                 </button>
+                <button
+                  onClick={() => startNewFolder(null)}
+                  title={t.newFolder}
+                  className="flex shrink-0 items-center justify-center rounded-xl border-2 border-dashed border-stone-300 px-2.5 py-1.5 text-stone-400 transition-colors hover:border-black hover:text-black"
+                >
+                  <FolderPlus className="h-3 w-3" />
+                </button>
               </div>
 
+              {selectedPlaylistIds.length > 0 && (
+                <div className="mx-2 mb-1.5 flex items-center gap-1.5 rounded-xl border-2 border-black bg-[#FFD6BA] px-2 py-1 text-[10px] font-bold">
+                  <span className="min-w-0 flex-1 truncate">
+                    {selectedPlaylistIds.length} {t.selectedLabel}
+                  </span>
+                  <button
+                    onClick={() => {
+                      mergePlaylists(selectedPlaylistIds)
+                      setSelectedPlaylistIds([])
+                    }}
+                    disabled={selectedPlaylistIds.length < 2}
+                    title={`${t.mergeInto} ${playlists.find((p) => p.id === selectedPlaylistIds[0])?.name ?? ''}`}
+                    className="shrink-0 rounded-md p-0.5 hover:bg-white disabled:opacity-40 disabled:hover:bg-transparent"
+                  >
+                    <Combine className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      dedupePlaylists(selectedPlaylistIds)
+                      setSelectedPlaylistIds([])
+                    }}
+                    title={t.removeDuplicates}
+                    className="shrink-0 rounded-md p-0.5 hover:bg-white"
+                  >
+                    <CopyMinus className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => setSelectedPlaylistIds([])}
+                    className="shrink-0 rounded-md p-0.5 hover:bg-white"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+
               {/* Import playlist dialog */}
               <Dialog open={importOpen} onOpenChange={(v) => { setImportOpen(v); if (!v) setImportError(null) }}>
                 <DialogContent className="max-w-sm">
@@ -3167,10 +4970,13 @@ function LibrarySidebar({
                           const data = await res.json()
                           if (!res.ok) { setImportError(data.error || t.importFailed); return }
                           const name = `${t.importedOn} ${new Date().toLocaleDateString()}`
-                          const id = createPlaylist(name)
-                          for (const v of data.videos) {
-                            addToPlaylist(id, v.videoId, v.title)
-                          }
+                          const id = undoGroup('undoImportPlaylist', () => {
+                            const created = createPlaylist(name)
+                            for (const v of data.videos) {
+                              addToPlaylist(created, v.videoId, v.title)
+                            }
+                            return created
+                          })
                           setImportOpen(false)
                           setActivePlaylistId(id)
                         } catch {
@@ -3227,17 +5033,60 @@ function LibrarySidebar({
                 </DialogContent>
               </Dialog>
 
-              {/* New folder input hidden for now */}
+              {/* New folder dialog, top-level or inside another folder */}
+              <Dialog
+                open={showNewFolder}
+                onOpenChange={(v) => {
+                  setShowNewFolder(v)
+                  if (!v) setNewFolderName('')
+                }}
+              >
+                <DialogContent className="max-w-sm">
+                  <DialogHeader>
+                    <DialogTitle>{t.newFolderTitle}</DialogTitle>
+                  </DialogHeader>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      if (!newFolderName.trim()) return
+                      createFolder(newFolderName.trim(), newFolderParentId)
+                      if (newFolderParentId) openFolder(newFolderParentId)
+                      setNewFolderName('')
+                      setShowNewFolder(false)
+                    }}
+                    className="flex flex-col gap-3 pt-1"
+                  >
+                    {newFolderParentId && (
+                      <p className="text-xs text-stone-500">
+                        {folderPath(folders, newFolderParentId).map((f) => f.name).join(' › ')}
+                      </p>
+                    )}
+                    <input
+                      autoFocus
+                      type="text"
+                      value={newFolderName}
+                      onChange={(e) => setNewFolderName(e.target.value)}
+                      placeholder={t.folderNamePlaceholder}
+                      className="rounded-xl border-2 border-black px-3 py-2 text-sm placeholder-stone-400 focus:outline-none"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!newFolderName.trim()}
+                      className="rounded-xl border-2 border-black bg-main py-2 text-sm font-bold transition-all hover:opacity-90 disabled:opacity-40"
+                    >
+                      {t.create}
+                    </button>
+                  </form>
+                </DialogContent>
+              </Dialog>
 
-              {/* Single DragDropContext: flat list reorder + drop into folder */}
+              {/* Single DragDropContext: top-level reorder plus moves in, out
+                  of and between folders at any depth */}
               <DragDropContext
-                onDragStart={(initial) => {
-                  // When dragging a top-level playlist, auto-open all folders
-                  // so their drop zones are visible
-                  if (initial.draggableId.startsWith('p-')) {
-                    setPreDragFolderState(new Set(expandedFolders))
-                    setExpandedFolders(new Set(folders.map((f) => f.id)))
-                  }
+                onDragStart={() => {
+                  // Open every folder so all drop zones are visible
+                  setPreDragFolderState(new Set(expandedFolders))
+                  setExpandedFolders(new Set(folders.map((f) => f.id)))
                 }}
                 onDragEnd={(result: DropResult) => {
                   const { source, destination, draggableId } = result
@@ -3245,11 +5094,10 @@ function LibrarySidebar({
                   // Always restore folder open state after drag
                   if (preDragFolderState !== null) {
                     const restored = new Set(preDragFolderState)
-                    // Keep the target folder open if dropped into one
+                    // Keep the target folder (and the way down to it) open
                     if (destination?.droppableId.startsWith('folder-')) {
-                      restored.add(
-                        destination.droppableId.replace('folder-', ''),
-                      )
+                      folderPath(folders, destination.droppableId.replace('folder-', ''))
+                        .forEach((f) => restored.add(f.id))
                     }
                     setExpandedFolders(restored)
                     setPreDragFolderState(null)
@@ -3262,244 +5110,154 @@ function LibrarySidebar({
                   )
                     return
 
-                  const srcIsFolder = source.droppableId.startsWith('folder-')
-                  const dstIsFolder =
-                    destination.droppableId.startsWith('folder-')
-
-                  // Reorder within a folder
-                  if (
-                    srcIsFolder &&
-                    dstIsFolder &&
-                    source.droppableId === destination.droppableId
-                  ) {
-                    const folderId = source.droppableId.replace('folder-', '')
-                    const folder = folders.find((f) => f.id === folderId)!
-                    const reordered = [...folder.playlistIds]
-                    const [moved] = reordered.splice(source.index, 1)
-                    reordered.splice(destination.index, 0, moved)
-                    reorderFolderPlaylists(folderId, reordered)
+                  // p-/f- at the top level, fp-/ff- inside a folder
+                  const isFolder = /^f{1,2}-/.test(draggableId)
+                  const itemId = draggableId.slice(draggableId.indexOf('-') + 1)
+                  const topId = `${isFolder ? 'f' : 'p'}-${itemId}`
+                  const srcFolderId = source.droppableId.startsWith('folder-')
+                    ? source.droppableId.replace('folder-', '')
+                    : null
+                  const dstFolderId = destination.droppableId.startsWith('folder-')
+                    ? destination.droppableId.replace('folder-', '')
+                    : null
+                  const sameList = source.droppableId === destination.droppableId
+
+                  // Into a folder: subfolders are listed before playlists, so
+                  // the drop index is read against that combined list
+                  if (dstFolderId) {
+                    if (isFolder && isWithin(folders, dstFolderId, itemId)) return
+                    const target = folders.find((f) => f.id === dstFolderId)
+                    if (!target) return
+                    const list = [
+                      ...childFolders(folders, dstFolderId).map((f) => `ff-${f.id}`),
+                      ...target.playlistIds.map((id) => `fp-${id}`),
+                    ].filter((id) => id !== draggableId)
+                    list.splice(destination.index, 0, `${isFolder ? 'ff' : 'fp'}-${itemId}`)
+                    const label = sameList ? 'undoReorder' : isFolder ? 'undoMoveFolder' : 'undoMoveToFolder'
+                    undoGroup(label, () => {
+                      if (isFolder) {
+                        moveFolder(
+                          itemId,
+                          dstFolderId,
+                          list.filter((id) => id.startsWith('ff-')).map((id) => id.slice(3)),
+                        )
+                      } else {
+                        const playlistOrder = list.filter((id) => id.startsWith('fp-'))
+                        moveToFolder(itemId, dstFolderId, playlistOrder.indexOf(`fp-${itemId}`))
+                      }
+                      if (!srcFolderId) {
+                        changeTopLevelOrder(effectiveOrder.filter((id) => id !== topId))
+                      }
+                    })
                     return
                   }
 
-                  // Top-level playlist dropped into a folder
-                  if (
-                    !srcIsFolder &&
-                    dstIsFolder &&
-                    draggableId.startsWith('p-')
-                  ) {
-                    const playlistId = draggableId.slice(2)
-                    const folderId = destination.droppableId.replace(
-                      'folder-',
-                      '',
-                    )
-                    moveToFolder(playlistId, folderId)
-                    saveTopLevelOrder(
-                      effectiveOrder.filter((id) => id !== draggableId),
-                    )
+                  // Out of a folder to the top level
+                  if (srcFolderId) {
+                    const newOrder = effectiveOrder.filter((id) => id !== topId)
+                    newOrder.splice(destination.index, 0, topId)
+                    undoGroup(isFolder ? 'undoMoveFolder' : 'undoMoveToFolder', () => {
+                      if (isFolder) moveFolder(itemId, null)
+                      else moveToFolder(itemId, null)
+                      changeTopLevelOrder(newOrder)
+                    })
                     return
                   }
 
-                  // Playlist dragged out of folder back to top-level
-                  if (
-                    srcIsFolder &&
-                    !dstIsFolder &&
-                    draggableId.startsWith('fp-')
-                  ) {
-                    const playlistId = draggableId.slice(3)
-                    moveToFolder(playlistId, null)
-                    const newOrder = [...effectiveOrder]
-                    newOrder.splice(destination.index, 0, `p-${playlistId}`)
-                    saveTopLevelOrder(newOrder)
-                    return
-                  }
-
-                  // Reorder top-level flat list
-                  if (!srcIsFolder && !dstIsFolder) {
-                    const newOrder = Array.from(effectiveOrder)
-                    const [moved] = newOrder.splice(source.index, 1)
-                    newOrder.splice(destination.index, 0, moved)
-                    saveTopLevelOrder(newOrder)
-                    const newPlaylistIds = newOrder
-                      .filter((id) => id.startsWith('p-'))
-                      .map((id) => id.slice(2))
-                    const newFolderIds = newOrder
-                      .filter((id) => id.startsWith('f-'))
-                      .map((id) => id.slice(2))
-                    const categorized = playlists.filter((p) =>
-                      categorizedIds.has(p.id),
-                    )
+                  // Reorder top-level list
+                  const newOrder = Array.from(effectiveOrder)
+                  const [moved] = newOrder.splice(source.index, 1)
+                  newOrder.splice(destination.index, 0, moved)
+                  const newPlaylistIds = newOrder
+                    .filter((id) => id.startsWith('p-'))
+                    .map((id) => id.slice(2))
+                  const newFolderIds = newOrder
+                    .filter((id) => id.startsWith('f-'))
+                    .map((id) => id.slice(2))
+                  const categorized = playlists.filter((p) =>
+                    categorizedIds.has(p.id),
+                  )
+                  undoGroup('undoReorder', () => {
+                    changeTopLevelOrder(newOrder)
                     reorderPlaylists([
                       ...newPlaylistIds,
                       ...categorized.map((p) => p.id),
                     ])
                     reorderFolders(newFolderIds)
-                  }
+                  })
                 }}
               >
                 <Droppable droppableId="top-level">
                   {(provided) => (
                     <div ref={provided.innerRef} {...provided.droppableProps}>
-                      {effectiveOrder
-                        .filter((id) => id.startsWith('p-'))
-                        .map((itemId, index) => {
-                          if (itemId.startsWith('p-')) {
-                            const playlist = playlists.find(
-                              (p) => p.id === itemId.slice(2),
-                            )
-                            if (!playlist) return null
-                            return (
-                              <Draggable
-                                key={itemId}
-                                draggableId={itemId}
-                                index={index}
-                              >
-                                {(provided, snapshot) => (
-                                  <div
-                                    ref={provided.innerRef}
-                                    {...provided.draggableProps}
-                                    style={{
-                                      ...provided.draggableProps.style,
-                                      opacity: snapshot.isDragging ? 0.7 : 1,
-                                    }}
-                                  >
-                                    <PlaylistRow
-                                      playlist={playlist}
-                                      dragHandle={provided.dragHandleProps}
-                                      onOpen={() =>
-                                        setActivePlaylistId(playlist.id)
-                                      }
-                                      onEmojiClick={() =>
-                                        setEmojiPickerPlaylistId(playlist.id)
-                                      }
-                                    />
-                                  </div>
-                                )}
-                              </Draggable>
-                            )
-                          } else {
-                            const folder = folders.find(
-                              (f) => f.id === itemId.slice(2),
-                            )
-                            if (!folder) return null
-                            const folderPlaylists = folder.playlistIds
-                              .map((pid) => playlists.find((p) => p.id === pid))
-                              .filter(Boolean) as typeof playlists
-                            const isOpen = expandedFolders.has(folder.id)
-                            return (
-                              <Draggable
-                                key={itemId}
-                                draggableId={itemId}
-                                index={index}
+                      {effectiveOrder.map((itemId, index) => {
+                        if (itemId.startsWith('p-')) {
+                          const playlist = playlists.find(
+                            (p) => p.id === itemId.slice(2),
+                          )
+                          if (!playlist) return null
+                          return (
+                            <Draggable
+                              key={itemId}
+                              draggableId={itemId}
+                              index={index}
+                            >
+                              {(provided, snapshot) => (
+                                <div
+                                  ref={provided.innerRef}
+                                  {...provided.draggableProps}
+                                  style={{
+                                    ...provided.draggableProps.style,
+                                    opacity: snapshot.isDragging ? 0.7 : 1,
+                                  }}
+                                >
+                                  <PlaylistRow
+                                    playlist={playlist}
+                                    dragHandle={provided.dragHandleProps}
+                                    onOpen={() =>
+                                      setActivePlaylistId(playlist.id)
+                                    }
+                                    onEmojiClick={() =>
+                                      setEmojiPickerPlaylistId(playlist.id)
+                                    }
+                                    selected={selectedPlaylistIds.includes(playlist.id)}
+                                    selecting={selectedPlaylistIds.length > 0}
+                                    onToggleSelect={() => togglePlaylistSelected(playlist.id)}
+                                  />
+                                </div>
+                              )}
+                            </Draggable>
+                          )
+                        }
+                        const folder = folders.find(
+                          (f) => f.id === itemId.slice(2),
+                        )
+                        if (!folder) return null
+                        return (
+                          <Draggable
+                            key={itemId}
+                            draggableId={itemId}
+                            index={index}
+                          >
+                            {(provided, snapshot) => (
+                              <div
+                                ref={provided.innerRef}
+                                {...provided.draggableProps}
+                                style={{
+                                  ...provided.draggableProps.style,
+                                  opacity: snapshot.isDragging ? 0.7 : 1,
+                                }}
                               >
-                                {(provided, snapshot) => (
-                                  <div
-                                    ref={provided.innerRef}
-                                    {...provided.draggableProps}
-                                    style={{
-                                      ...provided.draggableProps.style,
-                                      opacity: snapshot.isDragging ? 0.7 : 1,
-                                    }}
-                                  >
-                                    <div
-                                      {...(provided.dragHandleProps ?? {})}
-                                      className="flex cursor-grab items-center rounded-xl transition-colors hover:bg-bg/50 active:cursor-grabbing"
-                                    >
-                                      <button
-                                        onClick={(e) => {
-                                          e.stopPropagation()
-                                          setEmojiPickerFolderId(folder.id)
-                                        }}
-                                        className="ml-1.5 mr-1.5 shrink-0 cursor-pointer rounded-lg p-1.5 text-base leading-none transition-colors hover:bg-stone-100"
-                                        title="Change emoji"
-                                      >
-                                        {folder.emoji ?? '📁'}
-                                      </button>
-                                      <div
-                                        onClick={() => toggleFolder(folder.id)}
-                                        className="flex min-w-0 flex-1 cursor-pointer items-center gap-2 py-3 pl-1 pr-3"
-                                      >
-                                        <span className="truncate text-xs text-stone-700">
-                                          {folder.name}
-                                        </span>
-                                        <ChevronRight
-                                          className="ml-auto h-4 w-4 shrink-0 text-stone-600 transition-transform duration-200"
-                                          style={{
-                                            transform: isOpen
-                                              ? 'rotate(90deg)'
-                                              : 'rotate(0deg)',
-                                          }}
-                                        />
-                                      </div>
-                                    </div>
-                                    {/* Folder contents — always mounted when dragging so drop zone exists */}
-                                    {isOpen && (
-                                      <Droppable
-                                        droppableId={`folder-${folder.id}`}
-                                      >
-                                        {(provided, snapshot) => (
-                                          <div
-                                            ref={provided.innerRef}
-                                            {...provided.droppableProps}
-                                            className={`pl-3 transition-colors ${snapshot.isDraggingOver ? 'rounded-xl bg-main/20' : ''}`}
-                                          >
-                                            {folderPlaylists.length === 0 &&
-                                              !snapshot.isDraggingOver && (
-                                                <p className="px-2 py-1 text-[10px] text-stone-400">
-                                                  Empty folder
-                                                </p>
-                                              )}
-                                            {folderPlaylists.map(
-                                              (playlist, idx) => (
-                                                <Draggable
-                                                  key={`fp-${playlist.id}`}
-                                                  draggableId={`fp-${playlist.id}`}
-                                                  index={idx}
-                                                >
-                                                  {(provided, snapshot) => (
-                                                    <div
-                                                      ref={provided.innerRef}
-                                                      {...provided.draggableProps}
-                                                      style={{
-                                                        ...provided
-                                                          .draggableProps.style,
-                                                        opacity:
-                                                          snapshot.isDragging
-                                                            ? 0.7
-                                                            : 1,
-                                                      }}
-                                                    >
-                                                      <PlaylistRow
-                                                        playlist={playlist}
-                                                        dragHandle={
-                                                          provided.dragHandleProps
-                                                        }
-                                                        onOpen={() =>
-                                                          setActivePlaylistId(
-                                                            playlist.id,
-                                                          )
-                                                        }
-                                                        onEmojiClick={() =>
-                                                          setEmojiPickerPlaylistId(
-                                                            playlist.id,
-                                                          )
-                                                        }
-                                                      />
-                                                    </div>
-                                                  )}
-                                                </Draggable>
-                                              ),
-                                            )}
-                                            {provided.placeholder}
-                                          </div>
-                                        )}
-                                      </Droppable>
-                                    )}
-                                  </div>
-                                )}
-                              </Draggable>
-                            )
-                          }
-                        })}
+                                <FolderBranch
+                                  folder={folder}
+                                  dragHandle={provided.dragHandleProps}
+                                  {...folderBranchProps}
+                                />
+                              </div>
+                            )}
+                          </Draggable>
+                        )
+                      })}
                       {provided.placeholder}
                     </div>
                   )}
@@ -3511,6 +5269,31 @@ function LibrarySidebar({
                   {t.noPlaylists}
                 </p>
               )}
+
+              {/* Smart playlists */}
+              <div className="mt-2 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-400">
+                {t.smartPlaylists}
+              </div>
+              {smartPlaylists.map((p) => (
+                <button
+                  key={p.id}
+                  onClick={() => setActivePlaylistId(p.id)}
+                  className="flex items-center gap-2.5 rounded-xl py-2 pl-3 pr-3 text-left transition-colors hover:bg-bg/50"
+                >
+                  <span className="shrink-0 text-base leading-none">{p.emoji}</span>
+                  <span className="min-w-0 flex-1 truncate text-xs text-stone-700">{p.name}</span>
+                  <span className="shrink-0 text-[10px] text-stone-400">{p.videos.length}</span>
+                </button>
+              ))}
+
+              <TrashPanel
+                items={trash}
+                canRestore={canRestore}
+                onRestore={restoreFromTrash}
+                onPurge={purgeFromTrash}
+                onEmpty={emptyTrash}
+                t={t}
+              />
             </div>
           )}
 
@@ -3600,62 +5383,57 @@ function LibrarySidebar({
           value="history"
           className="mt-0 flex-1 overflow-y-auto px-1 pb-2"
         >
-          <div className="flex items-center justify-between px-3 py-1.5">
-            <span className="text-[10px] font-bold uppercase tracking-wider text-stone-400">
-              Recent
-            </span>
-            {history.length > 0 && (
-              <button
-                onClick={clear}
-                className="text-[10px] text-stone-400 transition-colors hover:text-red-400"
-              >
-                Clear
-              </button>
-            )}
-          </div>
-          {history.length === 0 && (
-            <p className="px-3 py-1 text-xs text-stone-400">
-              Nothing looped yet
-            </p>
-          )}
-          <div className="space-y-1 px-1">
-            {history.map((item) => (
-              <div
-                key={item.videoId}
-                className="group flex items-center gap-2 rounded-xl px-2 py-1 transition-colors hover:bg-bg/50"
-              >
-                <img
-                  src={`https://i.ytimg.com/vi/${item.videoId}/default.jpg`}
-                  alt=""
-                  className="h-8 w-11 shrink-0 rounded-lg object-cover opacity-70 transition-opacity group-hover:opacity-100"
-                />
-                <button
-                  onClick={() => onPlay(item.videoId, item.title)}
-                  className="min-w-0 flex-1 text-left"
-                >
-                  <p className="truncate text-[11px] text-stone-600 transition-colors group-hover:text-black">
-                    {item.title || item.videoId}
-                  </p>
-                  <p className="mt-0.5 flex items-center gap-1 text-[10px] text-stone-400">
-                    <RefreshCw className="h-2 w-2" />
-                    {item.loopCount}x
-                  </p>
-                </button>
-                <button
-                  onClick={() => onRemove(item.videoId)}
-                  className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-red-400 group-hover:opacity-100"
-                >
-                  <X className="h-3 w-3" />
-                </button>
-              </div>
-            ))}
-          </div>
+          <HistoryPanel
+            history={history}
+            playlists={playlists}
+            onPlay={onPlay}
+            onPlayNext={onPlayNext}
+            onAddToQueue={onAddToQueue}
+            onRemove={onRemove}
+            onRemoveMany={onRemoveMany}
+            onClear={clear}
+            addToPlaylist={addToPlaylist}
+            t={t}
+          />
         </TabsContent>
       </Tabs>
     </div>
   )
 }
 
+// ── Sync status indicator (signed-in only) ───────────────────────────────────
+function SyncBadge({
+  status,
+  pending,
+  onRetry,
+  t,
+}: {
+  status: SyncStatus
+  pending: number
+  onRetry: () => void
+  t: import('@/lib/translations').Translations
+}) {
+  const { icon, label, tone } = {
+    idle: { icon: <Cloud className="h-4 w-4" />, label: t.syncSynced, tone: 'bg-white' },
+    pending: { icon: <CloudUpload className="h-4 w-4" />, label: `${t.syncPending} (${pending})`, tone: 'bg-white' },
+    syncing: { icon: <Loader2 className="h-4 w-4 animate-spin" />, label: t.syncSyncing, tone: 'bg-white' },
+    offline: { icon: <CloudOff className="h-4 w-4" />, label: t.syncOffline, tone: 'bg-stone-200' },
+    error: { icon: <TriangleAlert className="h-4 w-4" />, label: t.syncFailed, tone: 'bg-red-100' },
+  }[status]
+
+  return (
+    <button
+      onClick={onRetry}
+      disabled={status === 'idle' || status === 'syncing'}
+      className={`flex h-9 w-9 shrink-0 items-center justify-center rounded-xl border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all hover:shadow-none disabled:hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${tone}`}
+      title={label}
+      aria-label={label}
+    >
+      {icon}
+    </button>
+  )
+}
+
 // ── Sidebar menu — single button → dropdown to the right ─────────────────────
 function SidebarMenu({
   isLoggedIn,
@@ -3667,7 +5445,11 @@ function SidebarMenu({
   onExport,
   onImport,
   onHelp,
+  onStats,
   onFeature,
+  onShortcuts,
+  dataOpen,
+  setDataOpen,
   darkMode,
   onToggleDark,
   lang,
@@ -3683,7 +5465,12 @@ function SidebarMenu({
   onExport: () => void
   onImport: (file: File) => void
   onHelp: () => void
+  onStats: () => void
   onFeature: () => void
+  onShortcuts: () => void
+  // Manage data dialog; the command palette opens it too
+  dataOpen: boolean
+  setDataOpen: (open: boolean) => void
   darkMode: boolean
   onToggleDark: () => void
   lang: Lang
@@ -3692,7 +5479,6 @@ function SidebarMenu({
 }) {
   const [open, setOpen] = useState(false)
   const [authOpen, setAuthOpen] = useState(false)
-  const [dataOpen, setDataOpen] = useState(false)
   const [authMode, setAuthMode] = useState<'login' | 'register'>('login')
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -3963,6 +5749,16 @@ function SidebarMenu({
                 <Download className="h-4 w-4 shrink-0 text-stone-500" />
                 {t.manageData}
               </button>
+              <button
+                onClick={() => {
+                  onStats()
+                  setOpen(false)
+                }}
+                className="flex w-full items-center gap-2.5 rounded-xl px-2 py-2 text-xs font-bold transition-all hover:bg-stone-100"
+              >
+                <BarChart3 className="h-4 w-4 shrink-0 text-stone-500" />
+                {t.statsTitle}
+              </button>
               <button
                 onClick={() => {
                   onHelp()
@@ -3973,6 +5769,16 @@ function SidebarMenu({
                 <HelpCircle className="h-4 w-4 shrink-0 text-stone-500" />
                 {t.helpShortcuts}
               </button>
+              <button
+                onClick={() => {
+                  onShortcuts()
+                  setOpen(false)
+                }}
+                className="flex w-full items-center gap-2.5 rounded-xl px-2 py-2 text-xs font-bold transition-all hover:bg-stone-100"
+              >
+                <Keyboard className="h-4 w-4 shrink-0 text-stone-500" />
+                {t.shortcutsTitle}
+              </button>
               <button
                 onClick={() => {
                   onFeature()
@@ -4016,12 +5822,180 @@ function SidebarMenu({
   )
 }
 
+// What the command palette asks the sidebar to show. A fresh object per
+// request, so picking the same playlist twice still reveals it.
+interface LibraryReveal {
+  kind: 'playlist' | 'folder'
+  id: string
+}
+
+// ── Folder with its subfolders and playlists, at any depth ────────────────────
+function FolderBranch({
+  folder,
+  dragHandle,
+  folders,
+  playlists,
+  expandedFolders,
+  onToggle,
+  onEmojiClick,
+  onNewSubfolder,
+  onDelete,
+  renderPlaylist,
+  t,
+}: {
+  folder: import('@/lib/use-folders').Folder
+  dragHandle: React.HTMLAttributes<HTMLElement> | null | undefined
+  folders: import('@/lib/use-folders').Folder[]
+  playlists: import('@/lib/use-playlists').Playlist[]
+  expandedFolders: Set<string>
+  onToggle: (id: string) => void
+  onEmojiClick: (id: string) => void
+  onNewSubfolder: (parentId: string) => void
+  onDelete: (id: string) => void
+  renderPlaylist: (
+    playlist: import('@/lib/use-playlists').Playlist,
+    dragHandle: React.HTMLAttributes<HTMLElement> | null | undefined,
+  ) => React.ReactNode
+  t: import('@/lib/translations').Translations
+}) {
+  const subfolders = childFolders(folders, folder.id)
+  const folderPlaylists = folder.playlistIds
+    .map((pid) => playlists.find((p) => p.id === pid))
+    .filter(Boolean) as typeof playlists
+  const isOpen = expandedFolders.has(folder.id)
+  const branchProps = {
+    folders,
+    playlists,
+    expandedFolders,
+    onToggle,
+    onEmojiClick,
+    onNewSubfolder,
+    onDelete,
+    renderPlaylist,
+    t,
+  }
+
+  return (
+    <>
+      <div
+        {...(dragHandle ?? {})}
+        className="group flex cursor-grab items-center rounded-xl transition-colors hover:bg-bg/50 active:cursor-grabbing"
+      >
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onEmojiClick(folder.id)
+          }}
+          className="ml-1.5 mr-1.5 shrink-0 cursor-pointer rounded-lg p-1.5 text-base leading-none transition-colors hover:bg-stone-100"
+          title="Change emoji"
+        >
+          {folder.emoji ?? '📁'}
+        </button>
+        <div
+          onClick={() => onToggle(folder.id)}
+          className="flex min-w-0 flex-1 cursor-pointer items-center gap-2 py-3 pl-1 pr-3"
+        >
+          <span className="truncate text-xs text-stone-700">{folder.name}</span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              onNewSubfolder(folder.id)
+            }}
+            title={t.newSubfolder}
+            className="ml-auto shrink-0 rounded-md p-0.5 text-stone-400 opacity-0 transition-all hover:bg-white hover:text-black group-hover:opacity-100"
+          >
+            <FolderPlus className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              onDelete(folder.id)
+            }}
+            title={t.deleteFolder}
+            className="shrink-0 rounded-md p-0.5 text-stone-300 opacity-0 transition-all hover:bg-white hover:text-red-400 group-hover:opacity-100"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+          <ChevronRight
+            className="h-4 w-4 shrink-0 text-stone-600 transition-transform duration-200"
+            style={{ transform: isOpen ? 'rotate(90deg)' : 'rotate(0deg)' }}
+          />
+        </div>
+      </div>
+      {/* Subfolders come first, then the folder's own playlists */}
+      {isOpen && (
+        <Droppable droppableId={`folder-${folder.id}`}>
+          {(provided, snapshot) => (
+            <div
+              ref={provided.innerRef}
+              {...provided.droppableProps}
+              className={`pl-3 transition-colors ${snapshot.isDraggingOver ? 'rounded-xl bg-main/20' : ''}`}
+            >
+              {subfolders.length === 0 &&
+                folderPlaylists.length === 0 &&
+                !snapshot.isDraggingOver && (
+                  <p className="px-2 py-1 text-[10px] text-stone-400">
+                    {t.emptyFolder}
+                  </p>
+                )}
+              {subfolders.map((sub, idx) => (
+                <Draggable key={`ff-${sub.id}`} draggableId={`ff-${sub.id}`} index={idx}>
+                  {(provided, snapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      style={{
+                        ...provided.draggableProps.style,
+                        opacity: snapshot.isDragging ? 0.7 : 1,
+                      }}
+                    >
+                      <FolderBranch
+                        folder={sub}
+                        dragHandle={provided.dragHandleProps}
+                        {...branchProps}
+                      />
+                    </div>
+                  )}
+                </Draggable>
+              ))}
+              {folderPlaylists.map((playlist, idx) => (
+                <Draggable
+                  key={`fp-${playlist.id}`}
+                  draggableId={`fp-${playlist.id}`}
+                  index={subfolders.length + idx}
+                >
+                  {(provided, snapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      style={{
+                        ...provided.draggableProps.style,
+                        opacity: snapshot.isDragging ? 0.7 : 1,
+                      }}
+                    >
+                      {renderPlaylist(playlist, provided.dragHandleProps)}
+                    </div>
+                  )}
+                </Draggable>
+              ))}
+              {provided.placeholder}
+            </div>
+          )}
+        </Droppable>
+      )}
+    </>
+  )
+}
+
 // ── Playlist row — whole row is the drag handle ───────────────────────────────
 function PlaylistRow({
   playlist,
   dragHandle,
   onOpen,
   onEmojiClick,
+  selected,
+  selecting,
+  onToggleSelect,
 }: {
   playlist: {
     id: string
@@ -4032,12 +6006,27 @@ function PlaylistRow({
   dragHandle: React.HTMLAttributes<HTMLElement> | null | undefined
   onOpen: () => void
   onEmojiClick: () => void
+  selected: boolean
+  // Some playlist is selected, so every checkbox shows
+  selecting: boolean
+  onToggleSelect: () => void
 }) {
   return (
     <div
       {...(dragHandle ?? {})}
-      className="flex cursor-grab items-center rounded-xl transition-colors hover:bg-bg/50 active:cursor-grabbing"
+      className={`group flex cursor-grab items-center rounded-xl transition-colors hover:bg-bg/50 active:cursor-grabbing ${
+        selected ? 'bg-bg/50' : ''
+      }`}
     >
+      <input
+        type="checkbox"
+        checked={selected}
+        onChange={onToggleSelect}
+        onClick={(e) => e.stopPropagation()}
+        className={`ml-2 h-3 w-3 shrink-0 accent-black transition-opacity ${
+          selecting ? '' : 'opacity-0 group-hover:opacity-100'
+        }`}
+      />
       <button
         onClick={(e) => {
           e.stopPropagation()
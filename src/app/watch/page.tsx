@@ -2,6 +2,7 @@
 
 import { Suspense, useEffect } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
+import { forwardLoopParams } from '@/lib/deep-link'
 
 function WatchRedirect() {
   const searchParams = useSearchParams()
@@ -9,7 +10,8 @@ function WatchRedirect() {
   const v = searchParams.get('v')
 
   useEffect(() => {
-    router.replace(v ? `/?v=${v}` : '/')
+    // Keep t=, a=, b=, speed= etc. so YouTube-style and shared loop links survive
+    router.replace(v ? `/?${forwardLoopParams(new URLSearchParams(searchParams.toString()))}` : '/')
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
   return null
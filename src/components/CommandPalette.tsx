@@ -0,0 +1,100 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Folder, History, ListMusic, Music, Repeat, Search, StickyNote, Zap } from 'lucide-react'
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
+import type { Translations } from '@/lib/translations'
+import { type CommandItem, type CommandKind, searchCommands } from '@/lib/command-search'
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  items: CommandItem[]
+  t: Translations
+}
+
+const KIND_ICON = { action: Zap, playlist: ListMusic, folder: Folder, entry: Music, history: History, note: StickyNote, region: Repeat }
+
+const KIND_LABEL: Record<CommandKind, keyof Translations> = {
+  action: 'paletteAction',
+  playlist: 'palettePlaylist',
+  folder: 'paletteFolder',
+  entry: 'paletteSong',
+  history: 'history',
+  note: 'paletteNote',
+  region: 'paletteRegion',
+}
+
+// Ctrl/Cmd+K: one box to find anything in the library or run an action.
+// Arrow keys move through the results, Enter picks one.
+export function CommandPalette({ open, onOpenChange, items, t }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [active, setActive] = useState(0)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  const results = useMemo(() => searchCommands(items, query), [items, query])
+
+  useEffect(() => { if (open) setQuery('') }, [open])
+  useEffect(() => { setActive(0) }, [query])
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' })
+  }, [active])
+
+  const pick = (item: CommandItem | undefined) => {
+    if (!item) return
+    onOpenChange(false)
+    item.run()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-[20%] translate-y-0 gap-0 rounded-2xl border-2 border-black bg-white p-0 shadow-none sm:max-w-lg [&>button]:hidden">
+        <DialogTitle className="sr-only">{t.paletteTitle}</DialogTitle>
+        <div className="flex items-center gap-2 border-b-2 border-black px-3 py-2.5">
+          <Search className="h-4 w-4 shrink-0 text-stone-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowDown') {
+                e.preventDefault()
+                setActive((i) => Math.max(Math.min(i + 1, results.length - 1), 0))
+              } else if (e.key === 'ArrowUp') {
+                e.preventDefault()
+                setActive((i) => Math.max(i - 1, 0))
+              } else if (e.key === 'Enter') {
+                e.preventDefault()
+                pick(results[active])
+              }
+            }}
+            placeholder={t.palettePlaceholder}
+            className="min-w-0 flex-1 bg-transparent text-sm placeholder-stone-400 focus:outline-none"
+          />
+        </div>
+        <ul ref={listRef} className="max-h-80 overflow-y-auto p-1">
+          {results.length === 0 && <li className="px-3 py-4 text-center text-xs text-stone-400">{t.paletteNoResults}</li>}
+          {results.map((item, i) => {
+            const Icon = KIND_ICON[item.kind]
+            return (
+              <li key={item.id}>
+                <button
+                  onClick={() => pick(item)}
+                  onMouseMove={() => setActive(i)}
+                  className={`flex w-full items-center gap-2.5 rounded-xl px-2.5 py-2 text-left ${i === active ? 'bg-main' : ''}`}
+                >
+                  <Icon className="h-3.5 w-3.5 shrink-0 text-stone-500" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-xs font-bold text-stone-700">{item.label}</span>
+                    {item.detail && <span className="block truncate text-[10px] text-stone-500">{item.detail}</span>}
+                  </span>
+                  <span className="shrink-0 text-[10px] uppercase tracking-wider text-stone-400">{t[KIND_LABEL[item.kind]]}</span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { RotateCcw } from 'lucide-react'
+import type { Translations } from '@/lib/translations'
+import type { LoopRegion } from '@/lib/loop-points'
+import type { EntrySettings, PlaylistVideo } from '@/lib/use-playlists'
+import { MIN_SPEED, MAX_SPEED } from '@/lib/speed-trainer'
+
+interface EntrySettingsEditorProps {
+  entry: PlaylistVideo
+  // Regions saved for the entry's video
+  regions: LoopRegion[]
+  onChange: (patch: EntrySettings) => void
+  t: Translations
+}
+
+// Same 5% steps as the speed slider
+const SPEEDS = Array.from(
+  { length: Math.round((MAX_SPEED - MIN_SPEED) / 0.05) + 1 },
+  (_, i) => Math.round((MIN_SPEED + i * 0.05) * 100) / 100,
+)
+const VOLUMES = Array.from({ length: 21 }, (_, i) => i * 5)
+
+// Blank = no override
+const numberOrUndefined = (value: string) => (value === '' ? undefined : Number(value))
+
+// "0.75× · 80% · 3×" for the playlist row, or '' without overrides
+export function entrySummary(entry: PlaylistVideo, regions: LoopRegion[] = []): string {
+  const parts: string[] = []
+  if (entry.speed !== undefined) parts.push(`${entry.speed}×`)
+  if (entry.volume !== undefined) parts.push(`${entry.volume}%`)
+  if (entry.repeat) parts.push(`↻${entry.repeat}`)
+  const region = entry.regionId && regions.find((r) => r.id === entry.regionId)
+  if (region) parts.push(region.name)
+  return parts.join(' · ')
+}
+
+export function EntrySettingsEditor({ entry, regions, onChange, t }: EntrySettingsEditorProps) {
+  const field = 'flex items-center justify-between gap-2'
+  const input = 'w-20 rounded-md border border-black bg-white px-1.5 py-0.5 text-right'
+  const hasOverrides =
+    entry.speed !== undefined || entry.volume !== undefined || Boolean(entry.repeat) || Boolean(entry.regionId)
+
+  return (
+    <div className="mx-2 mb-1 space-y-1.5 rounded-xl border-2 border-black bg-[#FFD6BA] px-2.5 py-2 text-[10px] font-bold">
+      <label className={field}>
+        {t.entrySpeed}
+        <select
+          value={entry.speed ?? ''}
+          onChange={(e) => onChange({ speed: numberOrUndefined(e.target.value) })}
+          className={input}
+        >
+          <option value="">{t.entryDefault}</option>
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              {s}×
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={field}>
+        {t.entryVolume}
+        <select
+          value={entry.volume ?? ''}
+          onChange={(e) => onChange({ volume: numberOrUndefined(e.target.value) })}
+          className={input}
+        >
+          <option value="">{t.entryDefault}</option>
+          {VOLUMES.map((v) => (
+            <option key={v} value={v}>
+              {v}%
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={field}>
+        {t.entryRepeat}
+        <input
+          type="number"
+          min={1}
+          max={99}
+          value={entry.repeat ?? ''}
+          placeholder="1"
+          onChange={(e) => {
+            const v = Math.min(Math.round(Number(e.target.value)), 99)
+            // 1 (or blank) is the normal single play
+            onChange({ repeat: v > 1 ? v : undefined })
+          }}
+          className={input}
+        />
+      </label>
+      <label className={field}>
+        {t.entryRegion}
+        <select
+          value={entry.regionId ?? ''}
+          onChange={(e) => onChange({ regionId: e.target.value || undefined })}
+          disabled={regions.length === 0}
+          className="min-w-0 max-w-[9rem] truncate rounded-md border border-black bg-white px-1 py-0.5 disabled:opacity-50"
+        >
+          <option value="">{regions.length ? t.entryDefault : t.entryNoRegions}</option>
+          {regions.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {hasOverrides && (
+        <button
+          onClick={() => onChange({ speed: undefined, volume: undefined, repeat: undefined, regionId: undefined })}
+          className="flex items-center gap-1 text-stone-500 hover:text-black"
+        >
+          <RotateCcw className="h-2.5 w-2.5" />
+          {t.entryReset}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useMemo, useState, useEffect } from 'react'
+import { RefreshCw, X, Search, ListPlus, ListStart, ListEnd, Trash2, CheckSquare, Square } from 'lucide-react'
+import type { Translations } from '@/lib/translations'
+import type { LoopHistoryItem } from '@/lib/use-loop-history'
+import type { Playlist } from '@/lib/use-playlists'
+import { undoGroup } from '@/lib/undo'
+
+// Rows rendered per "show more"
+const PAGE_SIZE = 50
+
+interface HistoryPanelProps {
+  history: LoopHistoryItem[]
+  playlists: Playlist[]
+  onPlay: (videoId: string, title?: string) => void
+  onPlayNext: (videoId: string, title?: string) => void
+  onAddToQueue: (videoId: string, title?: string) => void
+  onRemove: (videoId: string) => void
+  onRemoveMany: (videoIds: string[]) => void
+  onClear: () => void
+  addToPlaylist: (playlistId: string, videoId: string, title?: string) => void
+  t: Translations
+}
+
+// <input type="date"> value ("2024-03-09") as local midnight
+const startOfDay = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : null)
+
+export function HistoryPanel({
+  history,
+  playlists,
+  onPlay,
+  onPlayNext,
+  onAddToQueue,
+  onRemove,
+  onRemoveMany,
+  onClear,
+  addToPlaylist,
+  t,
+}: HistoryPanelProps) {
+  const [query, setQuery] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    const after = startOfDay(from)
+    const toDay = startOfDay(to)
+    // Inclusive of the whole "to" day
+    const before = toDay === null ? null : new Date(toDay).setDate(new Date(toDay).getDate() + 1)
+    return history.filter(
+      (h) =>
+        (!q || (h.title ?? h.videoId).toLowerCase().includes(q)) &&
+        (after === null || h.lastPlayed >= after) &&
+        (before === null || h.lastPlayed < before),
+    )
+  }, [history, query, from, to])
+
+  useEffect(() => setLimit(PAGE_SIZE), [query, from, to])
+
+  // Forget selections that were deleted or filtered away
+  useEffect(() => {
+    setSelected((prev) => {
+      const visible = new Set(filtered.map((h) => h.videoId))
+      const next = new Set(Array.from(prev).filter((id) => visible.has(id)))
+      return next.size === prev.size ? prev : next
+    })
+  }, [filtered])
+
+  const toggle = (videoId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(videoId)) next.delete(videoId)
+      else next.add(videoId)
+      return next
+    })
+
+  const allSelected = filtered.length > 0 && selected.size === filtered.length
+  const filtering = Boolean(query || from || to)
+
+  const addSelected = (playlistId: string) => {
+    undoGroup('undoAddVideos', () => {
+      for (const h of filtered) {
+        if (selected.has(h.videoId)) addToPlaylist(playlistId, h.videoId, h.title)
+      }
+    })
+    setSelected(new Set())
+  }
+
+  const queueSelected = () => {
+    for (const h of filtered) {
+      if (selected.has(h.videoId)) onAddToQueue(h.videoId, h.title)
+    }
+    setSelected(new Set())
+  }
+
+  return (
+    <>
+      <div className="space-y-1.5 px-2 py-1.5">
+        <div className="flex items-center gap-1.5 rounded-xl border-2 border-black bg-white px-2 py-1">
+          <Search className="h-3 w-3 shrink-0 text-stone-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.historySearch}
+            className="min-w-0 flex-1 bg-transparent text-xs focus:outline-none"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="text-stone-400 hover:text-black">
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-1 text-[10px] text-stone-500">
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            title={t.historyFrom}
+            className="min-w-0 flex-1 rounded-lg border border-stone-300 bg-white px-1 py-0.5"
+          />
+          –
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            title={t.historyTo}
+            className="min-w-0 flex-1 rounded-lg border border-stone-300 bg-white px-1 py-0.5"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-1.5">
+        <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-400">
+          {filtered.length > 0 && (
+            <button
+              onClick={() => setSelected(allSelected ? new Set() : new Set(filtered.map((h) => h.videoId)))}
+              title={allSelected ? t.historySelectNone : t.historySelectAll}
+              className="text-stone-400 hover:text-black"
+            >
+              {allSelected ? <CheckSquare className="h-3 w-3" /> : <Square className="h-3 w-3" />}
+            </button>
+          )}
+          {filtering ? `${filtered.length} / ${history.length}` : `${t.history} · ${history.length}`}
+        </span>
+        {history.length > 0 && !filtering && (
+          <button
+            onClick={onClear}
+            className="text-[10px] text-stone-400 transition-colors hover:text-red-400"
+          >
+            {t.clearHistory}
+          </button>
+        )}
+      </div>
+
+      {selected.size > 0 && (
+        <div className="mx-2 mb-1.5 flex items-center gap-1.5 rounded-xl border-2 border-black bg-[#FFD6BA] px-2 py-1 text-[10px] font-bold">
+          <span className="shrink-0">{selected.size} {t.historySelected}</span>
+          {playlists.length > 0 && (
+            <label className="flex min-w-0 flex-1 items-center gap-1">
+              <ListPlus className="h-3 w-3 shrink-0" />
+              <select
+                value=""
+                onChange={(e) => e.target.value && addSelected(e.target.value)}
+                className="min-w-0 flex-1 truncate rounded-md border border-black bg-white px-1 py-0.5"
+              >
+                <option value="">{t.historyAddToPlaylist}</option>
+                {playlists.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.emoji ? `${p.emoji} ` : ''}{p.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            onClick={queueSelected}
+            title={t.addToQueue}
+            className="ml-auto shrink-0 rounded-md p-0.5 hover:bg-white"
+          >
+            <ListEnd className="h-3 w-3" />
+          </button>
+          <button
+            onClick={() => onRemoveMany(Array.from(selected))}
+            title={t.historyDeleteSelected}
+            className="shrink-0 rounded-md p-0.5 hover:bg-white hover:text-red-500"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {filtered.length === 0 && (
+        <p className="px-3 py-1 text-xs text-stone-400">
+          {filtering ? t.historyNoMatches : 'Nothing looped yet'}
+        </p>
+      )}
+      <div className="space-y-1 px-1">
+        {filtered.slice(0, limit).map((item) => (
+          <div
+            key={item.videoId}
+            className={`group flex items-center gap-2 rounded-xl px-2 py-1 transition-colors hover:bg-bg/50 ${
+              selected.has(item.videoId) ? 'bg-bg/50' : ''
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={selected.has(item.videoId)}
+              onChange={() => toggle(item.videoId)}
+              className={`h-3 w-3 shrink-0 accent-black transition-opacity ${
+                selected.size ? '' : 'opacity-0 group-hover:opacity-100'
+              }`}
+            />
+            <img
+              src={`https://i.ytimg.com/vi/${item.videoId}/default.jpg`}
+              alt=""
+              loading="lazy"
+              className="h-8 w-11 shrink-0 rounded-lg object-cover opacity-70 transition-opacity group-hover:opacity-100"
+            />
+            <button
+              onClick={() => onPlay(item.videoId, item.title)}
+              className="min-w-0 flex-1 text-left"
+            >
+              <p className="truncate text-[11px] text-stone-600 transition-colors group-hover:text-black">
+                {item.title || item.videoId}
+              </p>
+              <p className="mt-0.5 flex items-center gap-1 text-[10px] text-stone-400">
+                <RefreshCw className="h-2 w-2" />
+                {item.loopCount}x · {new Date(item.lastPlayed).toLocaleDateString()}
+              </p>
+            </button>
+            <button
+              onClick={() => onPlayNext(item.videoId, item.title)}
+              title={t.playNext}
+              className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-black group-hover:opacity-100"
+            >
+              <ListStart className="h-3 w-3" />
+            </button>
+            <button
+              onClick={() => onAddToQueue(item.videoId, item.title)}
+              title={t.addToQueue}
+              className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-black group-hover:opacity-100"
+            >
+              <ListEnd className="h-3 w-3" />
+            </button>
+            <button
+              onClick={() => onRemove(item.videoId)}
+              className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-red-400 group-hover:opacity-100"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+      {filtered.length > limit && (
+        <button
+          onClick={() => setLimit((l) => l + PAGE_SIZE)}
+          className="mx-auto mt-2 block rounded-xl border-2 border-black bg-white px-3 py-1 text-[10px] font-bold shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all hover:shadow-none"
+        >
+          {t.historyShowMore} ({filtered.length - limit})
+        </button>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,326 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { ZoomIn, ZoomOut, Scan, Maximize2 } from 'lucide-react'
+import { type LoopRegion, formatTimestamp, parseLoopTime } from '@/lib/loop-points'
+
+// Narrowest window the timeline will zoom into, in seconds
+const MIN_SPAN = 1
+// Ruler intervals, smallest first; the first one giving ≤ MAX_TICKS ticks wins
+const TICK_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 1800]
+const MAX_TICKS = 8
+
+type Range = [number, number]
+type DragMode = 'a' | 'b' | 'range' | 'seek'
+
+interface LoopTimelineProps {
+  duration: number
+  start: number
+  end: number
+  currentTime: number
+  regions: LoopRegion[]
+  activeRegionId: string | null
+  step: number
+  minLength: number
+  onDrag: (range: Range | null) => void
+  onCommit: (start: number, end: number) => void
+  onSeek: (seconds: number) => void
+  onSelectRegion: (regionId: string) => void
+}
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(Math.max(v, lo), hi)
+
+export function LoopTimeline({
+  duration,
+  start,
+  end,
+  currentTime,
+  regions,
+  activeRegionId,
+  step,
+  minLength,
+  onDrag,
+  onCommit,
+  onSeek,
+  onSelectRegion,
+}: LoopTimelineProps) {
+  const [view, setView] = useState<Range>([0, duration])
+  const [drag, setDrag] = useState<Range | null>(null)
+  const laneRef = useRef<HTMLDivElement>(null)
+  const minimapRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ mode: DragMode; originX: number; originTime: number; range: Range } | null>(null)
+  const pointersRef = useRef<Map<number, number>>(new Map())
+  const pinchRef = useRef<number | null>(null)
+
+  // New video → show the whole thing again
+  useEffect(() => { setView([0, duration]) }, [duration])
+
+  const span = view[1] - view[0]
+  const [selStart, selEnd] = drag ?? [start, end]
+  const snap = useCallback((t: number) => Math.round(t / step) * step, [step])
+
+  const setViewClamped = useCallback((from: number, nextSpan: number) => {
+    const s = clamp(nextSpan, Math.min(MIN_SPAN, duration), duration)
+    const f = clamp(from, 0, duration - s)
+    setView([f, f + s])
+  }, [duration])
+
+  // Zoom by `factor` (<1 zooms in) keeping `anchor` fixed on screen
+  const zoomAt = useCallback((factor: number, anchor: number) => {
+    setView(([from, to]) => {
+      const cur = to - from
+      const s = clamp(cur * factor, Math.min(MIN_SPAN, duration), duration)
+      const f = clamp(anchor - ((anchor - from) * s) / cur, 0, duration - s)
+      return [f, f + s]
+    })
+  }, [duration])
+
+  const timeAtX = useCallback((clientX: number) => {
+    const rect = laneRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return 0
+    return view[0] + ((clientX - rect.left) / rect.width) * span
+  }, [view, span])
+
+  // Wheel: vertical scroll / trackpad pinch (ctrlKey) zooms, horizontal or
+  // shift+scroll pans. Registered natively so preventDefault stops page scroll.
+  useEffect(() => {
+    const lane = laneRef.current
+    if (!lane) return
+    const handler = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = lane.getBoundingClientRect()
+      const horizontal = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)
+      if (horizontal && !e.ctrlKey) {
+        const delta = e.shiftKey ? e.deltaY : e.deltaX
+        setView(([from, to]) => {
+          const s = to - from
+          const f = clamp(from + (delta / rect.width) * s, 0, duration - s)
+          return [f, f + s]
+        })
+        return
+      }
+      const anchor = view[0] + ((e.clientX - rect.left) / rect.width) * span
+      zoomAt(Math.exp(e.deltaY * (e.ctrlKey ? 0.01 : 0.002)), anchor)
+    }
+    lane.addEventListener('wheel', handler, { passive: false })
+    return () => lane.removeEventListener('wheel', handler)
+  }, [view, span, duration, zoomAt])
+
+  // ── Lane pointer handling: handles, range body, click-to-seek, pinch ──────
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    laneRef.current?.setPointerCapture(e.pointerId)
+    pointersRef.current.set(e.pointerId, e.clientX)
+    if (pointersRef.current.size === 2) {
+      const [x1, x2] = Array.from(pointersRef.current.values())
+      pinchRef.current = Math.abs(x2 - x1)
+      dragRef.current = null
+      setDrag(null)
+      onDrag(null)
+      return
+    }
+    const mode = ((e.target as HTMLElement).dataset.handle as DragMode | undefined) ?? 'seek'
+    dragRef.current = { mode, originX: e.clientX, originTime: timeAtX(e.clientX), range: [start, end] }
+  }
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return
+    pointersRef.current.set(e.pointerId, e.clientX)
+    if (pinchRef.current !== null && pointersRef.current.size === 2) {
+      const [x1, x2] = Array.from(pointersRef.current.values())
+      const dist = Math.abs(x2 - x1)
+      if (dist > 0) zoomAt(pinchRef.current / dist, timeAtX((x1 + x2) / 2))
+      pinchRef.current = dist
+      return
+    }
+    const d = dragRef.current
+    if (!d || d.mode === 'seek') return
+    const t = timeAtX(e.clientX)
+    const [a, b] = d.range
+    let next: Range
+    if (d.mode === 'a') next = [clamp(snap(t), 0, b - minLength), b]
+    else if (d.mode === 'b') next = [a, clamp(snap(t), a + minLength, duration)]
+    else {
+      const shift = clamp(snap(t - d.originTime), -a, duration - b)
+      next = [a + shift, b + shift]
+    }
+    setDrag(next)
+    onDrag(next)
+  }
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId)
+    if (pinchRef.current !== null) {
+      if (pointersRef.current.size < 2) pinchRef.current = null
+      return
+    }
+    const d = dragRef.current
+    dragRef.current = null
+    if (!d) return
+    if (d.mode === 'seek') {
+      if (Math.abs(e.clientX - d.originX) < 4) onSeek(clamp(timeAtX(e.clientX), 0, duration))
+      return
+    }
+    if (drag) onCommit(drag[0], drag[1])
+    setDrag(null)
+    onDrag(null)
+  }
+
+  const nudge = (which: 'a' | 'b', delta: number) => {
+    if (which === 'a') onCommit(clamp(start + delta, 0, end - minLength), end)
+    else onCommit(start, clamp(end + delta, start + minLength, duration))
+  }
+
+  const onHandleKeyDown = (which: 'a' | 'b') => (e: React.KeyboardEvent) => {
+    const amount = e.shiftKey ? 1 : step
+    if (e.key === 'ArrowLeft') { e.preventDefault(); e.stopPropagation(); nudge(which, -amount) }
+    if (e.key === 'ArrowRight') { e.preventDefault(); e.stopPropagation(); nudge(which, amount) }
+  }
+
+  // ── Minimap: click or drag to move the zoomed window ──────────────────────
+  const panMinimapTo = (clientX: number) => {
+    const rect = minimapRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return
+    const center = ((clientX - rect.left) / rect.width) * duration
+    setViewClamped(center - span / 2, span)
+  }
+
+  const pct = (t: number) => `${((t - view[0]) / span) * 100}%`
+  const fullPct = (t: number) => `${(t / duration) * 100}%`
+  const tickStep = TICK_STEPS.find((s) => span / s <= MAX_TICKS) ?? TICK_STEPS[TICK_STEPS.length - 1]
+  const ticks: number[] = []
+  for (let t = Math.ceil(view[0] / tickStep) * tickStep; t <= view[1]; t += tickStep) ticks.push(t)
+  const zoomed = span < duration - 0.001
+
+  const btn = 'rounded-lg border-2 border-black bg-white p-1 transition-all hover:bg-main disabled:opacity-40 disabled:hover:bg-white'
+
+  return (
+    <div className="flex w-full flex-col gap-1.5">
+      {/* Ruler */}
+      <div className="relative h-3 w-full overflow-hidden text-[8px] font-bold text-stone-400">
+        {ticks.map((t) => (
+          <span key={t.toFixed(3)} className="absolute -translate-x-1/2 tabular-nums" style={{ left: pct(t) }}>
+            {formatTimestamp(t)}
+          </span>
+        ))}
+      </div>
+
+      {/* Main lane */}
+      <div
+        ref={laneRef}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        className="relative h-12 w-full cursor-crosshair touch-none select-none overflow-hidden rounded-xl border-2 border-black bg-stone-100"
+      >
+        {ticks.map((t) => (
+          <div key={t.toFixed(3)} className="pointer-events-none absolute inset-y-0 w-px bg-stone-300" style={{ left: pct(t) }} />
+        ))}
+        {regions
+          .filter((r) => r.id !== activeRegionId)
+          .map((r) => {
+            const rs = parseLoopTime(r.start)
+            const re = r.end ? parseLoopTime(r.end) : duration
+            return (
+              <div
+                key={r.id}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onSelectRegion(r.id)}
+                title={r.name}
+                className="absolute bottom-0 h-2 cursor-pointer border-x border-t border-black opacity-60 hover:opacity-100"
+                style={{ left: pct(rs), width: `${((re - rs) / span) * 100}%`, backgroundColor: r.color }}
+              />
+            )
+          })}
+        <div
+          data-handle="range"
+          className="absolute inset-y-0 cursor-grab border-x-2 border-black bg-main/70 active:cursor-grabbing"
+          style={{ left: pct(selStart), width: `${((selEnd - selStart) / span) * 100}%` }}
+        />
+        <div
+          data-handle="a"
+          role="slider"
+          tabIndex={0}
+          aria-label="Loop start"
+          aria-valuenow={selStart}
+          onKeyDown={onHandleKeyDown('a')}
+          className="absolute inset-y-0 z-10 w-3 -translate-x-1/2 cursor-ew-resize rounded-md border-2 border-black bg-white focus:outline-none focus:ring-2 focus:ring-main"
+          style={{ left: pct(selStart) }}
+        />
+        <div
+          data-handle="b"
+          role="slider"
+          tabIndex={0}
+          aria-label="Loop end"
+          aria-valuenow={selEnd}
+          onKeyDown={onHandleKeyDown('b')}
+          className="absolute inset-y-0 z-10 w-3 -translate-x-1/2 cursor-ew-resize rounded-md border-2 border-black bg-white focus:outline-none focus:ring-2 focus:ring-main"
+          style={{ left: pct(selEnd) }}
+        />
+        {currentTime >= view[0] && currentTime <= view[1] && (
+          <div className="pointer-events-none absolute inset-y-0 z-20 w-0.5 bg-red-500" style={{ left: pct(currentTime) }} />
+        )}
+      </div>
+
+      {/* Minimap + zoom controls */}
+      <div className="flex items-center gap-1.5">
+        <div
+          ref={minimapRef}
+          onPointerDown={(e) => {
+            minimapRef.current?.setPointerCapture(e.pointerId)
+            panMinimapTo(e.clientX)
+          }}
+          onPointerMove={(e) => {
+            if (minimapRef.current?.hasPointerCapture(e.pointerId)) panMinimapTo(e.clientX)
+          }}
+          className="relative h-4 flex-1 cursor-pointer touch-none overflow-hidden rounded-md border border-black bg-stone-100"
+        >
+          {regions.map((r) => {
+            const rs = parseLoopTime(r.start)
+            const re = r.end ? parseLoopTime(r.end) : duration
+            return (
+              <div
+                key={r.id}
+                className="pointer-events-none absolute bottom-0 h-1"
+                style={{ left: fullPct(rs), width: `${((re - rs) / duration) * 100}%`, backgroundColor: r.color }}
+              />
+            )
+          })}
+          <div
+            className="pointer-events-none absolute inset-y-0 bg-main"
+            style={{ left: fullPct(selStart), width: `${((selEnd - selStart) / duration) * 100}%` }}
+          />
+          <div
+            className="pointer-events-none absolute inset-y-0 w-px bg-red-500"
+            style={{ left: fullPct(clamp(currentTime, 0, duration)) }}
+          />
+          {zoomed && (
+            <div
+              className="pointer-events-none absolute inset-y-0 rounded-sm border-2 border-black bg-black/10"
+              style={{ left: fullPct(view[0]), width: `${(span / duration) * 100}%` }}
+            />
+          )}
+        </div>
+        <button onClick={() => zoomAt(0.5, view[0] + span / 2)} disabled={span <= MIN_SPAN} className={btn} title="Zoom in">
+          <ZoomIn className="h-3 w-3" />
+        </button>
+        <button onClick={() => zoomAt(2, view[0] + span / 2)} disabled={!zoomed} className={btn} title="Zoom out">
+          <ZoomOut className="h-3 w-3" />
+        </button>
+        <button
+          onClick={() => {
+            const pad = Math.max((end - start) * 0.15, 0.25)
+            setViewClamped(start - pad, end - start + pad * 2)
+          }}
+          className={btn}
+          title="Zoom to loop"
+        >
+          <Scan className="h-3 w-3" />
+        </button>
+        <button onClick={() => setView([0, duration])} disabled={!zoomed} className={btn} title="Show whole video">
+          <Maximize2 className="h-3 w-3" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -19,8 +19,12 @@ import {
   FORMAT_TEXT_COMMAND,
   UNDO_COMMAND,
   REDO_COMMAND,
+  KEY_DOWN_COMMAND,
+  COMMAND_PRIORITY_LOW,
   $getSelection,
   $isRangeSelection,
+  $insertNodes,
+  $createTextNode,
   type EditorState,
   type LexicalEditor,
 } from 'lexical'
@@ -42,10 +46,45 @@ import {
   Code2,
   Undo2,
   Redo2,
+  Clock,
 } from 'lucide-react'
+import { TimestampNode, TimestampContext, TIMESTAMP, $createTimestampNode } from './TimestampNode'
+
+const NOTE_TRANSFORMERS = [TIMESTAMP, ...TRANSFORMERS]
+
+// ── Timestamps ──────────────────────────────────────────────────────────────
+function insertTimestamp(editor: LexicalEditor, seconds: number) {
+  editor.update(() => {
+    // Trailing space so typing continues after the chip, not inside it
+    $insertNodes([$createTimestampNode(Math.round(seconds * 10) / 10), $createTextNode(' ')])
+  })
+}
+
+// Alt+T drops a timestamp at the current playback position
+function TimestampShortcutPlugin({ getCurrentTime }: { getCurrentTime: () => number }) {
+  const [editor] = useLexicalComposerContext()
+
+  useEffect(
+    () =>
+      editor.registerCommand(
+        KEY_DOWN_COMMAND,
+        (e: KeyboardEvent) => {
+          // e.code, since Option+T on macOS reports key '†'
+          if (!e.altKey || e.ctrlKey || e.metaKey || e.code !== 'KeyT') return false
+          e.preventDefault()
+          insertTimestamp(editor, getCurrentTime())
+          return true
+        },
+        COMMAND_PRIORITY_LOW,
+      ),
+    [editor, getCurrentTime],
+  )
+
+  return null
+}
 
 // ── Toolbar ─────────────────────────────────────────────────────────────────
-function Toolbar() {
+function Toolbar({ getCurrentTime }: { getCurrentTime?: () => number }) {
   const [editor] = useLexicalComposerContext()
 
   const format = (type: 'bold' | 'italic' | 'strikethrough' | 'underline' | 'code') => {
@@ -105,6 +144,14 @@ function Toolbar() {
       <button onClick={() => editor.dispatchCommand(INSERT_ORDERED_LIST_COMMAND, undefined)} className={btn} title="Numbered list">
         <ListOrdered className="h-3.5 w-3.5" />
       </button>
+      {getCurrentTime && (
+        <>
+          <div className="mx-1 h-4 w-px bg-stone-200" />
+          <button onClick={() => insertTimestamp(editor, getCurrentTime())} className={btn} title="Insert timestamp (Alt+T)">
+            <Clock className="h-3.5 w-3.5" />
+          </button>
+        </>
+      )}
       <div className="ml-auto pl-2 text-[10px] text-stone-300">
         markdown shortcuts supported
       </div>
@@ -125,7 +172,7 @@ function SavePlugin({
   const handleChange = useCallback(
     (editorState: EditorState) => {
       editorState.read(() => {
-        const md = $convertToMarkdownString(TRANSFORMERS)
+        const md = $convertToMarkdownString(NOTE_TRANSFORMERS)
         onChange(md)
         onSaveStatus('saving')
         if (timerRef.current) clearTimeout(timerRef.current)
@@ -146,20 +193,32 @@ interface NoteEditorProps {
   initialMarkdown: string
   onChange: (md: string) => void
   onSaveStatus?: (status: 'saving' | 'saved') => void
+  // Timestamp support; without getCurrentTime there's nothing to insert
+  getCurrentTime?: () => number
+  onSeek?: (seconds: number) => void
+  onLoopAround?: (seconds: number) => void
 }
 
 function editorStateFromMarkdown(markdown: string) {
   return (editor: LexicalEditor) => {
     editor.update(() => {
-      $convertFromMarkdownString(markdown, TRANSFORMERS)
+      $convertFromMarkdownString(markdown, NOTE_TRANSFORMERS)
     })
   }
 }
 
-export function NoteEditor({ videoId, initialMarkdown, onChange, onSaveStatus }: NoteEditorProps) {
+export function NoteEditor({
+  videoId,
+  initialMarkdown,
+  onChange,
+  onSaveStatus,
+  getCurrentTime,
+  onSeek,
+  onLoopAround,
+}: NoteEditorProps) {
   const initialConfig = {
     namespace: `note-${videoId}`,
-    nodes: [HeadingNode, QuoteNode, CodeNode, CodeHighlightNode, ListNode, ListItemNode, LinkNode],
+    nodes: [HeadingNode, QuoteNode, CodeNode, CodeHighlightNode, ListNode, ListItemNode, LinkNode, TimestampNode],
     editorState: editorStateFromMarkdown(initialMarkdown),
     onError: (err: Error) => console.error(err),
     theme: {
@@ -188,24 +247,27 @@ export function NoteEditor({ videoId, initialMarkdown, onChange, onSaveStatus }:
   return (
     // key=videoId forces full remount when switching videos → loads correct note
     <LexicalComposer key={videoId} initialConfig={initialConfig}>
-      <Toolbar />
-      <div className="relative">
-        <RichTextPlugin
-          contentEditable={
-            <ContentEditable className="min-h-[120px] px-4 py-3 focus:outline-none" />
-          }
-          placeholder={
-            <div className="pointer-events-none absolute left-4 top-3 text-sm text-stone-300">
-              Add notes for this video… (supports **bold**, # headings, - lists, `code`)
-            </div>
-          }
-          ErrorBoundary={LexicalErrorBoundary}
-        />
-      </div>
-      <HistoryPlugin />
-      <ListPlugin />
-      <MarkdownShortcutPlugin transformers={TRANSFORMERS} />
-      <SavePlugin onChange={onChange} onSaveStatus={onSaveStatus ?? (() => {})} />
+      <TimestampContext.Provider value={{ onSeek, onLoopAround }}>
+        <Toolbar getCurrentTime={getCurrentTime} />
+        <div className="relative">
+          <RichTextPlugin
+            contentEditable={
+              <ContentEditable className="min-h-[120px] px-4 py-3 focus:outline-none" />
+            }
+            placeholder={
+              <div className="pointer-events-none absolute left-4 top-3 text-sm text-stone-300">
+                Add notes for this video… (supports **bold**, # headings, - lists, `code`)
+              </div>
+            }
+            ErrorBoundary={LexicalErrorBoundary}
+          />
+        </div>
+        <HistoryPlugin />
+        <ListPlugin />
+        <MarkdownShortcutPlugin transformers={NOTE_TRANSFORMERS} />
+        {getCurrentTime && <TimestampShortcutPlugin getCurrentTime={getCurrentTime} />}
+        <SavePlugin onChange={onChange} onSaveStatus={onSaveStatus ?? (() => {})} />
+      </TimestampContext.Provider>
     </LexicalComposer>
   )
 }
@@ -0,0 +1,188 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRecordHotkeys } from 'react-hotkeys-hook'
+import { Plus, RotateCcw, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Kbd } from '@/components/ui/kbd'
+import type { Translations } from '@/lib/translations'
+import {
+  type ShortcutAction,
+  type ShortcutMap,
+  DEFAULT_SHORTCUTS,
+  SHORTCUTS,
+  comboFromRecorded,
+  comboKeys,
+  conflictFor,
+  findConflicts,
+  isMac,
+  normalizeCombo,
+} from '@/lib/shortcuts'
+
+interface ShortcutSettingsProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ShortcutMap
+  onRebind: (changes: Partial<ShortcutMap>) => void
+  onReset: () => void
+  t: Translations
+}
+
+// A combo waiting for the user to confirm taking it from another action
+interface PendingCombo {
+  action: ShortcutAction
+  combo: string
+  from: ShortcutAction
+}
+
+const LABELS = Object.fromEntries(SHORTCUTS.map((s) => [s.action, s.label])) as Record<ShortcutAction, keyof Translations>
+
+export function ComboKeys({ combo }: { combo: string }) {
+  const keys = comboKeys(combo, isMac())
+  return (
+    <span className="flex items-center gap-1">
+      {keys.map((k, i) => (
+        <span key={i} className="flex items-center gap-1">
+          <Kbd>{k}</Kbd>
+          {i < keys.length - 1 && <span className="text-[10px] text-stone-400">+</span>}
+        </span>
+      ))}
+    </span>
+  )
+}
+
+// Rebind any action: + records a new combo, × removes one. A combo another
+// action already uses is only taken over once confirmed. The app's own
+// shortcuts are off while this is open, so recording doesn't trigger them.
+export function ShortcutSettings({ open, onOpenChange, bindings, onRebind, onReset, t }: ShortcutSettingsProps) {
+  const [recordingFor, setRecordingFor] = useState<ShortcutAction | null>(null)
+  const [pending, setPending] = useState<PendingCombo | null>(null)
+  const [keys, { start, stop }] = useRecordHotkeys()
+  const conflicts = findConflicts(bindings)
+
+  useEffect(() => {
+    if (!recordingFor) return
+    if (keys.has('escape')) {
+      stop()
+      setRecordingFor(null)
+      return
+    }
+    const combo = comboFromRecorded(keys)
+    if (!combo) return
+    stop()
+    setRecordingFor(null)
+    const current = bindings[recordingFor]
+    if (current.some((k) => normalizeCombo(k) === combo)) return
+    const from = conflictFor(bindings, recordingFor, combo)
+    if (from) setPending({ action: recordingFor, combo, from })
+    else onRebind({ [recordingFor]: [...current, combo] })
+  }, [keys, recordingFor, bindings, stop, onRebind])
+
+  useEffect(() => {
+    if (open) return
+    stop()
+    setRecordingFor(null)
+    setPending(null)
+  }, [open, stop])
+
+  const record = (action: ShortcutAction) => {
+    setPending(null)
+    setRecordingFor(action)
+    start()
+  }
+
+  const takeOver = ({ action, combo, from }: PendingCombo) => {
+    onRebind({
+      [from]: bindings[from].filter((k) => normalizeCombo(k) !== combo),
+      [action]: [...bindings[action], combo],
+    })
+    setPending(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        onEscapeKeyDown={(e) => { if (recordingFor) e.preventDefault() }}
+        className="max-h-[85vh] overflow-y-auto rounded-2xl border-2 border-black bg-white shadow-none sm:max-w-lg"
+      >
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold">{t.shortcutsTitle}</DialogTitle>
+        </DialogHeader>
+        <p className="text-xs text-stone-500">{t.shortcutsIntro}</p>
+        <div className="divide-y divide-stone-100">
+          {SHORTCUTS.map(({ action, label }) => {
+            const combos = bindings[action]
+            const changed = combos.join(',') !== DEFAULT_SHORTCUTS[action].join(',')
+            return (
+              <div key={action} className="py-2">
+                <div className="flex items-center gap-2">
+                  <span className={`min-w-0 flex-1 text-sm ${conflicts.has(action) ? 'text-red-500' : 'text-stone-600'}`}>
+                    {t[label]}
+                  </span>
+                  <div className="flex flex-wrap items-center justify-end gap-1.5">
+                    {combos.length === 0 && recordingFor !== action && (
+                      <span className="text-[11px] text-stone-400">{t.shortcutsNone}</span>
+                    )}
+                    {combos.map((combo) => (
+                      <span key={combo} className="group flex items-center gap-0.5">
+                        <ComboKeys combo={combo} />
+                        <button
+                          onClick={() => onRebind({ [action]: combos.filter((k) => k !== combo) })}
+                          className="rounded p-0.5 text-stone-300 opacity-0 transition-all hover:text-red-400 group-hover:opacity-100"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    {recordingFor === action ? (
+                      <span className="animate-pulse rounded-md border-2 border-black bg-main px-1.5 text-[11px] font-bold">
+                        {t.shortcutsRecording}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => record(action)}
+                        title={t.shortcutsAdd}
+                        className="rounded-md border border-stone-200 p-0.5 text-stone-400 transition-colors hover:border-black hover:text-black"
+                      >
+                        <Plus className="h-3 w-3" />
+                      </button>
+                    )}
+                    {changed && (
+                      <button
+                        onClick={() => onRebind({ [action]: DEFAULT_SHORTCUTS[action] })}
+                        title={t.shortcutsReset}
+                        className="rounded-md p-0.5 text-stone-400 transition-colors hover:text-black"
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {pending?.action === action && (
+                  <div className="mt-1.5 flex items-center gap-2 rounded-lg bg-[#FFD6BA] px-2 py-1 text-[11px]">
+                    <ComboKeys combo={pending.combo} />
+                    <span className="min-w-0 flex-1 truncate">
+                      {t.shortcutsConflict} {t[LABELS[pending.from]]}
+                    </span>
+                    <button onClick={() => takeOver(pending)} className="font-bold underline">
+                      {t.shortcutsTakeOver}
+                    </button>
+                    <button onClick={() => setPending(null)} className="text-stone-500 hover:text-black">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <button
+          onClick={onReset}
+          className="self-start rounded-xl border-2 border-black px-3 py-1.5 text-xs font-bold transition-colors hover:bg-main"
+        >
+          {t.shortcutsResetAll}
+        </button>
+      </DialogContent>
+    </Dialog>
+  )
+}
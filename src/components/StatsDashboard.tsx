@@ -0,0 +1,212 @@
+'use client'
+
+import { useMemo, useState, type ReactNode } from 'react'
+import { Download, Flame, Clock, Repeat, CalendarDays } from 'lucide-react'
+import type { Translations } from '@/lib/translations'
+import type { PracticeSession } from '@/lib/use-practice-sessions'
+import type { Playlist } from '@/lib/use-playlists'
+import {
+  dayKey,
+  totalsByVideo,
+  totalsByPlaylist,
+  secondsByDay,
+  currentStreak,
+  longestStreak,
+  speedProgression,
+  formatDuration,
+  sessionsToCsv,
+} from '@/lib/practice-stats'
+
+// Weeks shown in the streak calendar
+const CALENDAR_WEEKS = 20
+const TOP_VIDEOS = 8
+
+interface StatsDashboardProps {
+  sessions: PracticeSession[]
+  playlists: Playlist[]
+  t: Translations
+}
+
+function Tile({ icon, label, value }: { icon: ReactNode; label: string; value: string }) {
+  return (
+    <div className="rounded-xl border-2 border-black bg-white p-3">
+      <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-stone-400">
+        {icon}
+        {label}
+      </div>
+      <div className="mt-1 text-lg font-bold">{value}</div>
+    </div>
+  )
+}
+
+function Bar({ label, value, max, detail }: { label: string; value: number; max: number; detail: string }) {
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-baseline justify-between gap-2 text-xs">
+        <span className="truncate font-bold">{label}</span>
+        <span className="shrink-0 font-mono text-[10px] text-stone-500">{detail}</span>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full border border-black bg-stone-100">
+        <div className="h-full bg-main" style={{ width: `${max ? (value / max) * 100 : 0}%` }} />
+      </div>
+    </div>
+  )
+}
+
+// GitHub-style grid: a column per week, Monday at the top
+function StreakCalendar({ days }: { days: Record<string, number> }) {
+  const cells = useMemo(() => {
+    const today = new Date()
+    today.setHours(12, 0, 0, 0)
+    const mondayOffset = (today.getDay() + 6) % 7
+    const first = new Date(today)
+    first.setDate(today.getDate() - mondayOffset - (CALENDAR_WEEKS - 1) * 7)
+    const out: { key: string; seconds: number; future: boolean }[] = []
+    for (let i = 0; i < CALENDAR_WEEKS * 7; i++) {
+      const d = new Date(first)
+      d.setDate(first.getDate() + i)
+      const key = dayKey(d.getTime())
+      out.push({ key, seconds: days[key] ?? 0, future: d > today })
+    }
+    return out
+  }, [days])
+
+  const shade = (seconds: number) =>
+    seconds === 0 ? 'bg-stone-100' : seconds < 600 ? 'bg-[#FFD6BA]' : seconds < 1800 ? 'bg-[#ffb07a]' : 'bg-[#f97316]'
+
+  return (
+    <div className="grid grid-flow-col grid-rows-7 gap-[3px]">
+      {cells.map((c) => (
+        <div
+          key={c.key}
+          title={c.future ? undefined : `${c.key}: ${formatDuration(c.seconds)}`}
+          className={`h-3 w-3 rounded-[3px] border border-black/20 ${c.future ? 'invisible' : shade(c.seconds)}`}
+        />
+      ))}
+    </div>
+  )
+}
+
+function SpeedChart({ points, t }: { points: { startedAt: number; speed: number }[]; t: Translations }) {
+  if (points.length < 2) return <p className="py-6 text-center text-xs text-stone-400">{t.statsSpeedEmpty}</p>
+  const width = 560
+  const height = 140
+  const pad = 24
+  const speeds = points.map((p) => p.speed)
+  const min = Math.min(...speeds, 1) - 0.05
+  const max = Math.max(...speeds, 1) + 0.05
+  const x = (i: number) => pad + (i / (points.length - 1)) * (width - pad * 2)
+  const y = (speed: number) => height - pad - ((speed - min) / (max - min)) * (height - pad * 2)
+  const path = points.map((p, i) => `${i ? 'L' : 'M'}${x(i).toFixed(1)},${y(p.speed).toFixed(1)}`).join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="h-36 w-full">
+      {/* 1× reference line */}
+      <line x1={pad} x2={width - pad} y1={y(1)} y2={y(1)} stroke="#d6d3d1" strokeDasharray="4 4" />
+      <text x={4} y={y(1) + 3} className="fill-stone-400 text-[9px]">1×</text>
+      <path d={path} fill="none" stroke="black" strokeWidth={2} />
+      {points.map((p, i) => (
+        <circle key={i} cx={x(i)} cy={y(p.speed)} r={3} fill="#FFD6BA" stroke="black">
+          <title>{`${new Date(p.startedAt).toLocaleDateString()}: ${p.speed.toFixed(2)}×`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+export function StatsDashboard({ sessions, playlists, t }: StatsDashboardProps) {
+  const [speedVideo, setSpeedVideo] = useState('')
+  const videos = useMemo(() => totalsByVideo(sessions), [sessions])
+  const byPlaylist = useMemo(() => totalsByPlaylist(sessions, playlists), [sessions, playlists])
+  const days = useMemo(() => secondsByDay(sessions), [sessions])
+  const speeds = useMemo(() => speedProgression(sessions, speedVideo || undefined), [sessions, speedVideo])
+  const totalSeconds = videos.reduce((sum, v) => sum + v.seconds, 0)
+  const totalLoops = videos.reduce((sum, v) => sum + v.loops, 0)
+
+  const exportCsv = () => {
+    const blob = new Blob([sessionsToCsv(sessions)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'yol-sessions.csv'
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (sessions.length === 0) {
+    return <p className="py-10 text-center text-sm text-stone-400">{t.statsEmpty}</p>
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Tile icon={<Clock className="h-3 w-3" />} label={t.statsTotalTime} value={formatDuration(totalSeconds)} />
+        <Tile icon={<Repeat className="h-3 w-3" />} label={t.statsLoops} value={totalLoops.toString()} />
+        <Tile icon={<Flame className="h-3 w-3" />} label={t.statsStreak} value={`${currentStreak(days)}`} />
+        <Tile icon={<CalendarDays className="h-3 w-3" />} label={t.statsBestStreak} value={`${longestStreak(days)}`} />
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-xs font-bold text-stone-600">{t.statsCalendar}</h3>
+        <div className="overflow-x-auto">
+          <StreakCalendar days={days} />
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-xs font-bold text-stone-600">{t.statsPerVideo}</h3>
+        {videos.slice(0, TOP_VIDEOS).map((v) => (
+          <Bar
+            key={v.videoId}
+            label={v.title || v.videoId}
+            value={v.seconds}
+            max={videos[0].seconds}
+            detail={`${formatDuration(v.seconds)} · ${v.sessions}×`}
+          />
+        ))}
+      </section>
+
+      {byPlaylist.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-xs font-bold text-stone-600">{t.statsPerPlaylist}</h3>
+          {byPlaylist.map((p) => (
+            <Bar
+              key={p.playlistId}
+              label={`${p.emoji ? `${p.emoji} ` : ''}${p.name}`}
+              value={p.seconds}
+              max={byPlaylist[0].seconds}
+              detail={formatDuration(p.seconds)}
+            />
+          ))}
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-xs font-bold text-stone-600">{t.statsSpeed}</h3>
+          <select
+            value={speedVideo}
+            onChange={(e) => setSpeedVideo(e.target.value)}
+            className="max-w-[14rem] truncate rounded-lg border-2 border-black bg-white px-2 py-0.5 text-xs"
+          >
+            <option value="">{t.statsAllVideos}</option>
+            {videos.map((v) => (
+              <option key={v.videoId} value={v.videoId}>
+                {v.title || v.videoId}
+              </option>
+            ))}
+          </select>
+        </div>
+        <SpeedChart points={speeds} t={t} />
+      </section>
+
+      <button
+        onClick={exportCsv}
+        className="flex items-center gap-1.5 rounded-xl border-2 border-black bg-white px-3 py-1.5 text-xs font-bold shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all hover:shadow-none"
+      >
+        <Download className="h-3.5 w-3.5" />
+        {t.statsExportCsv}
+      </button>
+    </div>
+  )
+}
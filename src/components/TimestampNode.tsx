@@ -0,0 +1,122 @@
+'use client'
+
+import { createContext, useContext, type ReactNode } from 'react'
+import {
+  DecoratorNode,
+  type LexicalNode,
+  type NodeKey,
+  type SerializedLexicalNode,
+  type Spread,
+} from 'lexical'
+import type { TextMatchTransformer } from '@lexical/markdown'
+import { Repeat } from 'lucide-react'
+import { formatTimestamp, parseTimestamp } from '@/lib/loop-points'
+
+// Player actions the chips call back into; provided by NoteEditor
+interface TimestampActions {
+  onSeek?: (seconds: number) => void
+  onLoopAround?: (seconds: number) => void
+}
+
+export const TimestampContext = createContext<TimestampActions>({})
+
+function TimestampChip({ seconds }: { seconds: number }) {
+  const { onSeek, onLoopAround } = useContext(TimestampContext)
+  return (
+    <span className="inline-flex items-center overflow-hidden rounded-md border border-black bg-[#FFD6BA] align-baseline font-mono text-xs">
+      <button
+        type="button"
+        onClick={() => onSeek?.(seconds)}
+        className="px-1.5 py-0.5 font-bold hover:bg-[#ffc59c]"
+        title="Jump to this point"
+      >
+        {formatTimestamp(seconds)}
+      </button>
+      {onLoopAround && (
+        <button
+          type="button"
+          onClick={() => onLoopAround(seconds)}
+          className="border-l border-black px-1 py-0.5 hover:bg-[#ffc59c]"
+          title="Loop around this point"
+        >
+          <Repeat className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  )
+}
+
+export type SerializedTimestampNode = Spread<{ seconds: number }, SerializedLexicalNode>
+
+// Inline, atomic chip pointing at a playback position
+export class TimestampNode extends DecoratorNode<ReactNode> {
+  __seconds: number
+
+  static getType(): string {
+    return 'timestamp'
+  }
+
+  static clone(node: TimestampNode): TimestampNode {
+    return new TimestampNode(node.__seconds, node.__key)
+  }
+
+  static importJSON(serializedNode: SerializedTimestampNode): TimestampNode {
+    return $createTimestampNode(serializedNode.seconds)
+  }
+
+  constructor(seconds: number, key?: NodeKey) {
+    super(key)
+    this.__seconds = seconds
+  }
+
+  exportJSON(): SerializedTimestampNode {
+    return { ...super.exportJSON(), seconds: this.__seconds }
+  }
+
+  createDOM(): HTMLElement {
+    return document.createElement('span')
+  }
+
+  updateDOM(): false {
+    return false
+  }
+
+  isInline(): true {
+    return true
+  }
+
+  getSeconds(): number {
+    return this.getLatest().__seconds
+  }
+
+  getTextContent(): string {
+    return formatTimestamp(this.__seconds)
+  }
+
+  decorate(): ReactNode {
+    return <TimestampChip seconds={this.__seconds} />
+  }
+}
+
+export function $createTimestampNode(seconds: number): TimestampNode {
+  return new TimestampNode(seconds)
+}
+
+export function $isTimestampNode(node: LexicalNode | null | undefined): node is TimestampNode {
+  return node instanceof TimestampNode
+}
+
+// Written to markdown as [@m:ss.mmm] — plain text to anything that doesn't
+// know the syntax, and no clash with [text](url) links.
+export const TIMESTAMP: TextMatchTransformer = {
+  dependencies: [TimestampNode],
+  export: (node) => ($isTimestampNode(node) ? `[@${formatTimestamp(node.getSeconds())}]` : null),
+  importRegExp: /\[@(\d+(?::\d{1,2}){1,2}(?:\.\d+)?)\]/,
+  regExp: /\[@(\d+(?::\d{1,2}){1,2}(?:\.\d+)?)\]$/,
+  replace: (textNode, match) => {
+    const seconds = parseTimestamp(match[1])
+    if (seconds !== null) textNode.replace($createTimestampNode(seconds))
+  },
+  trigger: ']',
+  type: 'text-match',
+}
@@ -0,0 +1,230 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { FileText, Upload, ClipboardPaste, X, Speech, Square } from 'lucide-react'
+import type { Translations } from '@/lib/translations'
+import { type TranscriptLine, activeLineIndex } from '@/lib/transcript'
+import { formatTimestamp } from '@/lib/loop-points'
+import type { ShadowingSettings, ShadowStep } from '@/lib/shadowing'
+
+interface TranscriptPanelProps {
+  lines: TranscriptLine[]
+  // Raw text currently loaded ('' = none), so an unparseable one can be told apart
+  source: string
+  currentTime: number
+  onLoad: (source: string) => void
+  onSelect: (start: number, end: number) => void
+  shadowStep: ShadowStep | null
+  shadowing: ShadowingSettings
+  // Start shadowing from a cue, or stop with null
+  onShadow: (index: number | null) => void
+  onShadowingChange: (patch: Partial<ShadowingSettings>) => void
+  t: Translations
+}
+
+export function TranscriptPanel({
+  lines,
+  source,
+  currentTime,
+  onLoad,
+  onSelect,
+  shadowStep,
+  shadowing,
+  onShadow,
+  onShadowingChange,
+  t,
+}: TranscriptPanelProps) {
+  const [pasting, setPasting] = useState(false)
+  const [draft, setDraft] = useState('')
+  // Clicked line, and the far end of a shift-click range
+  const [anchor, setAnchor] = useState<number | null>(null)
+  const [focus, setFocus] = useState<number | null>(null)
+  const fileRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+  // While shadowing, the cue being drilled stays lit through the pauses
+  const active = shadowStep ? shadowStep.index : activeLineIndex(lines, currentTime)
+
+  useEffect(() => {
+    setAnchor(null)
+    setFocus(null)
+  }, [lines])
+
+  // Keep the playing line in view without scrolling the page around it
+  useEffect(() => {
+    const list = listRef.current
+    const row = list?.children[active] as HTMLElement | undefined
+    if (!list || !row) return
+    if (row.offsetTop < list.scrollTop || row.offsetTop + row.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: row.offsetTop - list.clientHeight / 3, behavior: 'smooth' })
+    }
+  }, [active])
+
+  const selectLine = (index: number, extend: boolean) => {
+    if (shadowStep) {
+      onShadow(index)
+      return
+    }
+    const from = extend && anchor !== null ? Math.min(anchor, index) : index
+    const to = extend && anchor !== null ? Math.max(anchor, index) : index
+    if (!extend || anchor === null) setAnchor(index)
+    setFocus(index)
+    onSelect(lines[from].start, lines[to].end)
+  }
+
+  const readFile = (file: File) => {
+    const reader = new FileReader()
+    reader.onload = (ev) => onLoad((ev.target?.result as string) ?? '')
+    reader.readAsText(file)
+  }
+
+  const inRange = (i: number) =>
+    anchor !== null && focus !== null && i >= Math.min(anchor, focus) && i <= Math.max(anchor, focus)
+
+  return (
+    <div className="overflow-hidden rounded-2xl border-4 border-black bg-white shadow-base">
+      <div className="flex items-center gap-2 border-b-2 border-black px-4 py-2.5">
+        <FileText className="h-3.5 w-3.5 shrink-0 text-stone-500" />
+        <span className="text-xs font-bold text-stone-600">{t.transcript}</span>
+        <div className="ml-auto flex items-center gap-1">
+          {lines.length > 0 && (
+            <button
+              onClick={() => onShadow(shadowStep ? null : Math.max(anchor ?? activeLineIndex(lines, currentTime), 0))}
+              className={`flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-bold transition-colors ${
+                shadowStep ? 'bg-[#FFD6BA] text-stone-900' : 'text-stone-500 hover:bg-stone-100 hover:text-stone-900'
+              }`}
+              title={shadowStep ? t.shadowStop : t.shadowStart}
+            >
+              {shadowStep ? <Square className="h-3 w-3" /> : <Speech className="h-3.5 w-3.5" />}
+              {t.shadowing}
+            </button>
+          )}
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="rounded-lg p-1.5 text-stone-500 transition-colors hover:bg-stone-100 hover:text-stone-900"
+            title={t.transcriptLoadFile}
+          >
+            <Upload className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={() => { setDraft(source); setPasting((p) => !p) }}
+            className="rounded-lg p-1.5 text-stone-500 transition-colors hover:bg-stone-100 hover:text-stone-900"
+            title={t.transcriptPaste}
+          >
+            <ClipboardPaste className="h-3.5 w-3.5" />
+          </button>
+          {source && (
+            <button
+              onClick={() => { onLoad(''); setPasting(false) }}
+              className="rounded-lg p-1.5 text-stone-500 transition-colors hover:bg-stone-100 hover:text-stone-900"
+              title={t.transcriptClear}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          )}
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".srt,.vtt,.lrc,.txt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) readFile(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+      </div>
+
+      {pasting && (
+        <div className="space-y-2 border-b-2 border-black p-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t.transcriptPastePlaceholder}
+            className="h-32 w-full resize-y rounded-xl border-2 border-black p-2 font-mono text-xs focus:outline-none"
+          />
+          <button
+            onClick={() => { onLoad(draft.trim()); setPasting(false) }}
+            className="rounded-xl border-2 border-black bg-main px-3 py-1 text-xs font-bold shadow-base transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-none"
+          >
+            {t.transcriptApply}
+          </button>
+        </div>
+      )}
+
+      {lines.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 border-b-2 border-black bg-stone-50 px-4 py-1.5 text-xs text-stone-600">
+          <label className="flex items-center gap-1">
+            {t.shadowPause}
+            <input
+              type="number"
+              min={0}
+              max={5}
+              step={0.5}
+              value={shadowing.pause}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value)
+                if (!isNaN(v) && v >= 0) onShadowingChange({ pause: v })
+              }}
+              className="w-14 rounded-lg border-2 border-black px-1 py-0.5 text-center"
+            />
+            ×
+          </label>
+          <label className="flex items-center gap-1">
+            {t.shadowRepeats}
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={shadowing.repeats}
+              onChange={(e) => {
+                const v = parseInt(e.target.value)
+                if (!isNaN(v) && v >= 1) onShadowingChange({ repeats: v })
+              }}
+              className="w-14 rounded-lg border-2 border-black px-1 py-0.5 text-center"
+            />
+          </label>
+          {shadowStep && (
+            <span className="ml-auto font-mono text-[10px] text-stone-400">
+              {t.shadowLine} {shadowStep.index + 1}/{lines.length} · {t.shadowPass} {shadowStep.pass}/{Math.max(1, shadowing.repeats)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {lines.length > 0 ? (
+        <>
+          <div ref={listRef} className="relative max-h-64 overflow-y-auto py-1">
+            {lines.map((line, i) => (
+              <button
+                key={i}
+                onClick={(e) => selectLine(i, e.shiftKey)}
+                className={`flex w-full items-baseline gap-3 px-4 py-1 text-left text-sm transition-colors ${
+                  i === active
+                    ? 'bg-[#FFD6BA] font-bold text-stone-900'
+                    : inRange(i)
+                      ? 'bg-stone-100 text-stone-800'
+                      : 'text-stone-600 hover:bg-stone-50'
+                }`}
+              >
+                <span className="w-12 shrink-0 font-mono text-[10px] text-stone-400">
+                  {formatTimestamp(Math.floor(line.start))}
+                </span>
+                <span>{line.text}</span>
+              </button>
+            ))}
+          </div>
+          <div className="border-t-2 border-black px-4 py-1.5 text-[10px] text-stone-400">
+            {t.transcriptHint}
+          </div>
+        </>
+      ) : (
+        !pasting && (
+          <div className="px-4 py-3 text-sm text-stone-400">
+            {source ? t.transcriptNoLines : t.transcriptEmpty}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronRight, Folder, ListMusic, Music, RotateCcw, Trash2 } from 'lucide-react'
+import type { Translations } from '@/lib/translations'
+import { type TrashItem, trashExpiresAt, trashItemName } from '@/lib/use-trash'
+
+interface TrashPanelProps {
+  items: TrashItem[]
+  canRestore: (item: TrashItem) => boolean
+  onRestore: (id: string) => void
+  onPurge: (id: string) => void
+  onEmpty: () => void
+  t: Translations
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const KIND_ICON = { playlist: ListMusic, folder: Folder, video: Music }
+
+// Sidebar section under the playlists: what was deleted in the last 30 days
+export function TrashPanel({ items, canRestore, onRestore, onPurge, onEmpty, t }: TrashPanelProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-1 px-3 py-1.5">
+        <button
+          onClick={() => setOpen((v) => !v)}
+          className="flex min-w-0 flex-1 items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-stone-400 transition-colors hover:text-black"
+        >
+          <ChevronRight className={`h-3 w-3 shrink-0 transition-transform ${open ? 'rotate-90' : ''}`} />
+          {t.trash}
+          <span className="tabular-nums">· {items.length}</span>
+        </button>
+        {open && items.length > 0 && (
+          <button
+            onClick={onEmpty}
+            className="text-[10px] text-stone-400 transition-colors hover:text-red-400"
+          >
+            {t.trashEmpty}
+          </button>
+        )}
+      </div>
+      {open && (
+        <div className="space-y-1 px-1">
+          {items.length === 0 && <p className="px-2 py-1 text-[10px] text-stone-400">{t.trashNothing}</p>}
+          {items.map((item) => {
+            const Icon = KIND_ICON[item.kind]
+            const daysLeft = Math.max(1, Math.ceil((trashExpiresAt(item) - Date.now()) / DAY_MS))
+            const restorable = canRestore(item)
+            return (
+              <div
+                key={item.id}
+                className="group flex items-center gap-2 rounded-xl px-2 py-1 transition-colors hover:bg-bg/50"
+              >
+                <Icon className="h-3 w-3 shrink-0 text-stone-400" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-[11px] text-stone-600">{trashItemName(item)}</p>
+                  <p className="text-[10px] text-stone-400">
+                    {daysLeft} {t.trashDaysLeft}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onRestore(item.id)}
+                  disabled={!restorable}
+                  title={restorable ? t.trashRestore : t.trashRestorePlaylistFirst}
+                  className="shrink-0 rounded-md p-0.5 text-stone-400 transition-colors hover:bg-white hover:text-black disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => onPurge(item.id)}
+                  title={t.trashDeleteForever}
+                  className="shrink-0 rounded-md p-0.5 text-stone-300 opacity-0 transition-all hover:bg-white hover:text-red-400 group-hover:opacity-100"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
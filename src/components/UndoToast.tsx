@@ -0,0 +1,45 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Redo2, Undo2, X } from 'lucide-react'
+import type { Translations } from '@/lib/translations'
+import { type UndoEntry, subscribeUndo, undoLast, redoLast } from '@/lib/undo'
+
+const VISIBLE_MS = 6000
+
+// Names the library change that was just made (or undone) for a few seconds,
+// with a button to take it back (or redo it)
+export function UndoToast({ t }: { t: Translations }) {
+  const [shown, setShown] = useState<{ entry: UndoEntry; undone: boolean } | null>(null)
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const unsubscribe = subscribeUndo((event, entry) => {
+      if (timer) clearTimeout(timer)
+      setShown({ entry, undone: event === 'undo' })
+      timer = setTimeout(() => setShown(null), VISIBLE_MS)
+    })
+    return () => {
+      if (timer) clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [])
+
+  if (!shown) return null
+  const { entry, undone } = shown
+  return (
+    <div className="fixed bottom-4 left-4 z-50 flex items-center gap-3 rounded-xl border-2 border-black bg-white px-4 py-3 text-sm font-bold shadow-base">
+      <span>{undone ? `${t.undone}: ${t[entry.label]}` : t[entry.label]}</span>
+      <button
+        onClick={() => (undone ? redoLast() : undoLast())}
+        className="flex items-center gap-1 rounded-lg border-2 border-black bg-main px-2 py-0.5 text-xs transition-all hover:opacity-90"
+      >
+        {undone ? <Redo2 className="h-3 w-3" /> : <Undo2 className="h-3 w-3" />}
+        {undone ? t.redo : t.undo}
+      </button>
+      <button onClick={() => setShown(null)} className="text-stone-400 hover:text-black">
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  )
+}
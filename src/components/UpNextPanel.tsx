@@ -0,0 +1,93 @@
+'use client'
+
+import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd'
+import { GripVertical, ListVideo, Save, X } from 'lucide-react'
+import type { Translations } from '@/lib/translations'
+import { type PlaylistVideo, entryKey } from '@/lib/use-playlists'
+
+interface UpNextPanelProps {
+  items: PlaylistVideo[]
+  onPlay: (key: string) => void
+  onRemove: (key: string) => void
+  onReorder: (orderedKeys: string[]) => void
+  onClear: () => void
+  onSave: () => void
+  t: Translations
+}
+
+export function UpNextPanel({ items, onPlay, onRemove, onReorder, onClear, onSave, t }: UpNextPanelProps) {
+  return (
+    <div className="overflow-hidden rounded-2xl border-4 border-black bg-white shadow-base">
+      <div className="flex items-center gap-2 border-b-2 border-black px-4 py-2.5">
+        <ListVideo className="h-3.5 w-3.5 shrink-0 text-stone-500" />
+        <span className="truncate text-xs font-bold text-stone-600">{t.upNext}</span>
+        <span className="text-[10px] font-bold tabular-nums text-stone-400">{items.length}</span>
+        <button
+          onClick={onSave}
+          className="ml-auto flex items-center gap-1 rounded-lg border-2 border-black bg-white px-1.5 py-0.5 text-[10px] font-bold transition-colors hover:bg-main"
+          title={t.upNextSave}
+        >
+          <Save className="h-3 w-3" />
+          {t.upNextSave}
+        </button>
+        <button
+          onClick={onClear}
+          className="text-[10px] font-bold text-stone-400 transition-colors hover:text-red-400"
+        >
+          {t.upNextClear}
+        </button>
+      </div>
+      <DragDropContext
+        onDragEnd={({ source, destination }) => {
+          if (!destination || source.index === destination.index) return
+          const reordered = [...items]
+          const [moved] = reordered.splice(source.index, 1)
+          reordered.splice(destination.index, 0, moved)
+          onReorder(reordered.map(entryKey))
+        }}
+      >
+        <Droppable droppableId="up-next">
+          {(provided) => (
+            <ul ref={provided.innerRef} {...provided.droppableProps} className="max-h-72 overflow-y-auto">
+              {items.map((v, i) => (
+                <Draggable key={entryKey(v)} draggableId={entryKey(v)} index={i}>
+                  {(provided, snapshot) => (
+                    <li
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      style={{ ...provided.draggableProps.style, opacity: snapshot.isDragging ? 0.7 : 1 }}
+                      className="group flex items-center gap-2 border-b-2 border-black/10 bg-white px-3 py-2 last:border-b-0 hover:bg-stone-50"
+                    >
+                      <span
+                        {...provided.dragHandleProps}
+                        className="shrink-0 cursor-grab text-stone-300 hover:text-stone-500 active:cursor-grabbing"
+                      >
+                        <GripVertical className="h-3 w-3" />
+                      </span>
+                      <button onClick={() => onPlay(entryKey(v))} className="flex min-w-0 flex-1 items-center gap-3 text-left">
+                        <img
+                          src={`https://i.ytimg.com/vi/${v.videoId}/default.jpg`}
+                          alt=""
+                          loading="lazy"
+                          className="h-9 w-12 shrink-0 rounded-md border-2 border-black object-cover"
+                        />
+                        <span className="flex-1 truncate text-xs font-medium text-stone-700">{v.title || v.videoId}</span>
+                      </button>
+                      <button
+                        onClick={() => onRemove(entryKey(v))}
+                        className="shrink-0 text-stone-300 opacity-0 transition-all hover:text-red-400 group-hover:opacity-100"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </li>
+                  )}
+                </Draggable>
+              ))}
+              {provided.placeholder}
+            </ul>
+          )}
+        </Droppable>
+      </DragDropContext>
+    </div>
+  )
+}
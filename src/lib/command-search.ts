@@ -0,0 +1,158 @@
+import type { Playlist } from './use-playlists'
+import type { Folder } from './use-folders'
+import type { LoopHistoryItem } from './use-loop-history'
+import { type LoopPointsMap, formatTimestamp, parseLoopTime } from './loop-points'
+import type { NotesMap } from './use-notes'
+import { folderPath } from './folder-tree'
+
+// One row of the command palette: something in the library to jump to, or an
+// app action to run. `text` is a longer body (a note) searched for the
+// query's words as they are typed, where fuzzy matching would match nearly
+// anything.
+export type CommandKind = 'action' | 'playlist' | 'folder' | 'entry' | 'history' | 'note' | 'region'
+
+export interface CommandItem {
+  id: string
+  kind: CommandKind
+  label: string
+  detail?: string
+  text?: string
+  run: () => void
+}
+
+export interface LibrarySources {
+  playlists: Playlist[]
+  folders: Folder[]
+  history: LoopHistoryItem[]
+  notes: NotesMap
+  loopPoints: LoopPointsMap
+}
+
+// What picking a library row does; the page decides how to show or play it
+export interface LibraryHandlers {
+  openPlaylist: (playlistId: string) => void
+  openFolder: (folderId: string) => void
+  playEntry: (playlistId: string, index: number) => void
+  playVideo: (videoId: string, title?: string) => void
+  playRegion: (videoId: string, regionId: string, title?: string) => void
+}
+
+export function libraryCommands(sources: LibrarySources, handlers: LibraryHandlers): CommandItem[] {
+  const { playlists, folders, history, notes, loopPoints } = sources
+  const titles = new Map<string, string>()
+  history.forEach((h) => { if (h.title) titles.set(h.videoId, h.title) })
+  playlists.forEach((p) => p.videos.forEach((v) => { if (v.title && !titles.has(v.videoId)) titles.set(v.videoId, v.title) }))
+  const titleOf = (videoId: string) => titles.get(videoId) ?? videoId
+
+  const items: CommandItem[] = []
+  playlists.forEach((p) => {
+    const folder = folders.find((f) => f.playlistIds.includes(p.id))
+    items.push({
+      id: `playlist:${p.id}`,
+      kind: 'playlist',
+      label: p.name,
+      detail: folder ? folderPath(folders, folder.id).map((f) => f.name).join(' › ') : undefined,
+      run: () => handlers.openPlaylist(p.id),
+    })
+  })
+  folders.forEach((f) => {
+    const path = folderPath(folders, f.id)
+    items.push({
+      id: `folder:${f.id}`,
+      kind: 'folder',
+      label: f.name,
+      detail: path.length > 1 ? path.slice(0, -1).map((p) => p.name).join(' › ') : undefined,
+      run: () => handlers.openFolder(f.id),
+    })
+  })
+  playlists.forEach((p) => p.videos.forEach((v, index) => {
+    items.push({
+      id: `entry:${p.id}:${index}`,
+      kind: 'entry',
+      label: v.title || v.videoId,
+      detail: p.name,
+      run: () => handlers.playEntry(p.id, index),
+    })
+  }))
+  history.forEach((h) => {
+    items.push({
+      id: `history:${h.videoId}`,
+      kind: 'history',
+      label: titleOf(h.videoId),
+      run: () => handlers.playVideo(h.videoId, h.title),
+    })
+  })
+  Object.entries(notes).forEach(([videoId, markdown]) => {
+    if (!markdown.trim()) return
+    items.push({
+      id: `note:${videoId}`,
+      kind: 'note',
+      label: titleOf(videoId),
+      text: markdown.replace(/[#*_`>[\]]/g, '').replace(/\s+/g, ' ').trim(),
+      run: () => handlers.playVideo(videoId, titles.get(videoId)),
+    })
+  })
+  Object.entries(loopPoints).forEach(([videoId, entry]) => {
+    entry.regions?.forEach((r) => {
+      items.push({
+        id: `region:${videoId}:${r.id}`,
+        kind: 'region',
+        label: r.name,
+        detail: `${titleOf(videoId)} · ${formatTimestamp(parseLoopTime(r.start))}–${r.end ? formatTimestamp(parseLoopTime(r.end)) : '…'}`,
+        run: () => handlers.playRegion(videoId, r.id, titles.get(videoId)),
+      })
+    })
+  })
+  return items
+}
+
+// Characters of `query` in order within `text`, scored so that a prefix, a
+// run of consecutive characters and word starts rank first. null when some
+// character is missing.
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase()
+  const s = text.toLowerCase()
+  if (!q) return 0
+  let score = s.startsWith(q) ? 20 : s.includes(q) ? 10 : 0
+  let from = 0
+  let last = -2
+  for (const ch of q) {
+    if (ch === ' ') continue
+    const at = s.indexOf(ch, from)
+    if (at === -1) return null
+    score += 1
+    if (at === last + 1) score += 2
+    if (at === 0 || /[\s\-_/(·›]/.test(s[at - 1])) score += 3
+    score -= Math.min(at - from, 5) * 0.1
+    last = at
+    from = at + 1
+  }
+  return score
+}
+
+// A short excerpt of `text` around the first query word it contains
+export function snippet(text: string, query: string, radius = 40): string {
+  const word = query.toLowerCase().split(/\s+/).find(Boolean) ?? ''
+  const at = Math.max(0, text.toLowerCase().indexOf(word))
+  const start = Math.max(0, at - radius)
+  const end = Math.min(text.length, at + word.length + radius)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
+
+// Best matches first. With no query, actions and playlists come up as a menu.
+export function searchCommands(items: CommandItem[], query: string, limit = 50): CommandItem[] {
+  const q = query.trim()
+  if (!q) return items.filter((i) => i.kind === 'action' || i.kind === 'playlist').slice(0, limit)
+  const words = q.toLowerCase().split(/\s+/)
+  const scored: { item: CommandItem; score: number }[] = []
+  items.forEach((item) => {
+    const label = fuzzyScore(q, item.label)
+    const detail = item.detail ? fuzzyScore(q, item.detail) : null
+    const body = item.text && words.every((w) => item.text!.toLowerCase().includes(w)) ? 5 : null
+    const best = Math.max(label ?? -Infinity, detail === null ? -Infinity : detail / 2, body ?? -Infinity)
+    if (best === -Infinity) return
+    const shown = label === null && detail === null && item.text ? { ...item, detail: snippet(item.text, q) } : item
+    scored.push({ item: shown, score: best })
+  })
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit).map((s) => s.item)
+}
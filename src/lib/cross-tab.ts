@@ -0,0 +1,59 @@
+'use client'
+
+// Same-origin messaging between open YOL tabs so library state never goes
+// stale in one tab while another edits it. Uses BroadcastChannel where the
+// browser has it, otherwise a scratch localStorage key whose `storage` event
+// reaches every other tab. Neither delivers a message back to its sender.
+
+export type TabTopic = 'playlists' | 'folders' | 'history' | 'loop-points' | 'notes' | 'sessions' | 'trash' | 'shortcuts'
+
+interface TabMessage {
+  topic: TabTopic
+  data: unknown
+}
+
+const CHANNEL_NAME = 'yol-tabs'
+const FALLBACK_KEY = 'yol-tab-message'
+
+let channel: BroadcastChannel | null = null
+let connected = false
+const handlers = new Map<TabTopic, Set<(data: unknown) => void>>()
+
+function dispatch(msg: TabMessage) {
+  handlers.get(msg.topic)?.forEach((fn) => fn(msg.data))
+}
+
+function connect() {
+  if (connected || typeof window === 'undefined') return
+  connected = true
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (e: MessageEvent<TabMessage>) => dispatch(e.data)
+    return
+  }
+  window.addEventListener('storage', (e) => {
+    if (e.key !== FALLBACK_KEY || !e.newValue) return
+    try { dispatch(JSON.parse(e.newValue) as TabMessage) } catch {}
+  })
+}
+
+export function broadcast(topic: TabTopic, data: unknown) {
+  connect()
+  const msg: TabMessage = { topic, data }
+  if (channel) {
+    channel.postMessage(msg)
+    return
+  }
+  try {
+    // The nonce makes repeated identical payloads still fire a storage event
+    localStorage.setItem(FALLBACK_KEY, JSON.stringify({ ...msg, nonce: Math.random() }))
+  } catch {}
+}
+
+export function subscribeTab<T>(topic: TabTopic, handler: (data: T) => void): () => void {
+  connect()
+  const fn = handler as (data: unknown) => void
+  if (!handlers.has(topic)) handlers.set(topic, new Set())
+  handlers.get(topic)!.add(fn)
+  return () => { handlers.get(topic)?.delete(fn) }
+}
@@ -0,0 +1,69 @@
+import { toLoopTime, parseTimestamp } from './loop-points'
+
+// Everything a shared link can carry besides the video itself
+export interface LoopLink {
+  videoId: string
+  start?: number
+  end?: number
+  speed?: number
+  volume?: number
+  region?: string
+}
+
+// Query parameters understood by `/` (and forwarded by `/watch`)
+export const LOOP_LINK_PARAMS = ['v', 'a', 'b', 't', 'start', 'speed', 'vol', 'region'] as const
+
+// YouTube's t= comes as "90", "90s", "1m30s" or "1h2m3s"; also accept m:ss
+export function parseYouTubeTime(value: string): number | null {
+  const hms = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s?)?$/)
+  if (hms && value) {
+    const [, h, m, s] = hms
+    return (parseInt(h || '0') * 3600) + (parseInt(m || '0') * 60) + parseFloat(s || '0')
+  }
+  return parseTimestamp(value)
+}
+
+const num = (value: string | null, min: number, max: number) => {
+  if (value === null) return undefined
+  const n = parseFloat(value)
+  return isNaN(n) ? undefined : Math.min(Math.max(n, min), max)
+}
+
+export function parseLoopLink(params: URLSearchParams): LoopLink | null {
+  const videoId = params.get('v')
+  if (!videoId) return null
+  const a = params.get('a')
+  // YouTube's own t= / start= are taken as the A point when no a= is given
+  const ytStart = params.get('t') ?? params.get('start')
+  const start = a !== null ? parseTimestamp(a) : ytStart !== null ? parseYouTubeTime(ytStart) : null
+  const b = params.get('b')
+  const end = b !== null ? parseTimestamp(b) : null
+  return {
+    videoId,
+    start: start ?? undefined,
+    end: end !== null && end > (start ?? 0) ? end : undefined,
+    speed: num(params.get('speed'), 0.25, 2),
+    volume: num(params.get('vol'), 0, 100),
+    region: params.get('region') || undefined,
+  }
+}
+
+export function buildLoopLink(origin: string, link: LoopLink): string {
+  const params = new URLSearchParams({ v: link.videoId })
+  if (link.start) params.set('a', toLoopTime(link.start))
+  if (link.end) params.set('b', toLoopTime(link.end))
+  if (link.speed !== undefined && link.speed !== 1) params.set('speed', link.speed.toString())
+  if (link.volume !== undefined) params.set('vol', Math.round(link.volume).toString())
+  if (link.region) params.set('region', link.region)
+  return `${origin}/?${params.toString()}`
+}
+
+// Copies the recognised loop parameters from one query string to a new one
+export function forwardLoopParams(params: URLSearchParams): string {
+  const out = new URLSearchParams()
+  for (const key of LOOP_LINK_PARAMS) {
+    const value = params.get(key)
+    if (value !== null) out.set(key, value)
+  }
+  return out.toString()
+}
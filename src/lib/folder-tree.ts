@@ -0,0 +1,65 @@
+import type { Folder } from './use-folders'
+
+// Folders nest through `parentId`; the stored collection stays a flat list so
+// each folder syncs as its own item. Folders saved before nesting have no
+// parent and sit at the top level. A parent that no longer exists counts as
+// none, so a half-synced or hand-edited tree still renders.
+
+export const parentOf = (folders: Folder[], folder: Folder): string | null =>
+  folder.parentId && folders.some((f) => f.id === folder.parentId) ? folder.parentId : null
+
+// In the collection's order, which is also the order siblings are shown in
+export const childFolders = (folders: Folder[], parentId: string | null) =>
+  folders.filter((f) => parentOf(folders, f) === parentId)
+
+// From the top-level folder down to `folderId` itself
+export function folderPath(folders: Folder[], folderId: string): Folder[] {
+  const path: Folder[] = []
+  let current = folders.find((f) => f.id === folderId)
+  while (current && !path.includes(current)) {
+    path.unshift(current)
+    const parentId = parentOf(folders, current)
+    current = parentId ? folders.find((f) => f.id === parentId) : undefined
+  }
+  return path
+}
+
+// Whether `id` is `ancestorId` or somewhere below it
+export const isWithin = (folders: Folder[], id: string, ancestorId: string) =>
+  folderPath(folders, id).some((f) => f.id === ancestorId)
+
+// Depth-first, for pickers that show the whole tree as one indented list
+export function flattenFolders(folders: Folder[], parentId: string | null = null, depth = 0): { folder: Folder; depth: number }[] {
+  return childFolders(folders, parentId).flatMap((folder) => [
+    { folder, depth },
+    ...flattenFolders(folders, folder.id, depth + 1),
+  ])
+}
+
+// Tidy folders from a backup or the server: parents that are missing or would
+// close a loop are dropped, and a playlist filed in several folders stays in
+// the first. Valid folders come back as the same objects.
+export function normalizeFolders(folders: Folder[]): Folder[] {
+  const byId = new Map(folders.map((f) => [f.id, f]))
+  const loops = (folder: Folder) => {
+    const seen = new Set([folder.id])
+    let parentId = folder.parentId
+    while (parentId && byId.has(parentId)) {
+      if (seen.has(parentId)) return true
+      seen.add(parentId)
+      parentId = byId.get(parentId)!.parentId
+    }
+    return false
+  }
+  const filed = new Set<string>()
+  return folders.map((folder) => {
+    const playlistIds = folder.playlistIds.filter((id) => {
+      if (filed.has(id)) return false
+      filed.add(id)
+      return true
+    })
+    const badParent = Boolean(folder.parentId) && (!byId.has(folder.parentId!) || loops(folder))
+    if (!badParent && playlistIds.length === folder.playlistIds.length) return folder
+    return { ...folder, playlistIds, parentId: badParent ? null : folder.parentId }
+  })
+}
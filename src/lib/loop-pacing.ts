@@ -0,0 +1,56 @@
+import { type LoopPacing, DEFAULT_COUNT_IN_BPM, pacingDelay } from './loop-points'
+
+// Just the bits of the YT player both the app and the public player expose
+interface PacedPlayer {
+  seekTo: (seconds: number, allowSeekAhead: boolean) => void
+  playVideo: () => void
+  pauseVideo: () => void
+}
+
+// Schedules `beats` metronome clicks (accented downbeat) starting `delay`
+// seconds from now. Returns a function that silences anything not yet played.
+function scheduleCountIn(beats: number, bpm: number, delay: number): () => void {
+  const Ctx = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  if (!Ctx || beats <= 0) return () => {}
+  const ctx = new Ctx()
+  const beat = 60 / bpm
+  for (let i = 0; i < beats; i++) {
+    const at = ctx.currentTime + delay + i * beat
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    osc.frequency.value = i === 0 ? 1500 : 1000
+    gain.gain.setValueAtTime(0.4, at)
+    gain.gain.exponentialRampToValueAtTime(0.001, at + 0.08)
+    osc.connect(gain).connect(ctx.destination)
+    osc.start(at)
+    osc.stop(at + 0.1)
+  }
+  return () => { ctx.close().catch(() => {}) }
+}
+
+// Where a repeat (or the first play) starts: A minus the pre-roll
+export function loopEntryPoint(start: number, pacing: LoopPacing | undefined): number {
+  return Math.max(0, start - (pacing?.preRoll ?? 0))
+}
+
+// Seek back for the next repeat and resume after the gap and count-in.
+// Returns a cancel function while a resume is pending, otherwise null.
+export function restartLoop(player: PacedPlayer, start: number, pacing: LoopPacing | undefined): (() => void) | null {
+  player.seekTo(loopEntryPoint(start, pacing), true)
+  const delay = pacingDelay(pacing)
+  if (delay <= 0) {
+    player.playVideo()
+    return null
+  }
+  player.pauseVideo()
+  const stopClicks = scheduleCountIn(pacing?.countIn ?? 0, pacing?.bpm || DEFAULT_COUNT_IN_BPM, pacing?.gap ?? 0)
+  const timer = setTimeout(() => {
+    player.playVideo()
+    // Let the last click ring out before closing the audio context
+    setTimeout(stopClicks, 200)
+  }, delay * 1000)
+  return () => {
+    clearTimeout(timer)
+    stopClicks()
+  }
+}
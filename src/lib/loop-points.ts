@@ -0,0 +1,126 @@
+export interface LoopRegion {
+  id: string
+  name: string
+  color: string
+  start: string
+  end: string
+}
+
+// What happens between repeats. Every field is optional; an entry without
+// pacing seeks straight back to A like before.
+export interface LoopPacing {
+  preRoll?: number // seconds played before A on each repeat
+  gap?: number // seconds of silence at B before the next repeat
+  countIn?: number // metronome clicks before playback resumes
+  bpm?: number // count-in tempo
+}
+
+export const DEFAULT_COUNT_IN_BPM = 100
+
+// Top-level start/end always mirror the active region so older clients, the
+// public-playlist snapshot and the tick loop keep working with a single A/B pair.
+export interface VideoLoopPoints {
+  start: string
+  end: string
+  regions?: LoopRegion[]
+  activeRegionId?: string
+  pacing?: LoopPacing
+}
+
+export type LoopPointsMap = Record<string, VideoLoopPoints>
+
+export const REGION_COLORS = ['#FFD6BA', '#A7F3D0', '#BFDBFE', '#FDE68A', '#F5D0FE', '#FECACA']
+
+export function createRegion(existing: LoopRegion[], start: string, end: string, baseName: string): LoopRegion {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    name: `${baseName} ${existing.length + 1}`,
+    color: REGION_COLORS[existing.length % REGION_COLORS.length],
+    start,
+    end,
+  }
+}
+
+// Write new A/B bounds, keeping the active region (if any) in step with them
+export function setLoopBounds(entry: VideoLoopPoints | undefined, start: string, end: string): VideoLoopPoints {
+  const regions = entry?.regions?.map((r) =>
+    r.id === entry.activeRegionId ? { ...r, start, end } : r,
+  )
+  return { ...entry, start, end, regions }
+}
+
+export function addRegion(entry: VideoLoopPoints | undefined, baseName: string): VideoLoopPoints {
+  const regions = entry?.regions ?? []
+  const region = createRegion(regions, entry?.start ?? '', entry?.end ?? '', baseName)
+  return {
+    ...entry,
+    start: region.start,
+    end: region.end,
+    regions: [...regions, region],
+    activeRegionId: region.id,
+  }
+}
+
+export function activateRegion(entry: VideoLoopPoints, regionId: string): VideoLoopPoints {
+  const region = entry.regions?.find((r) => r.id === regionId)
+  if (!region) return entry
+  return { ...entry, start: region.start, end: region.end, activeRegionId: region.id }
+}
+
+export function renameRegion(entry: VideoLoopPoints, regionId: string, name: string): VideoLoopPoints {
+  return {
+    ...entry,
+    regions: entry.regions?.map((r) => (r.id === regionId ? { ...r, name } : r)),
+  }
+}
+
+// Removing the active region falls back to the first remaining one; removing
+// the last region leaves the current A/B bounds in place as a plain loop.
+export function removeRegion(entry: VideoLoopPoints, regionId: string): VideoLoopPoints {
+  const regions = (entry.regions ?? []).filter((r) => r.id !== regionId)
+  if (regions.length === 0) return { start: entry.start, end: entry.end, pacing: entry.pacing }
+  if (entry.activeRegionId !== regionId) return { ...entry, regions }
+  return activateRegion({ ...entry, regions }, regions[0].id)
+}
+
+export function setLoopPacing(entry: VideoLoopPoints | undefined, patch: LoopPacing): VideoLoopPoints {
+  return { start: '', end: '', ...entry, pacing: { ...entry?.pacing, ...patch } }
+}
+
+// Total pause at B before playback resumes: the gap, then the count-in
+export function pacingDelay(pacing: LoopPacing | undefined): number {
+  if (!pacing) return 0
+  const beats = pacing.countIn ?? 0
+  return (pacing.gap ?? 0) + (beats > 0 ? (beats * 60) / (pacing.bpm || DEFAULT_COUNT_IN_BPM) : 0)
+}
+
+// Loop times are stored as decimal-second strings ('' = unset). Integer values
+// written by older versions ('42') parse the same as millisecond ones ('42.125').
+export function parseLoopTime(value: string | undefined): number {
+  const n = value ? parseFloat(value) : 0
+  return isNaN(n) ? 0 : n
+}
+
+export function toLoopTime(seconds: number): string {
+  return (Math.round(seconds * 1000) / 1000).toString()
+}
+
+// m:ss, or m:ss.mmm when the value has a fractional part
+export function formatTimestamp(seconds: number): string {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000)
+  const m = Math.floor(totalMs / 60000)
+  const s = Math.floor((totalMs % 60000) / 1000)
+  const ms = totalMs % 1000
+  const base = `${m}:${s.toString().padStart(2, '0')}`
+  return ms ? `${base}.${ms.toString().padStart(3, '0')}` : base
+}
+
+// Accepts "mm:ss.mmm", "h:mm:ss.mmm" or plain seconds ("83.5"); null if unparseable
+export function parseTimestamp(input: string): number | null {
+  const trimmed = input.trim()
+  if (!trimmed) return null
+  const parts = trimmed.split(':')
+  if (parts.length > 3 || parts.some((p) => !/^\d+(\.\d+)?$/.test(p))) return null
+  if (parts.slice(0, -1).some((p) => p.includes('.'))) return null
+  return parts.reduce((acc, p) => acc * 60 + parseFloat(p), 0)
+}
@@ -0,0 +1,112 @@
+import { type Playlist, type PlaylistVideo, entryKey } from './use-playlists'
+
+// Bulk curation on the playlist collection. Each tool takes the current list
+// and returns the next one, leaving playlists it doesn't touch as the same
+// objects so the sync engine and undo only see what really changed.
+
+export type PlaylistSort = 'title' | 'added' | 'loops'
+
+export const newPlaylistId = () => `${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+// Copies get their own entry ids, so they never share a key with the source
+const copyEntry = (v: PlaylistVideo): PlaylistVideo => ({ ...v, entryId: newPlaylistId() })
+
+const withVideos = (playlists: Playlist[], id: string, fn: (videos: PlaylistVideo[]) => PlaylistVideo[]) =>
+  playlists.map((p) => (p.id === id ? { ...p, videos: fn(p.videos) } : p))
+
+// The copy goes right below the original
+export function duplicatePlaylist(playlists: Playlist[], id: string, copyId: string, name: string): Playlist[] {
+  const index = playlists.findIndex((p) => p.id === id)
+  if (index === -1) return playlists
+  const source = playlists[index]
+  const copy: Playlist = {
+    id: copyId, name, emoji: source.emoji, createdAt: Date.now(), videos: source.videos.map(copyEntry),
+  }
+  return [...playlists.slice(0, index + 1), copy, ...playlists.slice(index + 1)]
+}
+
+// Everything ends up in the first playlist, in the order given; the rest are
+// deleted
+export function mergePlaylists(playlists: Playlist[], ids: string[]): Playlist[] {
+  const [targetId, ...others] = ids
+  const sources = others.map((id) => playlists.find((p) => p.id === id)).filter(Boolean) as Playlist[]
+  if (!sources.length) return playlists
+  const absorbed = new Set(sources.map((p) => p.id))
+  return withVideos(playlists, targetId, (videos) => [...videos, ...sources.flatMap((p) => p.videos)])
+    .filter((p) => !absorbed.has(p.id))
+}
+
+// The selected entries move to a new playlist below the original
+export function splitPlaylist(playlists: Playlist[], id: string, keys: string[], newId: string, name: string): Playlist[] {
+  const index = playlists.findIndex((p) => p.id === id)
+  if (index === -1 || !keys.length) return playlists
+  const selected = new Set(keys)
+  const source = playlists[index]
+  const split: Playlist = {
+    id: newId, name, emoji: source.emoji, createdAt: Date.now(),
+    videos: source.videos.filter((v) => selected.has(entryKey(v))),
+  }
+  const rest = { ...source, videos: source.videos.filter((v) => !selected.has(entryKey(v))) }
+  return [...playlists.slice(0, index), rest, split, ...playlists.slice(index + 1)]
+}
+
+// Copy keeps the originals; move takes them out. Either way they're appended
+// to the target in their current order.
+export function transferEntries(
+  playlists: Playlist[],
+  fromId: string,
+  keys: string[],
+  toId: string,
+  mode: 'move' | 'copy',
+): Playlist[] {
+  const source = playlists.find((p) => p.id === fromId)
+  if (!source || fromId === toId || !playlists.some((p) => p.id === toId)) return playlists
+  const selected = new Set(keys)
+  const entries = source.videos.filter((v) => selected.has(entryKey(v)))
+  if (!entries.length) return playlists
+  const added = withVideos(playlists, toId, (videos) => [...videos, ...(mode === 'copy' ? entries.map(copyEntry) : entries)])
+  return mode === 'copy' ? added : withVideos(added, fromId, (videos) => videos.filter((v) => !selected.has(entryKey(v))))
+}
+
+// Entries with the same video *and* the same playback settings are
+// duplicates; the same video at another speed or region is deliberate. The
+// first one wins, in the order the playlists are given.
+const dedupeKey = (v: PlaylistVideo) => [v.videoId, v.speed, v.volume, v.repeat, v.regionId].join('|')
+
+export function dedupePlaylists(playlists: Playlist[], ids: string[]): Playlist[] {
+  const seen = new Set<string>()
+  const kept = new Map<string, PlaylistVideo[]>()
+  ids.forEach((id) => {
+    const playlist = playlists.find((p) => p.id === id)
+    if (!playlist) return
+    kept.set(id, playlist.videos.filter((v) => {
+      const key = dedupeKey(v)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    }))
+  })
+  return playlists.map((p) => {
+    const videos = kept.get(p.id)
+    return videos && videos.length !== p.videos.length ? { ...p, videos } : p
+  })
+}
+
+// Titles A–Z, oldest added first, or most looped first. Ties keep their order.
+export function sortPlaylist(
+  playlists: Playlist[],
+  id: string,
+  by: PlaylistSort,
+  loopCounts: Record<string, number> = {},
+): Playlist[] {
+  const compare: Record<PlaylistSort, (a: PlaylistVideo, b: PlaylistVideo) => number> = {
+    title: (a, b) => (a.title || a.videoId).localeCompare(b.title || b.videoId),
+    added: (a, b) => a.addedAt - b.addedAt,
+    loops: (a, b) => (loopCounts[b.videoId] ?? 0) - (loopCounts[a.videoId] ?? 0),
+  }
+  const playlist = playlists.find((p) => p.id === id)
+  if (!playlist) return playlists
+  const sorted = [...playlist.videos].sort(compare[by])
+  if (sorted.every((v, i) => v === playlist.videos[i])) return playlists
+  return withVideos(playlists, id, () => sorted)
+}
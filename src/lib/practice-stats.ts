@@ -0,0 +1,134 @@
+import type { PracticeSession } from './use-practice-sessions'
+import type { Playlist } from './use-playlists'
+
+export interface VideoTotal {
+  videoId: string
+  title?: string
+  seconds: number
+  loops: number
+  sessions: number
+}
+
+export interface PlaylistTotal {
+  playlistId: string
+  name: string
+  emoji?: string
+  seconds: number
+}
+
+export interface SpeedPoint {
+  startedAt: number
+  speed: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Local calendar day, e.g. "2024-03-09"
+export function dayKey(time: number): string {
+  const d = new Date(time)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+export function totalsByVideo(sessions: PracticeSession[]): VideoTotal[] {
+  const byVideo = new Map<string, VideoTotal>()
+  for (const s of sessions) {
+    const total = byVideo.get(s.videoId) ?? { videoId: s.videoId, seconds: 0, loops: 0, sessions: 0 }
+    total.title = total.title ?? s.title
+    total.seconds += s.duration
+    total.loops += s.loopCount
+    total.sessions += 1
+    byVideo.set(s.videoId, total)
+  }
+  return Array.from(byVideo.values()).sort((a, b) => b.seconds - a.seconds)
+}
+
+// A playlist's time is the time spent on any of its videos, wherever they
+// were played from — so a video in two playlists counts towards both.
+export function totalsByPlaylist(sessions: PracticeSession[], playlists: Playlist[]): PlaylistTotal[] {
+  const perVideo = new Map(totalsByVideo(sessions).map((v) => [v.videoId, v.seconds]))
+  return playlists
+    .map((p) => ({
+      playlistId: p.id,
+      name: p.name,
+      emoji: p.emoji,
+      // A video listed twice in one playlist still counts once
+      seconds: Array.from(new Set(p.videos.map((v) => v.videoId))).reduce(
+        (sum, id) => sum + (perVideo.get(id) ?? 0),
+        0,
+      ),
+    }))
+    .filter((p) => p.seconds > 0)
+    .sort((a, b) => b.seconds - a.seconds)
+}
+
+// Seconds practised per day, keyed by dayKey
+export function secondsByDay(sessions: PracticeSession[]): Record<string, number> {
+  const days: Record<string, number> = {}
+  for (const s of sessions) {
+    const key = dayKey(s.startedAt)
+    days[key] = (days[key] ?? 0) + s.duration
+  }
+  return days
+}
+
+// Consecutive days with practice ending today — or yesterday, so a streak
+// isn't shown as broken before today's session has happened.
+export function currentStreak(days: Record<string, number>, now = Date.now()): number {
+  // Step from noon so a DST shift can't land on the wrong day
+  const noon = new Date(now).setHours(12, 0, 0, 0)
+  let cursor = days[dayKey(noon)] ? noon : noon - DAY_MS
+  let streak = 0
+  while (days[dayKey(cursor)]) {
+    streak += 1
+    cursor -= DAY_MS
+  }
+  return streak
+}
+
+export function longestStreak(days: Record<string, number>): number {
+  const sorted = Object.keys(days).sort()
+  let best = 0
+  let run = 0
+  let prev: number | null = null
+  for (const key of sorted) {
+    const [y, m, d] = key.split('-').map(Number)
+    const time = new Date(y, m - 1, d).getTime()
+    // Rounded, since a DST change makes a calendar day 23 or 25 hours long
+    run = prev !== null && Math.round((time - prev) / DAY_MS) === 1 ? run + 1 : 1
+    best = Math.max(best, run)
+    prev = time
+  }
+  return best
+}
+
+// Oldest first, for plotting; limited to one video when given
+export function speedProgression(sessions: PracticeSession[], videoId?: string): SpeedPoint[] {
+  return sessions
+    .filter((s) => !videoId || s.videoId === videoId)
+    .map((s) => ({ startedAt: s.startedAt, speed: s.speed }))
+    .sort((a, b) => a.startedAt - b.startedAt)
+}
+
+// "1h 05m", "12m", "45s"
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds)
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  if (h) return `${h}h ${String(m).padStart(2, '0')}m`
+  if (m) return `${m}m`
+  return `${total}s`
+}
+
+const CSV_COLUMNS = ['startedAt', 'videoId', 'title', 'regionName', 'speed', 'duration', 'loopCount'] as const
+
+// Spreadsheet-friendly copy of the log
+export function sessionsToCsv(sessions: PracticeSession[]): string {
+  const cell = (value: unknown) => {
+    const text = value === undefined ? '' : String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  const rows = sessions.map((s) =>
+    CSV_COLUMNS.map((c) => cell(c === 'startedAt' ? new Date(s.startedAt).toISOString() : s[c])).join(','),
+  )
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
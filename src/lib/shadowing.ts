@@ -0,0 +1,45 @@
+import type { TranscriptLine } from './transcript'
+
+export interface ShadowingSettings {
+  // Pause after each cue, as a multiple of the cue's own length
+  pause: number
+  // How many times each cue plays before moving on
+  repeats: number
+}
+
+// Where a shadowing session is: cue index and which play of it (1-based)
+export interface ShadowStep {
+  index: number
+  pass: number
+}
+
+export const SHADOWING_KEY = 'yol-shadowing'
+
+export const DEFAULT_SHADOWING: ShadowingSettings = {
+  pause: 1,
+  repeats: 2,
+}
+
+export function loadShadowing(): ShadowingSettings {
+  try {
+    const raw = localStorage.getItem(SHADOWING_KEY)
+    if (raw) return { ...DEFAULT_SHADOWING, ...JSON.parse(raw) }
+  } catch {}
+  return DEFAULT_SHADOWING
+}
+
+export function saveShadowing(settings: ShadowingSettings) {
+  try { localStorage.setItem(SHADOWING_KEY, JSON.stringify(settings)) } catch {}
+}
+
+// Replay the same cue until it has had all its passes, then the next one;
+// null once the last cue is done.
+export function nextShadowStep(step: ShadowStep, settings: ShadowingSettings, lineCount: number): ShadowStep | null {
+  if (step.pass < Math.max(1, settings.repeats)) return { index: step.index, pass: step.pass + 1 }
+  return step.index + 1 < lineCount ? { index: step.index + 1, pass: 1 } : null
+}
+
+// The learner's turn after a cue
+export function shadowPauseMs(line: TranscriptLine, settings: ShadowingSettings): number {
+  return Math.max(0, (line.end - line.start) * settings.pause * 1000)
+}
@@ -0,0 +1,156 @@
+import type { Translations } from './translations'
+
+// Everything a keyboard shortcut can do. Combos use react-hotkeys-hook's
+// notation ('shift+left', 'mod+k'); an action may have several, or none.
+export type ShortcutAction =
+  | 'playPause'
+  | 'back10'
+  | 'forward10'
+  | 'back30'
+  | 'forward30'
+  | 'speedUp'
+  | 'speedDown'
+  | 'speedReset'
+  | 'setA'
+  | 'setB'
+  | 'nudgeAEarlier'
+  | 'nudgeALater'
+  | 'nudgeBEarlier'
+  | 'nudgeBLater'
+  | 'prevItem'
+  | 'nextItem'
+  | 'toggleLoopSong'
+  | 'toggleLoopPlaylist'
+  | 'toggleShuffle'
+  | 'focusSearch'
+  | 'commandPalette'
+  | 'undo'
+  | 'redo'
+  | 'help'
+
+export type ShortcutMap = Record<ShortcutAction, string[]>
+
+// In the order the settings screen and the help dialog list them. The
+// original shortcuts keep their keys; actions added since start unbound until
+// the user picks keys for them.
+export const SHORTCUTS: { action: ShortcutAction; label: keyof Translations; keys: string[] }[] = [
+  { action: 'playPause', label: 'scPlayPause', keys: ['space'] },
+  { action: 'back10', label: 'scBack10', keys: ['left'] },
+  { action: 'forward10', label: 'scForward10', keys: ['right'] },
+  { action: 'back30', label: 'scBack30', keys: ['shift+left'] },
+  { action: 'forward30', label: 'scForward30', keys: ['shift+right'] },
+  { action: 'speedUp', label: 'scSpeedUp', keys: ['equal', 'plus'] },
+  { action: 'speedDown', label: 'scSpeedDown', keys: ['minus'] },
+  { action: 'speedReset', label: 'scSpeedReset', keys: ['0'] },
+  { action: 'setA', label: 'scSetA', keys: [] },
+  { action: 'setB', label: 'scSetB', keys: [] },
+  { action: 'nudgeAEarlier', label: 'scNudgeAEarlier', keys: [] },
+  { action: 'nudgeALater', label: 'scNudgeALater', keys: [] },
+  { action: 'nudgeBEarlier', label: 'scNudgeBEarlier', keys: [] },
+  { action: 'nudgeBLater', label: 'scNudgeBLater', keys: [] },
+  { action: 'prevItem', label: 'scPrevItem', keys: [] },
+  { action: 'nextItem', label: 'scNextItem', keys: [] },
+  { action: 'toggleLoopSong', label: 'loopSong', keys: [] },
+  { action: 'toggleLoopPlaylist', label: 'loopPlaylist', keys: [] },
+  { action: 'toggleShuffle', label: 'shuffle', keys: [] },
+  { action: 'focusSearch', label: 'scFocusSearch', keys: ['f'] },
+  { action: 'commandPalette', label: 'scCommandPalette', keys: ['mod+k'] },
+  { action: 'undo', label: 'scUndo', keys: ['mod+z'] },
+  { action: 'redo', label: 'scRedo', keys: ['mod+shift+z'] },
+  { action: 'help', label: 'scHelp', keys: ['shift+slash'] },
+]
+
+export const DEFAULT_SHORTCUTS = Object.fromEntries(SHORTCUTS.map((s) => [s.action, s.keys])) as ShortcutMap
+
+const MODIFIERS = ['mod', 'ctrl', 'alt', 'shift', 'meta']
+// Recorded key codes that the hook also accepts under a shorter name
+const ALIASES: Record<string, string> = {
+  arrowleft: 'left',
+  arrowright: 'right',
+  arrowup: 'up',
+  arrowdown: 'down',
+  control: 'ctrl',
+  esc: 'escape',
+}
+
+// Modifiers first in a fixed order, so equal combos compare equal
+export function normalizeCombo(combo: string): string {
+  const parts = combo.toLowerCase().split('+').map((p) => ALIASES[p.trim()] ?? p.trim()).filter(Boolean)
+  const mods = MODIFIERS.filter((m) => parts.includes(m))
+  return [...mods, ...parts.filter((p) => !MODIFIERS.includes(p))].join('+')
+}
+
+// A combo from the keys useRecordHotkeys collected, or null until a key other
+// than a modifier is among them. Ctrl and ⌘ both record as 'mod' so a binding
+// works on every platform it syncs to.
+export function comboFromRecorded(keys: Set<string>): string | null {
+  const all = Array.from(keys)
+  const key = all.find((k) => !['ctrl', 'control', 'meta', 'os', 'alt', 'shift'].includes(k))
+  if (!key) return null
+  const mods = [
+    all.some((k) => k === 'ctrl' || k === 'control' || k === 'meta' || k === 'os') && 'mod',
+    keys.has('alt') && 'alt',
+    keys.has('shift') && 'shift',
+  ].filter(Boolean)
+  return normalizeCombo([...mods, key].join('+'))
+}
+
+// The action other than `action` already using `combo`, if any
+export function conflictFor(bindings: ShortcutMap, action: ShortcutAction, combo: string): ShortcutAction | null {
+  const wanted = normalizeCombo(combo)
+  const other = SHORTCUTS.find(
+    (s) => s.action !== action && bindings[s.action].some((k) => normalizeCombo(k) === wanted),
+  )
+  return other?.action ?? null
+}
+
+// Actions sharing a combo with another one, e.g. after bindings from two
+// devices met in a sync
+export function findConflicts(bindings: ShortcutMap): Set<ShortcutAction> {
+  const owners = new Map<string, ShortcutAction[]>()
+  SHORTCUTS.forEach(({ action }) => bindings[action].forEach((k) => {
+    const combo = normalizeCombo(k)
+    owners.set(combo, [...(owners.get(combo) ?? []), action])
+  }))
+  const conflicts = new Set<ShortcutAction>()
+  owners.forEach((actions) => { if (actions.length > 1) actions.forEach((a) => conflicts.add(a)) })
+  return conflicts
+}
+
+const KEY_NAMES: Record<string, string> = {
+  space: 'Space',
+  left: '←',
+  right: '→',
+  up: '↑',
+  down: '↓',
+  equal: '=',
+  plus: '+',
+  minus: '-',
+  bracketleft: '[',
+  bracketright: ']',
+  comma: ',',
+  period: '.',
+  slash: '/',
+  backslash: '\\',
+  semicolon: ';',
+  quote: "'",
+  backquote: '`',
+  escape: 'Esc',
+  enter: 'Enter',
+  backspace: 'Backspace',
+  tab: 'Tab',
+  shift: 'Shift',
+}
+
+// Keycap labels for one combo, e.g. 'mod+shift+z' → ['Ctrl', 'Shift', 'Z']
+export function comboKeys(combo: string, mac: boolean): string[] {
+  return normalizeCombo(combo).split('+').map((part) => {
+    if (part === 'mod') return mac ? '⌘' : 'Ctrl'
+    if (part === 'ctrl') return 'Ctrl'
+    if (part === 'meta') return mac ? '⌘' : 'Meta'
+    if (part === 'alt') return mac ? '⌥' : 'Alt'
+    return KEY_NAMES[part] ?? part.toUpperCase()
+  })
+}
+
+export const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
@@ -0,0 +1,106 @@
+import type { Playlist, PlaylistVideo } from './use-playlists'
+import type { LoopHistoryItem } from './use-loop-history'
+import type { LoopPointsMap } from './loop-points'
+import type { NotesMap } from './use-notes'
+import type { PracticeSession } from './use-practice-sessions'
+import type { Translations } from './translations'
+
+// Smart playlists are rebuilt from the user's data on every change and never
+// stored. They share the Playlist shape (with ids under SMART_PREFIX) so the
+// player's playlist queue, shuffle and advance logic work on them unchanged.
+
+export type SmartRule = 'most-looped' | 'with-loop-points' | 'added-this-week' | 'with-notes' | 'not-in-playlist'
+
+export const SMART_PREFIX = 'smart:'
+
+export interface SmartSources {
+  history: LoopHistoryItem[]
+  playlists: Playlist[]
+  sessions: PracticeSession[]
+  loopPoints: LoopPointsMap
+  notes: NotesMap
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MOST_LOOPED_DAYS = 30
+const MOST_LOOPED_LIMIT = 25
+
+const RULES: { rule: SmartRule; emoji: string; name: (t: Translations) => string }[] = [
+  { rule: 'most-looped', emoji: '🔥', name: (t) => t.smartMostLooped },
+  { rule: 'with-loop-points', emoji: '🔁', name: (t) => t.smartWithLoopPoints },
+  { rule: 'added-this-week', emoji: '🆕', name: (t) => t.smartAddedThisWeek },
+  { rule: 'with-notes', emoji: '📝', name: (t) => t.smartWithNotes },
+  { rule: 'not-in-playlist', emoji: '🗂️', name: (t) => t.smartNotInPlaylist },
+]
+
+export const isSmartPlaylist = (id: string | null | undefined) => Boolean(id?.startsWith(SMART_PREFIX))
+
+function hasLoop(entry: LoopPointsMap[string] | undefined) {
+  return Boolean(entry && (entry.start || entry.end || entry.regions?.length))
+}
+
+function videosFor(rule: SmartRule, src: SmartSources, now: number): PlaylistVideo[] {
+  // Best-known title and a stand-in "added" time for any video id
+  const titles = new Map<string, string>()
+  const seen = new Map<string, number>()
+  for (const h of src.history) {
+    if (h.title) titles.set(h.videoId, h.title)
+    seen.set(h.videoId, h.lastPlayed)
+  }
+  for (const p of src.playlists) {
+    for (const v of p.videos) {
+      if (v.title && !titles.has(v.videoId)) titles.set(v.videoId, v.title)
+      if (!seen.has(v.videoId)) seen.set(v.videoId, v.addedAt)
+    }
+  }
+  const video = (videoId: string, addedAt?: number): PlaylistVideo => ({
+    videoId,
+    title: titles.get(videoId),
+    addedAt: addedAt ?? seen.get(videoId) ?? 0,
+  })
+  const newestFirst = (ids: string[]) => ids.map((id) => video(id)).sort((a, b) => b.addedAt - a.addedAt)
+
+  switch (rule) {
+    case 'most-looped': {
+      const loops = new Map<string, number>()
+      for (const s of src.sessions) {
+        if (s.startedAt < now - MOST_LOOPED_DAYS * DAY_MS || !s.loopCount) continue
+        loops.set(s.videoId, (loops.get(s.videoId) ?? 0) + s.loopCount)
+        if (s.title && !titles.has(s.videoId)) titles.set(s.videoId, s.title)
+      }
+      return Array.from(loops.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MOST_LOOPED_LIMIT)
+        .map(([id]) => video(id))
+    }
+    case 'with-loop-points':
+      return newestFirst(Object.keys(src.loopPoints).filter((id) => hasLoop(src.loopPoints[id])))
+    case 'added-this-week': {
+      const added = new Map<string, number>()
+      for (const p of src.playlists) {
+        for (const v of p.videos) {
+          if (v.addedAt >= now - 7 * DAY_MS) added.set(v.videoId, Math.max(added.get(v.videoId) ?? 0, v.addedAt))
+        }
+      }
+      return Array.from(added.entries())
+        .map(([id, at]) => video(id, at))
+        .sort((a, b) => b.addedAt - a.addedAt)
+    }
+    case 'with-notes':
+      return newestFirst(Object.keys(src.notes).filter((id) => src.notes[id]?.trim()))
+    case 'not-in-playlist': {
+      const listed = new Set(src.playlists.flatMap((p) => p.videos.map((v) => v.videoId)))
+      return src.history.filter((h) => !listed.has(h.videoId)).map((h) => video(h.videoId, h.lastPlayed))
+    }
+  }
+}
+
+export function buildSmartPlaylists(src: SmartSources, t: Translations, now = Date.now()): Playlist[] {
+  return RULES.map(({ rule, emoji, name }) => ({
+    id: `${SMART_PREFIX}${rule}`,
+    name: name(t),
+    emoji,
+    createdAt: 0,
+    videos: videosFor(rule, src, now),
+  }))
+}
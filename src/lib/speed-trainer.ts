@@ -0,0 +1,52 @@
+export interface SpeedTrainer {
+  enabled: boolean
+  from: number
+  to: number
+  step: number
+  every: number
+}
+
+export const SPEED_TRAINER_KEY = 'yol-speed-trainer'
+
+export const DEFAULT_SPEED_TRAINER: SpeedTrainer = {
+  enabled: false,
+  from: 0.5,
+  to: 1,
+  step: 0.05,
+  every: 2,
+}
+
+export const MIN_SPEED = 0.25
+export const MAX_SPEED = 2
+
+const clampSpeed = (v: number) => Math.min(Math.max(v, MIN_SPEED), MAX_SPEED)
+
+export function loadSpeedTrainer(): SpeedTrainer {
+  try {
+    const raw = localStorage.getItem(SPEED_TRAINER_KEY)
+    if (raw) return { ...DEFAULT_SPEED_TRAINER, ...JSON.parse(raw) }
+  } catch {}
+  return DEFAULT_SPEED_TRAINER
+}
+
+export function saveSpeedTrainer(cfg: SpeedTrainer) {
+  try { localStorage.setItem(SPEED_TRAINER_KEY, JSON.stringify(cfg)) } catch {}
+}
+
+// Speed for a given number of completed loops. Works in either direction, so
+// a target below the start speed slows the passage down instead.
+export function trainerSpeed(cfg: SpeedTrainer, loops: number): number {
+  const from = clampSpeed(cfg.from)
+  const to = clampSpeed(cfg.to)
+  const steps = Math.floor(loops / Math.max(1, Math.round(cfg.every)))
+  const delta = Math.abs(cfg.step) * steps * (to >= from ? 1 : -1)
+  const next = to >= from ? Math.min(from + delta, to) : Math.max(from + delta, to)
+  return Math.round(next * 100) / 100
+}
+
+// Loops left before the next speed bump; null once the target is reached
+export function loopsUntilNextStep(cfg: SpeedTrainer, loops: number): number | null {
+  if (trainerSpeed(cfg, loops) === Math.round(clampSpeed(cfg.to) * 100) / 100) return null
+  const every = Math.max(1, Math.round(cfg.every))
+  return every - (loops % every)
+}
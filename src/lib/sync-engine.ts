@@ -0,0 +1,385 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getAuthToken, getStoredUser, trigger401 } from './use-auth'
+import { broadcast } from './cross-tab'
+
+// Offline-first sync shared by usePlaylists, useFolders, useLoopHistory,
+// useNotes, usePracticeSessions, useTrash and useShortcuts.
+//
+// While signed in, every local change is diffed against the previous array and
+// recorded as per-item operations in a persisted log, and the result kept in a
+// local cache. Server data (sign-in, /sync/all) is merged into that cache by
+// item id: items nobody touched locally take the server version; items with a
+// pending op keep the local version unless the server copy carries a newer
+// `updatedAt`. Pushing sends only collections with pending ops, straight from
+// the cache: whole arrays through the existing /yol/sync/* endpoints, except
+// for the unbounded append-mostly collections (history, sessions), which only
+// send the items their ops touched. Each collection's ops are acknowledged on
+// their own: one the server rejects stays in the log and is retried with its
+// own backoff (and as soon as the browser is back online) without holding up
+// the rest.
+// The op log is re-read from localStorage before every use, so several open
+// tabs append to (and drain) the same log instead of overwriting each other.
+// Log and cache belong to the account that wrote them: ops a sign-out couldn't
+// send wait for that account's next sign-in, and any other account starts clean.
+
+export type SyncCollection = 'playlists' | 'folders' | 'history' | 'notes' | 'sessions' | 'trash' | 'shortcuts'
+export type SyncStatus = 'idle' | 'pending' | 'syncing' | 'offline' | 'error'
+
+interface PendingOp {
+  collection: SyncCollection
+  // Item id, or '*' for a reorder of the whole collection
+  id: string
+  kind: 'put' | 'delete' | 'order'
+  at: number
+}
+
+type Item = object & { updatedAt?: number }
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
+const OPS_KEY = 'yol-sync-ops'
+const CACHE_KEY = 'yol-sync-cache'
+const OWNER_KEY = 'yol-sync-owner'
+const DEBOUNCE_MS = 500
+const MAX_BACKOFF_MS = 60_000
+const COLLECTIONS: SyncCollection[] = ['playlists', 'folders', 'history', 'notes', 'sessions', 'trash', 'shortcuts']
+// Pushed as {put, delete} changes to /yol/sync/{c}/changes instead of whole
+const INCREMENTAL: SyncCollection[] = ['history', 'sessions']
+const ID_FIELD: Record<SyncCollection, string> = {
+  playlists: 'id',
+  folders: 'id',
+  history: 'videoId',
+  notes: 'videoId',
+  sessions: 'id',
+  trash: 'id',
+  shortcuts: 'id',
+}
+
+let ops: PendingOp[] = []
+let cache: Partial<Record<SyncCollection, Item[]>> = {}
+let loaded = false
+let listening = false
+let status: SyncStatus = 'idle'
+let inflight: Promise<void> | null = null
+// Per collection: failed pushes in a row, and when to try it again
+const attempts: Partial<Record<SyncCollection, number>> = {}
+const retryAt: Partial<Record<SyncCollection, number>> = {}
+// Bumped by resetSync so a push still in flight can't write back afterwards
+let generation = 0
+let timer: ReturnType<typeof setTimeout> | null = null
+const appliers: Partial<Record<SyncCollection, (items: Item[]) => void>> = {}
+const listeners = new Set<(s: SyncStatus) => void>()
+
+function readOps(): PendingOp[] {
+  try { return JSON.parse(localStorage.getItem(OPS_KEY) || '[]') } catch { return [] }
+}
+
+// Drop what another account left behind before the signed-in one uses it
+function claim() {
+  const sub = getStoredUser()?.sub
+  if (!sub) return
+  try {
+    const owner = localStorage.getItem(OWNER_KEY)
+    if (owner === sub) return
+    if (owner) {
+      localStorage.removeItem(OPS_KEY)
+      localStorage.removeItem(CACHE_KEY)
+      cache = {}
+    }
+    localStorage.setItem(OWNER_KEY, sub)
+  } catch {}
+}
+
+function load() {
+  if (typeof window === 'undefined') return
+  claim()
+  ops = readOps()
+  if (loaded) return
+  loaded = true
+  try { cache = JSON.parse(localStorage.getItem(CACHE_KEY) || '{}') } catch { cache = {} }
+  if (!listening) {
+    listening = true
+    window.addEventListener('online', () => { if (readOps().length) retryNow() })
+  }
+  if (ops.length) status = 'pending'
+}
+
+function save() {
+  try {
+    localStorage.setItem(OPS_KEY, JSON.stringify(ops))
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cache))
+  } catch {}
+}
+
+const sameOp = (a: PendingOp, b: PendingOp) =>
+  a.collection === b.collection && a.id === b.id && a.kind === b.kind && a.at === b.at
+
+function setStatus(next: SyncStatus) {
+  status = next
+  listeners.forEach((fn) => fn(next))
+}
+
+const idOf = (collection: SyncCollection, item: Item) =>
+  String((item as Record<string, unknown>)[ID_FIELD[collection]])
+
+// Last-modified time: explicit stamp, else whatever the item already carries
+function stampOf(item: Item): number {
+  const i = item as { updatedAt?: number; lastPlayed?: number; createdAt?: number }
+  return i.updatedAt ?? i.lastPlayed ?? i.createdAt ?? 0
+}
+
+// One op per item is enough — only the latest intent matters
+function addOp(op: PendingOp) {
+  ops = ops.filter((o) => !(o.collection === op.collection && o.id === op.id))
+  ops.push(op)
+}
+
+function merge(collection: SyncCollection, local: Item[], remote: Item[], pending: PendingOp[]): Item[] {
+  const localById = new Map(local.map((i) => [idOf(collection, i), i]))
+  const remoteById = new Map(remote.map((i) => [idOf(collection, i), i]))
+  const opById = new Map(pending.filter((o) => o.kind !== 'order').map((o) => [o.id, o]))
+  const localOrder = pending.some((o) => o.kind === 'order')
+
+  const pick = (id: string): Item | undefined => {
+    const op = opById.get(id)
+    const r = remoteById.get(id)
+    if (!op) return r
+    if (r && stampOf(r) > op.at) return r
+    return op.kind === 'delete' ? undefined : localById.get(id)
+  }
+
+  // Local-only items (created here) lead, matching how new items are prepended
+  const localIds = local.map((i) => idOf(collection, i))
+  const remoteIds = remote.map((i) => idOf(collection, i))
+  const ids = localOrder
+    ? [...localIds, ...remoteIds]
+    : [...localIds.filter((id) => !remoteById.has(id)), ...remoteIds]
+  const seen = new Set<string>()
+  const out: Item[] = []
+  for (const id of ids) {
+    if (seen.has(id)) continue
+    seen.add(id)
+    const item = pick(id)
+    if (item) out.push(item)
+  }
+  if (collection === 'history') out.sort((a, b) => stampOf(b) - stampOf(a))
+  return out
+}
+
+// The cached state of just the items the ops touched: ids still present are
+// (re)written, the rest deleted. Order ops don't apply to these collections.
+function changesFor(collection: SyncCollection, items: Item[], pending: PendingOp[]) {
+  const byId = new Map(items.map((i) => [idOf(collection, i), i]))
+  const ids = pending.filter((o) => o.kind !== 'order').map((o) => o.id)
+  return {
+    put: ids.filter((id) => byId.has(id)).map((id) => byId.get(id)),
+    delete: ids.filter((id) => !byId.has(id)),
+  }
+}
+
+function schedule(delay: number) {
+  if (timer) clearTimeout(timer)
+  timer = setTimeout(() => { timer = null; push() }, delay)
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine
+
+function backOff(collection: SyncCollection) {
+  const n = (attempts[collection] ?? 0) + 1
+  attempts[collection] = n
+  retryAt[collection] = Date.now() + Math.min(1000 * 2 ** n, MAX_BACKOFF_MS)
+}
+
+function clearBackoff(collection?: SyncCollection) {
+  (collection ? [collection] : COLLECTIONS).forEach((c) => {
+    delete attempts[c]
+    delete retryAt[c]
+  })
+}
+
+function retryNow() {
+  clearBackoff()
+  schedule(0)
+}
+
+// Status and next push once a push is over: collections still failing wait
+// out their backoff, anything else left in the log goes soon
+function settle() {
+  const waiting = COLLECTIONS.filter((c) => retryAt[c] !== undefined && ops.some((o) => o.collection === c))
+  if (waiting.length) {
+    setStatus(isOffline() ? 'offline' : 'error')
+    schedule(Math.max(0, Math.min(...waiting.map((c) => retryAt[c]!)) - Date.now()))
+  } else {
+    setStatus(ops.length ? 'pending' : 'idle')
+    if (ops.length) schedule(DEBOUNCE_MS)
+  }
+}
+
+// One push at a time; callers during a push share it
+function push(): Promise<void> {
+  inflight ??= send().finally(() => { inflight = null })
+  return inflight
+}
+
+async function send() {
+  load()
+  const token = getAuthToken()
+  if (!token) return
+  if (ops.length === 0) { setStatus('idle'); return }
+  if (isOffline()) { setStatus('offline'); return }
+  const now = Date.now()
+  const due = COLLECTIONS.filter((c) => ops.some((o) => o.collection === c) && (retryAt[c] ?? 0) <= now)
+  if (due.length === 0) { settle(); return }
+
+  setStatus('syncing')
+  const gen = generation
+  const sent = ops.filter((o) => due.includes(o.collection))
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` }
+  const done: SyncCollection[] = []
+  let unauthorized = false
+  for (const c of due) {
+    const pending = sent.filter((o) => o.collection === c)
+    const incremental = INCREMENTAL.includes(c)
+    const code = await fetch(`${API_URL}/yol/sync/${c}${incremental ? '/changes' : ''}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(incremental ? changesFor(c, cache[c] ?? [], pending) : { data: cache[c] ?? [] }),
+    }).then((r) => r.status, () => 0)
+    if (code === 401) { unauthorized = true; break }
+    if (code >= 200 && code < 300) {
+      done.push(c)
+      clearBackoff(c)
+    } else {
+      backOff(c)
+    }
+  }
+
+  if (gen !== generation) return
+  // Edits made while the requests were in flight are still in the log and
+  // already in the cache; only the ops that went out are dropped.
+  const acked = sent.filter((o) => done.includes(o.collection))
+  ops = readOps().filter((o) => !acked.some((s) => sameOp(s, o)))
+  save()
+  if (unauthorized) { trigger401(); setStatus('error'); return }
+  settle()
+}
+
+// Record the difference between two versions of a collection. Changed and new
+// items get a fresh `updatedAt`; the stamped array is returned for state.
+export function recordChange<T extends Item>(collection: SyncCollection, prev: T[], next: T[]): T[] {
+  load()
+  const now = Date.now()
+  const prevById = new Map(prev.map((i) => [idOf(collection, i), i]))
+  const nextIds = new Set<string>()
+  const stamped = next.map((item) => {
+    const id = idOf(collection, item)
+    nextIds.add(id)
+    if (prevById.get(id) === item) return item
+    addOp({ collection, id, kind: 'put', at: now })
+    return { ...item, updatedAt: now }
+  })
+  prevById.forEach((_, id) => {
+    if (!nextIds.has(id)) addOp({ collection, id, kind: 'delete', at: now })
+  })
+  const kept = prev.map((i) => idOf(collection, i)).filter((id) => nextIds.has(id))
+  const order = next.map((i) => idOf(collection, i)).filter((id) => prevById.has(id))
+  if (kept.some((id, i) => order[i] !== id)) addOp({ collection, id: '*', kind: 'order', at: now })
+
+  cache[collection] = stamped
+  save()
+  setStatus('pending')
+  schedule(DEBOUNCE_MS)
+  return stamped
+}
+
+// Server data arrived (sign-in, /sync/all). Anything still pending locally is
+// merged over it instead of being overwritten.
+export function hydrateCollection<T extends Item>(collection: SyncCollection, remote: T[]): T[] {
+  load()
+  const pending = ops.filter((o) => o.collection === collection)
+  const merged = (pending.length ? merge(collection, cache[collection] ?? [], remote, pending) : remote) as T[]
+  cache[collection] = merged
+  save()
+  if (pending.length) schedule(DEBOUNCE_MS)
+  return merged
+}
+
+// Swap a whole collection for another, e.g. from an imported backup. Every
+// difference is logged, so it's pushed (and retried) like any other edit.
+export function replaceCollection<T extends Item>(collection: SyncCollection, items: T[]) {
+  const next = recordChange(collection, cachedCollection<T>(collection), items)
+  appliers[collection]?.(next)
+  broadcast(collection, next)
+}
+
+// Another tab changed the collection (and already logged its ops); keep this
+// tab's merge base in step with it.
+export function adoptCollection<T extends Item>(collection: SyncCollection, items: T[]) {
+  load()
+  cache[collection] = items
+  save()
+}
+
+// Last synced/edited copy, so a signed-in user can start offline
+export function cachedCollection<T extends Item>(collection: SyncCollection): T[] {
+  load()
+  return (cache[collection] ?? []) as T[]
+}
+
+// Lets the engine hand merged results back to the owning hook's state
+export function registerCollection<T extends Item>(collection: SyncCollection, apply: (items: T[]) => void) {
+  appliers[collection] = apply as (items: Item[]) => void
+  return () => { delete appliers[collection] }
+}
+
+// Send everything now, after any push already under way. Resolves true once
+// nothing is left unsent.
+export async function flushSync(): Promise<boolean> {
+  load()
+  if (timer) clearTimeout(timer)
+  timer = null
+  await inflight
+  clearBackoff()
+  if (readOps().length) await push()
+  return readOps().length === 0
+}
+
+// Sign-out. With everything sent, the cache and log are forgotten so they
+// can't leak into the next account signed in on this browser; unsent ops stay
+// stored, with the cache they were made against, for the same account.
+export function resetSync() {
+  if (timer) clearTimeout(timer)
+  timer = null
+  generation += 1
+  clearBackoff()
+  try {
+    if (readOps().length === 0) {
+      localStorage.removeItem(OPS_KEY)
+      localStorage.removeItem(CACHE_KEY)
+      localStorage.removeItem(OWNER_KEY)
+    }
+  } catch {}
+  ops = []
+  cache = {}
+  loaded = false
+  setStatus('idle')
+}
+
+export function useSyncStatus() {
+  const [current, setCurrent] = useState<SyncStatus>('idle')
+  const [pending, setPending] = useState(0)
+
+  useEffect(() => {
+    load()
+    const update = (s: SyncStatus) => {
+      setCurrent(s)
+      setPending(ops.length)
+    }
+    update(status)
+    listeners.add(update)
+    return () => { listeners.delete(update) }
+  }, [])
+
+  return { status: current, pending, retry: retryNow }
+}
@@ -0,0 +1,92 @@
+export interface TranscriptLine {
+  start: number
+  end: number
+  text: string
+}
+
+// Raw transcript text per video, kept as the user supplied it
+const STORAGE_KEY = 'yol-transcripts'
+// LRC only carries start times; the last line gets this long
+const LAST_LRC_LINE_SECONDS = 5
+
+// "00:01:02,500" (SRT), "01:02.500" / "00:01:02.500" (VTT)
+function parseCueTime(value: string): number | null {
+  const m = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/)
+  if (!m) return null
+  const [, h, min, s, frac] = m
+  return parseInt(h || '0') * 3600 + parseInt(min) * 60 + parseInt(s) + (frac ? parseInt(frac.padEnd(3, '0')) / 1000 : 0)
+}
+
+const stripTags = (text: string) => text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').trim()
+
+// SRT and VTT share the "start --> end" cue line; ids, headers, NOTE/STYLE
+// blocks and cue settings around it are ignored.
+function parseCues(source: string): TranscriptLine[] {
+  const lines: TranscriptLine[] = []
+  for (const block of source.split(/\r?\n\s*\r?\n/)) {
+    const rows = block.split(/\r?\n/)
+    const timing = rows.findIndex((r) => r.includes('-->'))
+    if (timing === -1) continue
+    const [from, rest] = rows[timing].split('-->')
+    const start = parseCueTime(from)
+    const end = parseCueTime(rest.trim().split(/\s+/)[0])
+    const text = rows.slice(timing + 1).map(stripTags).filter(Boolean).join(' ')
+    if (start === null || end === null || end <= start || !text) continue
+    lines.push({ start, end, text })
+  }
+  return lines.sort((a, b) => a.start - b.start)
+}
+
+const lastLineEnd = (start: number, duration?: number) =>
+  duration && duration > start ? Math.min(start + LAST_LRC_LINE_SECONDS, duration) : start + LAST_LRC_LINE_SECONDS
+
+// [mm:ss.xx] lyrics; a row may carry several tags for a repeated line
+function parseLrc(source: string, duration?: number): TranscriptLine[] {
+  const stamped: { start: number; text: string }[] = []
+  for (const row of source.split(/\r?\n/)) {
+    const tags = row.match(/^(\[\d+:\d{1,2}(?:[.:]\d{1,3})?\])+/)
+    if (!tags) continue
+    const text = stripTags(row.slice(tags[0].length))
+    for (const tag of tags[0].match(/\d+:\d{1,2}(?:[.:]\d{1,3})?/g) ?? []) {
+      const [min, sec] = tag.split(/:(.*)/)
+      stamped.push({ start: parseInt(min) * 60 + parseFloat(sec.replace(':', '.')), text })
+    }
+  }
+  stamped.sort((a, b) => a.start - b.start)
+  return stamped
+    .map((s, i) => ({
+      start: s.start,
+      end: stamped[i + 1]?.start ?? lastLineEnd(s.start, duration),
+      text: s.text,
+    }))
+    // Empty LRC lines only mark where the previous one stops
+    .filter((l) => l.text && l.end > l.start)
+}
+
+// Accepts SRT, WebVTT or LRC, as a file or pasted; [] if nothing is timed
+export function parseTranscript(source: string, duration?: number): TranscriptLine[] {
+  return source.includes('-->') ? parseCues(source) : parseLrc(source, duration)
+}
+
+// Index of the line playing at `time`, or -1 between lines
+export function activeLineIndex(lines: TranscriptLine[], time: number): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].start <= time) return time < lines[i].end ? i : -1
+  }
+  return -1
+}
+
+export function loadTranscript(videoId: string): string {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')[videoId] ?? ''
+  } catch { return '' }
+}
+
+export function saveTranscript(videoId: string, source: string) {
+  try {
+    const all = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+    if (source) all[videoId] = source
+    else delete all[videoId]
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all))
+  } catch {}
+}
@@ -0,0 +1,63 @@
+// How one playlist item (or loop repeat) hands over to the next. 'cut' is the
+// original single-player behaviour; the other two need a second, preloaded
+// player to switch to.
+export type TransitionMode = 'cut' | 'crossfade' | 'gapless'
+
+export interface TransitionSettings {
+  mode: TransitionMode
+  // Crossfade length
+  seconds: number
+}
+
+export const TRANSITION_KEY = 'yol-transition'
+export const DEFAULT_TRANSITION: TransitionSettings = { mode: 'cut', seconds: 4 }
+export const MIN_CROSSFADE = 1
+export const MAX_CROSSFADE = 12
+// Gapless switches this early, so the 100 ms tick can't overshoot the end
+export const GAPLESS_LEAD = 0.15
+
+const FADE_STEP_MS = 50
+
+export function loadTransition(): TransitionSettings {
+  try {
+    const raw = localStorage.getItem(TRANSITION_KEY)
+    if (raw) return { ...DEFAULT_TRANSITION, ...JSON.parse(raw) }
+  } catch {}
+  return DEFAULT_TRANSITION
+}
+
+export function saveTransition(settings: TransitionSettings) {
+  try { localStorage.setItem(TRANSITION_KEY, JSON.stringify(settings)) } catch {}
+}
+
+interface Fadable {
+  setVolume: (volume: number) => void
+}
+
+// Linear ramp from `from` to `to` over `ms`. `volume` is read on every step so
+// a volume change mid-fade lands where it should. Returns a function that
+// jumps straight to the end; `onDone` runs once either way.
+export function crossfade(from: Fadable, to: Fadable, volume: () => number, ms: number, onDone: () => void): () => void {
+  const started = Date.now()
+  let id: ReturnType<typeof setInterval> | null = null
+  const finish = () => {
+    if (id !== null) clearInterval(id)
+    id = null
+    from.setVolume(0)
+    to.setVolume(volume())
+    onDone()
+  }
+  if (ms <= 0) {
+    finish()
+    return () => {}
+  }
+  const step = () => {
+    const k = Math.min((Date.now() - started) / ms, 1)
+    if (k >= 1) return finish()
+    from.setVolume(Math.round(volume() * (1 - k)))
+    to.setVolume(Math.round(volume() * k))
+  }
+  to.setVolume(0)
+  id = setInterval(step, FADE_STEP_MS)
+  return () => { if (id !== null) finish() }
+}
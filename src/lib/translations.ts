@@ -74,6 +74,204 @@ export const translations = {
     selectPlaylist: 'Select playlist…',
     createNewPlaylist: '+ Create new playlist',
 
+    // Loop regions
+    regions: 'Regions',
+    addRegion: 'Add region',
+    saveAsRegion: 'Save as region',
+    regionDefaultName: 'Section',
+    deleteRegion: 'Delete region',
+
+    // Speed trainer
+    speedTrainer: 'Speed trainer',
+    trainerFrom: 'Start',
+    trainerTo: 'Target',
+    trainerStep: 'Step',
+    trainerEvery: 'Every',
+    trainerLoops: 'loops',
+    trainerNextIn: 'Next step in',
+    trainerDone: 'Target reached',
+
+    // Loop pacing
+    pacing: 'Between repeats',
+    preRoll: 'Pre-roll',
+    gap: 'Gap',
+    countIn: 'Count-in',
+
+    // Repeat limit / sleep timer
+    stopAfter: 'Stop after',
+    sleepTimer: 'Sleep timer',
+    sleepMinutes: 'min',
+    sleepAtLoopEnd: 'Finish the current loop first',
+    sleepCancel: 'Cancel sleep timer',
+    sleepLastLoop: 'Last loop',
+
+    // Deep links
+    copyLoopLink: 'Copy link to this loop',
+    loopLinkCopied: 'Link copied!',
+
+    // Sync status
+    syncSynced: 'All changes synced',
+    syncPending: 'Changes waiting to sync',
+    syncSyncing: 'Syncing…',
+    syncOffline: 'Offline — changes will sync when you reconnect',
+    syncFailed: 'Sync failed — click to retry',
+    transcript: 'Transcript',
+    transcriptLoadFile: 'Load SRT / VTT / LRC file',
+    transcriptPaste: 'Paste transcript',
+    transcriptClear: 'Remove transcript',
+    transcriptPastePlaceholder: 'Paste SRT, WebVTT or LRC text…',
+    transcriptApply: 'Use transcript',
+    transcriptHint: 'Click a line to loop it — shift-click to loop a range of lines',
+    transcriptNoLines: 'No timed lines found — SRT, WebVTT and LRC are supported',
+    transcriptEmpty: 'Load or paste subtitles or lyrics to follow along and loop line by line',
+    shadowing: 'Shadow',
+    shadowStart: 'Shadowing: play each line, pause for you to repeat it, then move on',
+    shadowStop: 'Stop shadowing',
+    shadowPause: 'Pause',
+    shadowRepeats: 'Plays per line',
+    shadowLine: 'Line',
+    shadowPass: 'play',
+    statsTitle: 'Practice stats',
+    statsEmpty: 'Play something for a bit — practice sessions show up here.',
+    statsTotalTime: 'Total time',
+    statsLoops: 'Loops',
+    statsStreak: 'Streak (days)',
+    statsBestStreak: 'Best streak',
+    statsCalendar: 'Practice calendar',
+    statsPerVideo: 'Time per video',
+    statsPerPlaylist: 'Time per playlist',
+    statsSpeed: 'Speed progression',
+    statsAllVideos: 'All videos',
+    statsSpeedEmpty: 'Not enough sessions yet',
+    statsExportCsv: 'Export sessions (CSV)',
+    historySearch: 'Search history…',
+    historyFrom: 'From',
+    historyTo: 'To',
+    historySelectAll: 'Select all shown',
+    historySelectNone: 'Clear selection',
+    historySelected: 'selected',
+    historyAddToPlaylist: 'Add to playlist…',
+    historyDeleteSelected: 'Remove selected from history',
+    historyNoMatches: 'No matches',
+    historyShowMore: 'Show more',
+    smartPlaylists: 'Smart playlists',
+    smartMostLooped: 'Most looped · 30 days',
+    smartWithLoopPoints: 'With saved loop points',
+    smartAddedThisWeek: 'Added this week',
+    smartWithNotes: 'With notes',
+    smartNotInPlaylist: 'History not in a playlist',
+    smartEmpty: 'Nothing matches yet',
+    entrySettings: 'Playback settings for this entry',
+    entrySpeed: 'Speed',
+    entryVolume: 'Volume',
+    entryRepeat: 'Play times',
+    entryRegion: 'Region',
+    entryDefault: 'Default',
+    entryNoRegions: 'No regions',
+    entryReset: 'Reset',
+    addAgain: 'Already in this playlist — add again',
+    transition: 'Transitions',
+    transitionCut: 'Cut',
+    transitionCrossfade: 'Crossfade',
+    transitionGapless: 'Gapless',
+    transitionHint: 'Between playlist items and loop repeats. The next video loads in the background so it can start without a gap.',
+    upNext: 'Up next',
+    upNextSave: 'Save as playlist',
+    upNextClear: 'Clear',
+    playNext: 'Play next',
+    addToQueue: 'Add to queue',
+
+    // Playlist tools
+    selectedLabel: 'selected',
+    duplicatePlaylist: 'Duplicate playlist',
+    copySuffix: '(copy)',
+    mergeInto: 'Merge into',
+    removeDuplicates: 'Remove duplicates',
+    splitSelection: 'Split selection into a new playlist',
+    splitSuffix: '(part 2)',
+    moveTo: 'Move to…',
+    copyTo: 'Copy to…',
+    sortBy: 'Sort by',
+    sortTitle: 'Title',
+    sortAdded: 'Date added',
+    sortLoops: 'Loop count',
+    undo: 'Undo',
+    undoDuplicate: 'Playlist duplicated',
+    undoMerge: 'Playlists merged',
+    undoSplit: 'Playlist split',
+    undoMoveEntries: 'Videos moved',
+    undoCopyEntries: 'Videos copied',
+    undoDedupe: 'Duplicates removed',
+    undoSort: 'Playlist sorted',
+    undone: 'Undone',
+    redo: 'Redo',
+    undoCreatePlaylist: 'Playlist created',
+    undoDeletePlaylist: 'Playlist deleted',
+    undoImportPlaylist: 'Playlist imported',
+    undoAddVideo: 'Video added',
+    undoAddVideos: 'Videos added',
+    undoRemoveVideo: 'Video removed',
+    undoRenameVideo: 'Video renamed',
+    undoEntrySettings: 'Entry settings changed',
+    undoReorder: 'Order changed',
+    undoEmoji: 'Emoji changed',
+    undoCreateFolder: 'Folder created',
+    undoDeleteFolder: 'Folder deleted',
+    undoMoveToFolder: 'Moved to folder',
+    trash: 'Trash',
+    trashEmpty: 'Empty trash',
+    trashNothing: 'Nothing deleted in the last 30 days',
+    trashDaysLeft: 'days left',
+    trashRestore: 'Restore',
+    trashRestorePlaylistFirst: 'Restore its playlist first',
+    trashDeleteForever: 'Delete forever',
+    undoTrash: 'Moved to trash',
+    undoRestore: 'Restored',
+    undoPurge: 'Deleted forever',
+    undoMoveFolder: 'Folder moved',
+    newSubfolder: 'New folder inside',
+    deleteFolder: 'Delete folder',
+    paletteTitle: 'Command palette',
+    palettePlaceholder: 'Search the library or type a command…',
+    paletteNoResults: 'Nothing found',
+    paletteAction: 'Action',
+    palettePlaylist: 'Playlist',
+    paletteFolder: 'Folder',
+    paletteSong: 'Song',
+    paletteNote: 'Note',
+    paletteRegion: 'Region',
+    shortcutsTitle: 'Keyboard shortcuts',
+    shortcutsIntro: 'Click + and press the keys for an action; Esc cancels. Ctrl and ⌘ are the same key here, so bindings work on every device they sync to.',
+    shortcutsNone: 'Not set',
+    shortcutsRecording: 'Press keys…',
+    shortcutsAdd: 'Add a shortcut',
+    shortcutsReset: 'Back to default',
+    shortcutsConflict: 'Already used for',
+    shortcutsTakeOver: 'Use here instead',
+    shortcutsResetAll: 'Reset all to defaults',
+    shortcutsCustomize: 'Customize shortcuts',
+    scPlayPause: 'Play / Pause',
+    scBack10: 'Skip back 10s',
+    scForward10: 'Skip forward 10s',
+    scBack30: 'Skip back 30s',
+    scForward30: 'Skip forward 30s',
+    scSpeedUp: 'Speed up +0.05×',
+    scSpeedDown: 'Speed down −0.05×',
+    scSpeedReset: 'Reset speed to 1×',
+    scSetA: 'Set A here',
+    scSetB: 'Set B here',
+    scNudgeAEarlier: 'Move A back 0.1s',
+    scNudgeALater: 'Move A forward 0.1s',
+    scNudgeBEarlier: 'Move B back 0.1s',
+    scNudgeBLater: 'Move B forward 0.1s',
+    scPrevItem: 'Previous playlist song',
+    scNextItem: 'Next playlist song',
+    scFocusSearch: 'Focus search / URL bar',
+    scCommandPalette: 'Search the library or run a command',
+    scUndo: 'Undo the last library change',
+    scRedo: 'Redo',
+    scHelp: 'Open / close the help dialog',
+
     // Search
     searchPlaceholder: 'Search YouTube or paste a link…',
     searching: 'Searching…',
@@ -190,6 +388,204 @@ export const translations = {
     selectPlaylist: 'Playlist auswählen…',
     createNewPlaylist: '+ Neue Playlist erstellen',
 
+    // Loop regions
+    regions: 'Abschnitte',
+    addRegion: 'Abschnitt hinzufügen',
+    saveAsRegion: 'Als Abschnitt speichern',
+    regionDefaultName: 'Abschnitt',
+    deleteRegion: 'Abschnitt löschen',
+
+    // Speed trainer
+    speedTrainer: 'Tempo-Trainer',
+    trainerFrom: 'Start',
+    trainerTo: 'Ziel',
+    trainerStep: 'Schritt',
+    trainerEvery: 'Alle',
+    trainerLoops: 'Loops',
+    trainerNextIn: 'Nächster Schritt in',
+    trainerDone: 'Ziel erreicht',
+
+    // Loop pacing
+    pacing: 'Zwischen Wiederholungen',
+    preRoll: 'Vorlauf',
+    gap: 'Pause',
+    countIn: 'Einzähler',
+
+    // Repeat limit / sleep timer
+    stopAfter: 'Stopp nach',
+    sleepTimer: 'Sleep-Timer',
+    sleepMinutes: 'Min.',
+    sleepAtLoopEnd: 'Aktuellen Loop zu Ende spielen',
+    sleepCancel: 'Sleep-Timer abbrechen',
+    sleepLastLoop: 'Letzter Loop',
+
+    // Deep links
+    copyLoopLink: 'Link zu diesem Loop kopieren',
+    loopLinkCopied: 'Link kopiert!',
+
+    // Sync status
+    syncSynced: 'Alle Änderungen synchronisiert',
+    syncPending: 'Änderungen warten auf Sync',
+    syncSyncing: 'Synchronisiere…',
+    syncOffline: 'Offline — Änderungen werden nach dem Verbinden synchronisiert',
+    syncFailed: 'Sync fehlgeschlagen — zum Wiederholen klicken',
+    transcript: 'Transkript',
+    transcriptLoadFile: 'SRT- / VTT- / LRC-Datei laden',
+    transcriptPaste: 'Transkript einfügen',
+    transcriptClear: 'Transkript entfernen',
+    transcriptPastePlaceholder: 'SRT-, WebVTT- oder LRC-Text einfügen…',
+    transcriptApply: 'Transkript verwenden',
+    transcriptHint: 'Zeile anklicken zum Loopen — Shift-Klick loopt mehrere Zeilen',
+    transcriptNoLines: 'Keine Zeilen mit Zeitangaben gefunden — SRT, WebVTT und LRC werden unterstützt',
+    transcriptEmpty: 'Untertitel oder Songtexte laden oder einfügen, um mitzulesen und zeilenweise zu loopen',
+    shadowing: 'Shadowing',
+    shadowStart: 'Shadowing: jede Zeile abspielen, Pause zum Nachsprechen, dann weiter',
+    shadowStop: 'Shadowing beenden',
+    shadowPause: 'Pause',
+    shadowRepeats: 'Wiederholungen pro Zeile',
+    shadowLine: 'Zeile',
+    shadowPass: 'Durchgang',
+    statsTitle: 'Übungsstatistik',
+    statsEmpty: 'Spiel eine Weile etwas ab — Übungssitzungen erscheinen hier.',
+    statsTotalTime: 'Gesamtzeit',
+    statsLoops: 'Loops',
+    statsStreak: 'Serie (Tage)',
+    statsBestStreak: 'Längste Serie',
+    statsCalendar: 'Übungskalender',
+    statsPerVideo: 'Zeit pro Video',
+    statsPerPlaylist: 'Zeit pro Playlist',
+    statsSpeed: 'Tempo-Verlauf',
+    statsAllVideos: 'Alle Videos',
+    statsSpeedEmpty: 'Noch nicht genug Sitzungen',
+    statsExportCsv: 'Sitzungen exportieren (CSV)',
+    historySearch: 'Verlauf durchsuchen…',
+    historyFrom: 'Von',
+    historyTo: 'Bis',
+    historySelectAll: 'Alle angezeigten auswählen',
+    historySelectNone: 'Auswahl aufheben',
+    historySelected: 'ausgewählt',
+    historyAddToPlaylist: 'Zu Playlist hinzufügen…',
+    historyDeleteSelected: 'Auswahl aus dem Verlauf entfernen',
+    historyNoMatches: 'Keine Treffer',
+    historyShowMore: 'Mehr anzeigen',
+    smartPlaylists: 'Intelligente Playlists',
+    smartMostLooped: 'Am meisten geloopt · 30 Tage',
+    smartWithLoopPoints: 'Mit gespeicherten Loop-Punkten',
+    smartAddedThisWeek: 'Diese Woche hinzugefügt',
+    smartWithNotes: 'Mit Notizen',
+    smartNotInPlaylist: 'Verlauf ohne Playlist',
+    smartEmpty: 'Noch keine Treffer',
+    entrySettings: 'Wiedergabe-Einstellungen für diesen Eintrag',
+    entrySpeed: 'Tempo',
+    entryVolume: 'Lautstärke',
+    entryRepeat: 'Wiederholungen',
+    entryRegion: 'Bereich',
+    entryDefault: 'Standard',
+    entryNoRegions: 'Keine Bereiche',
+    entryReset: 'Zurücksetzen',
+    addAgain: 'Schon in dieser Playlist – erneut hinzufügen',
+    transition: 'Übergänge',
+    transitionCut: 'Schnitt',
+    transitionCrossfade: 'Überblenden',
+    transitionGapless: 'Lückenlos',
+    transitionHint: 'Zwischen Playlist-Einträgen und Loop-Wiederholungen. Das nächste Video lädt im Hintergrund und startet ohne Pause.',
+    upNext: 'Als Nächstes',
+    upNextSave: 'Als Playlist speichern',
+    upNextClear: 'Leeren',
+    playNext: 'Als Nächstes abspielen',
+    addToQueue: 'Zur Warteschlange',
+
+    // Playlist tools
+    selectedLabel: 'ausgewählt',
+    duplicatePlaylist: 'Playlist duplizieren',
+    copySuffix: '(Kopie)',
+    mergeInto: 'Zusammenführen in',
+    removeDuplicates: 'Duplikate entfernen',
+    splitSelection: 'Auswahl in neue Playlist abspalten',
+    splitSuffix: '(Teil 2)',
+    moveTo: 'Verschieben nach…',
+    copyTo: 'Kopieren nach…',
+    sortBy: 'Sortieren nach',
+    sortTitle: 'Titel',
+    sortAdded: 'Hinzugefügt am',
+    sortLoops: 'Anzahl Loops',
+    undo: 'Rückgängig',
+    undoDuplicate: 'Playlist dupliziert',
+    undoMerge: 'Playlists zusammengeführt',
+    undoSplit: 'Playlist aufgeteilt',
+    undoMoveEntries: 'Videos verschoben',
+    undoCopyEntries: 'Videos kopiert',
+    undoDedupe: 'Duplikate entfernt',
+    undoSort: 'Playlist sortiert',
+    undone: 'Rückgängig gemacht',
+    redo: 'Wiederholen',
+    undoCreatePlaylist: 'Playlist erstellt',
+    undoDeletePlaylist: 'Playlist gelöscht',
+    undoImportPlaylist: 'Playlist importiert',
+    undoAddVideo: 'Video hinzugefügt',
+    undoAddVideos: 'Videos hinzugefügt',
+    undoRemoveVideo: 'Video entfernt',
+    undoRenameVideo: 'Video umbenannt',
+    undoEntrySettings: 'Eintragseinstellungen geändert',
+    undoReorder: 'Reihenfolge geändert',
+    undoEmoji: 'Emoji geändert',
+    undoCreateFolder: 'Ordner erstellt',
+    undoDeleteFolder: 'Ordner gelöscht',
+    undoMoveToFolder: 'In Ordner verschoben',
+    trash: 'Papierkorb',
+    trashEmpty: 'Papierkorb leeren',
+    trashNothing: 'In den letzten 30 Tagen nichts gelöscht',
+    trashDaysLeft: 'Tage übrig',
+    trashRestore: 'Wiederherstellen',
+    trashRestorePlaylistFirst: 'Zuerst die Playlist wiederherstellen',
+    trashDeleteForever: 'Endgültig löschen',
+    undoTrash: 'In den Papierkorb verschoben',
+    undoRestore: 'Wiederhergestellt',
+    undoPurge: 'Endgültig gelöscht',
+    undoMoveFolder: 'Ordner verschoben',
+    newSubfolder: 'Neuer Ordner darin',
+    deleteFolder: 'Ordner löschen',
+    paletteTitle: 'Befehlspalette',
+    palettePlaceholder: 'Bibliothek durchsuchen oder Befehl eingeben…',
+    paletteNoResults: 'Nichts gefunden',
+    paletteAction: 'Aktion',
+    palettePlaylist: 'Playlist',
+    paletteFolder: 'Ordner',
+    paletteSong: 'Song',
+    paletteNote: 'Notiz',
+    paletteRegion: 'Abschnitt',
+    shortcutsTitle: 'Tastenkürzel',
+    shortcutsIntro: 'Auf + klicken und die Tasten für eine Aktion drücken; Esc bricht ab. Strg und ⌘ gelten hier als dieselbe Taste, damit Kürzel auf allen synchronisierten Geräten funktionieren.',
+    shortcutsNone: 'Nicht belegt',
+    shortcutsRecording: 'Tasten drücken…',
+    shortcutsAdd: 'Kürzel hinzufügen',
+    shortcutsReset: 'Auf Standard zurücksetzen',
+    shortcutsConflict: 'Bereits belegt für',
+    shortcutsTakeOver: 'Stattdessen hier verwenden',
+    shortcutsResetAll: 'Alle auf Standard zurücksetzen',
+    shortcutsCustomize: 'Kürzel anpassen',
+    scPlayPause: 'Abspielen / Pause',
+    scBack10: '10 s zurück',
+    scForward10: '10 s vor',
+    scBack30: '30 s zurück',
+    scForward30: '30 s vor',
+    scSpeedUp: 'Schneller +0,05×',
+    scSpeedDown: 'Langsamer −0,05×',
+    scSpeedReset: 'Geschwindigkeit auf 1×',
+    scSetA: 'A hier setzen',
+    scSetB: 'B hier setzen',
+    scNudgeAEarlier: 'A 0,1 s früher',
+    scNudgeALater: 'A 0,1 s später',
+    scNudgeBEarlier: 'B 0,1 s früher',
+    scNudgeBLater: 'B 0,1 s später',
+    scPrevItem: 'Vorheriger Song der Playlist',
+    scNextItem: 'Nächster Song der Playlist',
+    scFocusSearch: 'Suche / URL-Feld fokussieren',
+    scCommandPalette: 'Bibliothek durchsuchen oder Befehl ausführen',
+    scUndo: 'Letzte Bibliotheksänderung rückgängig machen',
+    scRedo: 'Wiederholen',
+    scHelp: 'Hilfe öffnen / schließen',
+
     // Search
     searchPlaceholder: 'YouTube durchsuchen oder Link einfügen…',
     searching: 'Suche…',
@@ -306,6 +702,204 @@ export const translations = {
     selectPlaylist: 'プレイリストを選択…',
     createNewPlaylist: '＋ 新しいプレイリストを作成',
 
+    // Loop regions
+    regions: 'リージョン',
+    addRegion: 'リージョンを追加',
+    saveAsRegion: 'リージョンとして保存',
+    regionDefaultName: 'セクション',
+    deleteRegion: 'リージョンを削除',
+
+    // Speed trainer
+    speedTrainer: 'スピードトレーナー',
+    trainerFrom: '開始',
+    trainerTo: '目標',
+    trainerStep: 'ステップ',
+    trainerEvery: '間隔',
+    trainerLoops: 'ループ',
+    trainerNextIn: '次のステップまで',
+    trainerDone: '目標に到達',
+
+    // Loop pacing
+    pacing: 'リピート間',
+    preRoll: 'プリロール',
+    gap: '間隔',
+    countIn: 'カウントイン',
+
+    // Repeat limit / sleep timer
+    stopAfter: '停止まで',
+    sleepTimer: 'スリープタイマー',
+    sleepMinutes: '分',
+    sleepAtLoopEnd: '現在のループを最後まで再生',
+    sleepCancel: 'スリープタイマーを解除',
+    sleepLastLoop: '最後のループ',
+
+    // Deep links
+    copyLoopLink: 'このループへのリンクをコピー',
+    loopLinkCopied: 'リンクをコピーしました！',
+
+    // Sync status
+    syncSynced: 'すべての変更を同期済み',
+    syncPending: '同期待ちの変更',
+    syncSyncing: '同期中…',
+    syncOffline: 'オフライン — 再接続時に同期されます',
+    syncFailed: '同期に失敗しました — クリックして再試行',
+    transcript: 'トランスクリプト',
+    transcriptLoadFile: 'SRT / VTT / LRC ファイルを読み込む',
+    transcriptPaste: 'テキストを貼り付け',
+    transcriptClear: 'トランスクリプトを削除',
+    transcriptPastePlaceholder: 'SRT、WebVTT、LRC のテキストを貼り付け…',
+    transcriptApply: '使用する',
+    transcriptHint: '行をクリックでループ — Shift+クリックで複数行をループ',
+    transcriptNoLines: 'タイミング付きの行が見つかりません — SRT、WebVTT、LRC に対応しています',
+    transcriptEmpty: '字幕や歌詞を読み込むか貼り付けると、行ごとにループできます',
+    shadowing: 'シャドーイング',
+    shadowStart: 'シャドーイング：1行ずつ再生し、復唱の間を置いて次へ進みます',
+    shadowStop: 'シャドーイングを停止',
+    shadowPause: 'ポーズ',
+    shadowRepeats: '1行の再生回数',
+    shadowLine: '行',
+    shadowPass: '回目',
+    statsTitle: '練習の統計',
+    statsEmpty: 'しばらく再生すると、ここに練習セッションが表示されます。',
+    statsTotalTime: '合計時間',
+    statsLoops: 'ループ',
+    statsStreak: '連続日数',
+    statsBestStreak: '最長連続',
+    statsCalendar: '練習カレンダー',
+    statsPerVideo: '動画ごとの時間',
+    statsPerPlaylist: 'プレイリストごとの時間',
+    statsSpeed: '速度の推移',
+    statsAllVideos: 'すべての動画',
+    statsSpeedEmpty: 'セッションがまだ足りません',
+    statsExportCsv: 'セッションをエクスポート (CSV)',
+    historySearch: '履歴を検索…',
+    historyFrom: '開始日',
+    historyTo: '終了日',
+    historySelectAll: '表示中をすべて選択',
+    historySelectNone: '選択を解除',
+    historySelected: '件選択中',
+    historyAddToPlaylist: 'プレイリストに追加…',
+    historyDeleteSelected: '選択した項目を履歴から削除',
+    historyNoMatches: '一致する項目がありません',
+    historyShowMore: 'さらに表示',
+    smartPlaylists: 'スマートプレイリスト',
+    smartMostLooped: 'よくループ · 30日間',
+    smartWithLoopPoints: 'ループポイント保存済み',
+    smartAddedThisWeek: '今週追加',
+    smartWithNotes: 'メモあり',
+    smartNotInPlaylist: 'プレイリスト未登録の履歴',
+    smartEmpty: 'まだ該当なし',
+    entrySettings: 'この項目の再生設定',
+    entrySpeed: '速度',
+    entryVolume: '音量',
+    entryRepeat: '再生回数',
+    entryRegion: '区間',
+    entryDefault: 'デフォルト',
+    entryNoRegions: '区間なし',
+    entryReset: 'リセット',
+    addAgain: 'このプレイリストに追加済み — もう一度追加',
+    transition: 'トランジション',
+    transitionCut: 'カット',
+    transitionCrossfade: 'クロスフェード',
+    transitionGapless: 'ギャップレス',
+    transitionHint: 'プレイリストの曲間とループの繰り返しに適用。次の動画を裏で読み込み、途切れずに再生します。',
+    upNext: '次に再生',
+    upNextSave: 'プレイリストとして保存',
+    upNextClear: 'クリア',
+    playNext: '次に再生',
+    addToQueue: 'キューに追加',
+
+    // Playlist tools
+    selectedLabel: '件選択中',
+    duplicatePlaylist: 'プレイリストを複製',
+    copySuffix: '（コピー）',
+    mergeInto: '統合先：',
+    removeDuplicates: '重複を削除',
+    splitSelection: '選択した動画を新しいプレイリストに分割',
+    splitSuffix: '（パート2）',
+    moveTo: '移動先…',
+    copyTo: 'コピー先…',
+    sortBy: '並べ替え',
+    sortTitle: 'タイトル',
+    sortAdded: '追加日',
+    sortLoops: 'ループ回数',
+    undo: '元に戻す',
+    undoDuplicate: 'プレイリストを複製しました',
+    undoMerge: 'プレイリストを統合しました',
+    undoSplit: 'プレイリストを分割しました',
+    undoMoveEntries: '動画を移動しました',
+    undoCopyEntries: '動画をコピーしました',
+    undoDedupe: '重複を削除しました',
+    undoSort: 'プレイリストを並べ替えました',
+    undone: '元に戻しました',
+    redo: 'やり直す',
+    undoCreatePlaylist: 'プレイリストを作成しました',
+    undoDeletePlaylist: 'プレイリストを削除しました',
+    undoImportPlaylist: 'プレイリストをインポートしました',
+    undoAddVideo: '動画を追加しました',
+    undoAddVideos: '動画を追加しました',
+    undoRemoveVideo: '動画を削除しました',
+    undoRenameVideo: '動画の名前を変更しました',
+    undoEntrySettings: 'エントリ設定を変更しました',
+    undoReorder: '順序を変更しました',
+    undoEmoji: '絵文字を変更しました',
+    undoCreateFolder: 'フォルダを作成しました',
+    undoDeleteFolder: 'フォルダを削除しました',
+    undoMoveToFolder: 'フォルダに移動しました',
+    trash: 'ゴミ箱',
+    trashEmpty: 'ゴミ箱を空にする',
+    trashNothing: '過去30日間に削除された項目はありません',
+    trashDaysLeft: '日後に完全削除',
+    trashRestore: '復元',
+    trashRestorePlaylistFirst: '先にプレイリストを復元してください',
+    trashDeleteForever: '完全に削除',
+    undoTrash: 'ゴミ箱に移動しました',
+    undoRestore: '復元しました',
+    undoPurge: '完全に削除しました',
+    undoMoveFolder: 'フォルダを移動しました',
+    newSubfolder: 'この中に新しいフォルダ',
+    deleteFolder: 'フォルダを削除',
+    paletteTitle: 'コマンドパレット',
+    palettePlaceholder: 'ライブラリを検索、またはコマンドを入力…',
+    paletteNoResults: '見つかりませんでした',
+    paletteAction: '操作',
+    palettePlaylist: 'プレイリスト',
+    paletteFolder: 'フォルダ',
+    paletteSong: '曲',
+    paletteNote: 'メモ',
+    paletteRegion: 'リージョン',
+    shortcutsTitle: 'キーボードショートカット',
+    shortcutsIntro: '＋をクリックして操作のキーを押します。Escでキャンセル。CtrlとCmd（⌘）は同じキーとして扱われるため、同期したどの端末でも使えます。',
+    shortcutsNone: '未設定',
+    shortcutsRecording: 'キーを押してください…',
+    shortcutsAdd: 'ショートカットを追加',
+    shortcutsReset: 'デフォルトに戻す',
+    shortcutsConflict: 'すでに使用中：',
+    shortcutsTakeOver: 'こちらに割り当てる',
+    shortcutsResetAll: 'すべてデフォルトに戻す',
+    shortcutsCustomize: 'ショートカットをカスタマイズ',
+    scPlayPause: '再生 / 一時停止',
+    scBack10: '10秒戻る',
+    scForward10: '10秒進む',
+    scBack30: '30秒戻る',
+    scForward30: '30秒進む',
+    scSpeedUp: '速度 +0.05×',
+    scSpeedDown: '速度 −0.05×',
+    scSpeedReset: '速度を1×に戻す',
+    scSetA: 'ここをAに設定',
+    scSetB: 'ここをBに設定',
+    scNudgeAEarlier: 'Aを0.1秒前へ',
+    scNudgeALater: 'Aを0.1秒後ろへ',
+    scNudgeBEarlier: 'Bを0.1秒前へ',
+    scNudgeBLater: 'Bを0.1秒後ろへ',
+    scPrevItem: 'プレイリストの前の曲',
+    scNextItem: 'プレイリストの次の曲',
+    scFocusSearch: '検索 / URL欄にフォーカス',
+    scCommandPalette: 'ライブラリを検索、またはコマンドを実行',
+    scUndo: 'ライブラリの最後の変更を元に戻す',
+    scRedo: 'やり直す',
+    scHelp: 'ヘルプを開く / 閉じる',
+
     // Search
     searchPlaceholder: 'YouTubeで検索またはリンクを貼り付け…',
     searching: '検索中…',
@@ -422,6 +1016,204 @@ export const translations = {
     selectPlaylist: 'Sélectionner une playlist…',
     createNewPlaylist: '+ Créer une nouvelle playlist',
 
+    // Loop regions
+    regions: 'Sections',
+    addRegion: 'Ajouter une section',
+    saveAsRegion: 'Enregistrer comme section',
+    regionDefaultName: 'Section',
+    deleteRegion: 'Supprimer la section',
+
+    // Speed trainer
+    speedTrainer: 'Entraîneur de vitesse',
+    trainerFrom: 'Départ',
+    trainerTo: 'Cible',
+    trainerStep: 'Pas',
+    trainerEvery: 'Toutes les',
+    trainerLoops: 'boucles',
+    trainerNextIn: 'Prochain palier dans',
+    trainerDone: 'Cible atteinte',
+
+    // Loop pacing
+    pacing: 'Entre les répétitions',
+    preRoll: 'Pré-roll',
+    gap: 'Pause',
+    countIn: 'Décompte',
+
+    // Repeat limit / sleep timer
+    stopAfter: 'Arrêter après',
+    sleepTimer: 'Minuterie de sommeil',
+    sleepMinutes: 'min',
+    sleepAtLoopEnd: 'Terminer la boucle en cours',
+    sleepCancel: 'Annuler la minuterie',
+    sleepLastLoop: 'Dernière boucle',
+
+    // Deep links
+    copyLoopLink: 'Copier le lien vers cette boucle',
+    loopLinkCopied: 'Lien copié !',
+
+    // Sync status
+    syncSynced: 'Toutes les modifications sont synchronisées',
+    syncPending: 'Modifications en attente de synchronisation',
+    syncSyncing: 'Synchronisation…',
+    syncOffline: 'Hors ligne — synchronisation à la reconnexion',
+    syncFailed: 'Échec de la synchronisation — cliquez pour réessayer',
+    transcript: 'Transcription',
+    transcriptLoadFile: 'Charger un fichier SRT / VTT / LRC',
+    transcriptPaste: 'Coller une transcription',
+    transcriptClear: 'Supprimer la transcription',
+    transcriptPastePlaceholder: 'Collez du texte SRT, WebVTT ou LRC…',
+    transcriptApply: 'Utiliser la transcription',
+    transcriptHint: 'Cliquez sur une ligne pour la boucler — Maj+clic pour boucler plusieurs lignes',
+    transcriptNoLines: 'Aucune ligne minutée trouvée — SRT, WebVTT et LRC sont pris en charge',
+    transcriptEmpty: 'Chargez ou collez des sous-titres ou des paroles pour suivre et boucler ligne par ligne',
+    shadowing: 'Shadowing',
+    shadowStart: 'Shadowing : lit chaque ligne, fait une pause pour la répéter, puis passe à la suivante',
+    shadowStop: 'Arrêter le shadowing',
+    shadowPause: 'Pause',
+    shadowRepeats: 'Lectures par ligne',
+    shadowLine: 'Ligne',
+    shadowPass: 'lecture',
+    statsTitle: 'Statistiques de pratique',
+    statsEmpty: 'Jouez quelque chose un moment — vos sessions apparaîtront ici.',
+    statsTotalTime: 'Temps total',
+    statsLoops: 'Boucles',
+    statsStreak: 'Série (jours)',
+    statsBestStreak: 'Meilleure série',
+    statsCalendar: 'Calendrier de pratique',
+    statsPerVideo: 'Temps par vidéo',
+    statsPerPlaylist: 'Temps par playlist',
+    statsSpeed: 'Progression de la vitesse',
+    statsAllVideos: 'Toutes les vidéos',
+    statsSpeedEmpty: 'Pas encore assez de sessions',
+    statsExportCsv: 'Exporter les sessions (CSV)',
+    historySearch: 'Rechercher dans l’historique…',
+    historyFrom: 'Du',
+    historyTo: 'Au',
+    historySelectAll: 'Tout sélectionner',
+    historySelectNone: 'Effacer la sélection',
+    historySelected: 'sélectionné(s)',
+    historyAddToPlaylist: 'Ajouter à une playlist…',
+    historyDeleteSelected: 'Retirer la sélection de l’historique',
+    historyNoMatches: 'Aucun résultat',
+    historyShowMore: 'Afficher plus',
+    smartPlaylists: 'Playlists intelligentes',
+    smartMostLooped: 'Les plus bouclées · 30 jours',
+    smartWithLoopPoints: 'Avec points de boucle',
+    smartAddedThisWeek: 'Ajoutées cette semaine',
+    smartWithNotes: 'Avec notes',
+    smartNotInPlaylist: 'Historique hors playlist',
+    smartEmpty: 'Rien pour l’instant',
+    entrySettings: 'Réglages de lecture de cette entrée',
+    entrySpeed: 'Vitesse',
+    entryVolume: 'Volume',
+    entryRepeat: 'Lectures',
+    entryRegion: 'Région',
+    entryDefault: 'Par défaut',
+    entryNoRegions: 'Aucune région',
+    entryReset: 'Réinitialiser',
+    addAgain: 'Déjà dans cette playlist — ajouter à nouveau',
+    transition: 'Transitions',
+    transitionCut: 'Coupure',
+    transitionCrossfade: 'Fondu enchaîné',
+    transitionGapless: 'Sans blanc',
+    transitionHint: 'Entre les éléments d’une playlist et les répétitions de boucle. La vidéo suivante se charge en arrière-plan pour démarrer sans blanc.',
+    upNext: 'À suivre',
+    upNextSave: 'Enregistrer en playlist',
+    upNextClear: 'Vider',
+    playNext: 'Lire ensuite',
+    addToQueue: 'Ajouter à la file',
+
+    // Playlist tools
+    selectedLabel: 'sélectionné(s)',
+    duplicatePlaylist: 'Dupliquer la playlist',
+    copySuffix: '(copie)',
+    mergeInto: 'Fusionner dans',
+    removeDuplicates: 'Supprimer les doublons',
+    splitSelection: 'Scinder la sélection dans une nouvelle playlist',
+    splitSuffix: '(partie 2)',
+    moveTo: 'Déplacer vers…',
+    copyTo: 'Copier vers…',
+    sortBy: 'Trier par',
+    sortTitle: 'Titre',
+    sortAdded: 'Date d’ajout',
+    sortLoops: 'Nombre de boucles',
+    undo: 'Annuler',
+    undoDuplicate: 'Playlist dupliquée',
+    undoMerge: 'Playlists fusionnées',
+    undoSplit: 'Playlist scindée',
+    undoMoveEntries: 'Vidéos déplacées',
+    undoCopyEntries: 'Vidéos copiées',
+    undoDedupe: 'Doublons supprimés',
+    undoSort: 'Playlist triée',
+    undone: 'Annulé',
+    redo: 'Rétablir',
+    undoCreatePlaylist: 'Playlist créée',
+    undoDeletePlaylist: 'Playlist supprimée',
+    undoImportPlaylist: 'Playlist importée',
+    undoAddVideo: 'Vidéo ajoutée',
+    undoAddVideos: 'Vidéos ajoutées',
+    undoRemoveVideo: 'Vidéo retirée',
+    undoRenameVideo: 'Vidéo renommée',
+    undoEntrySettings: 'Réglages de l’entrée modifiés',
+    undoReorder: 'Ordre modifié',
+    undoEmoji: 'Emoji modifié',
+    undoCreateFolder: 'Dossier créé',
+    undoDeleteFolder: 'Dossier supprimé',
+    undoMoveToFolder: 'Déplacée dans le dossier',
+    trash: 'Corbeille',
+    trashEmpty: 'Vider la corbeille',
+    trashNothing: 'Rien de supprimé ces 30 derniers jours',
+    trashDaysLeft: 'jours restants',
+    trashRestore: 'Restaurer',
+    trashRestorePlaylistFirst: 'Restaurez d’abord sa playlist',
+    trashDeleteForever: 'Supprimer définitivement',
+    undoTrash: 'Mis à la corbeille',
+    undoRestore: 'Restauré',
+    undoPurge: 'Supprimé définitivement',
+    undoMoveFolder: 'Dossier déplacé',
+    newSubfolder: 'Nouveau dossier à l’intérieur',
+    deleteFolder: 'Supprimer le dossier',
+    paletteTitle: 'Palette de commandes',
+    palettePlaceholder: 'Chercher dans la bibliothèque ou taper une commande…',
+    paletteNoResults: 'Aucun résultat',
+    paletteAction: 'Action',
+    palettePlaylist: 'Playlist',
+    paletteFolder: 'Dossier',
+    paletteSong: 'Morceau',
+    paletteNote: 'Note',
+    paletteRegion: 'Section',
+    shortcutsTitle: 'Raccourcis clavier',
+    shortcutsIntro: 'Cliquez sur + et appuyez sur les touches d’une action ; Échap annule. Ctrl et ⌘ comptent comme la même touche, pour que les raccourcis marchent sur tous les appareils synchronisés.',
+    shortcutsNone: 'Aucun',
+    shortcutsRecording: 'Appuyez sur les touches…',
+    shortcutsAdd: 'Ajouter un raccourci',
+    shortcutsReset: 'Rétablir par défaut',
+    shortcutsConflict: 'Déjà utilisé pour',
+    shortcutsTakeOver: 'Utiliser ici',
+    shortcutsResetAll: 'Tout rétablir par défaut',
+    shortcutsCustomize: 'Personnaliser les raccourcis',
+    scPlayPause: 'Lecture / Pause',
+    scBack10: 'Reculer de 10 s',
+    scForward10: 'Avancer de 10 s',
+    scBack30: 'Reculer de 30 s',
+    scForward30: 'Avancer de 30 s',
+    scSpeedUp: 'Accélérer +0,05×',
+    scSpeedDown: 'Ralentir −0,05×',
+    scSpeedReset: 'Vitesse à 1×',
+    scSetA: 'Placer A ici',
+    scSetB: 'Placer B ici',
+    scNudgeAEarlier: 'Reculer A de 0,1 s',
+    scNudgeALater: 'Avancer A de 0,1 s',
+    scNudgeBEarlier: 'Reculer B de 0,1 s',
+    scNudgeBLater: 'Avancer B de 0,1 s',
+    scPrevItem: 'Morceau précédent de la playlist',
+    scNextItem: 'Morceau suivant de la playlist',
+    scFocusSearch: 'Aller à la recherche / URL',
+    scCommandPalette: 'Chercher dans la bibliothèque ou lancer une commande',
+    scUndo: 'Annuler la dernière modification',
+    scRedo: 'Rétablir',
+    scHelp: 'Ouvrir / fermer l’aide',
+
     // Search
     searchPlaceholder: 'Rechercher sur YouTube ou coller un lien…',
     searching: 'Recherche…',
@@ -0,0 +1,153 @@
+import type { Translations } from './translations'
+
+// Library-wide undo/redo. Collection hooks push an entry for each change they
+// make; the entry knows how to put that change back and how to make it again.
+export interface UndoEntry {
+  // Translation key naming the change, for the toast
+  label: keyof Translations
+  undo: () => void
+  redo: () => void
+}
+
+const MAX_UNDO = 50
+
+let done: UndoEntry[] = []
+let undone: UndoEntry[] = []
+// Open undoGroup calls collect entries here instead of pushing them
+let group: UndoEntry[] | null = null
+
+type UndoEvent = 'push' | 'undo' | 'redo'
+const listeners = new Set<(event: UndoEvent, entry: UndoEntry) => void>()
+
+function emit(event: UndoEvent, entry: UndoEntry) {
+  listeners.forEach((fn) => fn(event, entry))
+}
+
+export function pushUndo(entry: UndoEntry) {
+  if (group) {
+    group.push(entry)
+    return
+  }
+  done = [...done, entry].slice(-MAX_UNDO)
+  undone = []
+  emit('push', entry)
+}
+
+// Everything `fn` changes becomes one step, e.g. creating a playlist and
+// filling it with an import
+export function undoGroup<T>(label: UndoEntry['label'], fn: () => T): T {
+  if (group) return fn()
+  const entries: UndoEntry[] = []
+  group = entries
+  let result: T
+  try {
+    result = fn()
+  } finally {
+    group = null
+  }
+  if (entries.length) pushUndo({
+    label,
+    undo: () => [...entries].reverse().forEach((e) => e.undo()),
+    redo: () => entries.forEach((e) => e.redo()),
+  })
+  return result
+}
+
+export function undoLast(): UndoEntry | undefined {
+  const entry = done[done.length - 1]
+  if (!entry) return undefined
+  done = done.slice(0, -1)
+  undone = [...undone, entry]
+  entry.undo()
+  emit('undo', entry)
+  return entry
+}
+
+export function redoLast(): UndoEntry | undefined {
+  const entry = undone[undone.length - 1]
+  if (!entry) return undefined
+  undone = undone.slice(0, -1)
+  done = [...done, entry]
+  entry.redo()
+  emit('redo', entry)
+  return entry
+}
+
+export function clearUndo() {
+  done = []
+  undone = []
+}
+
+export function subscribeUndo(fn: (event: UndoEvent, entry: UndoEntry) => void): () => void {
+  listeners.add(fn)
+  return () => { listeners.delete(fn) }
+}
+
+// Ids of the items a change edited, added or removed. Untouched items keep
+// their identity through an update, so a reference check is enough.
+export function changedIds<T>(before: T[], after: T[], idOf: (item: T) => string): Set<string> {
+  const beforeById = new Map(before.map((item) => [idOf(item), item]))
+  const afterIds = new Set<string>()
+  const changed = new Set<string>()
+  after.forEach((item) => {
+    const id = idOf(item)
+    afterIds.add(id)
+    if (beforeById.get(id) !== item) changed.add(id)
+  })
+  beforeById.forEach((_, id) => { if (!afterIds.has(id)) changed.add(id) })
+  return changed
+}
+
+// Whether the items present on both sides were rearranged
+export function orderChanged<T>(before: T[], after: T[], idOf: (item: T) => string): boolean {
+  const afterIds = new Set(after.map(idOf))
+  const beforeIds = new Set(before.map(idOf))
+  const kept = before.map(idOf).filter((id) => afterIds.has(id))
+  const order = after.map(idOf).filter((id) => beforeIds.has(id))
+  return kept.some((id, i) => order[i] !== id)
+}
+
+// Undo `before` → `after` on top of `current`. Only the items that change
+// touched go back to their old versions (removed ones return where they
+// were, added ones go away), and a reorder is put back among the items
+// `before` knew. Anything changed since, elsewhere in the collection, stays as
+// it is now. Swapping `before` and `after` redoes the change.
+export function revertChange<T>(current: T[], before: T[], after: T[], idOf: (item: T) => string): T[] {
+  const touched = changedIds(before, after, idOf)
+  const beforeById = new Map(before.map((item) => [idOf(item), item]))
+  const result = current
+    .filter((item) => !touched.has(idOf(item)) || beforeById.has(idOf(item)))
+    .map((item) => (touched.has(idOf(item)) ? beforeById.get(idOf(item))! : item))
+  const present = new Set(result.map(idOf))
+  before.forEach((item, index) => {
+    const id = idOf(item)
+    if (!touched.has(id) || present.has(id)) return
+    // Back in after whatever preceded it, or at the top
+    const prevId = before.slice(0, index).map(idOf).reverse().find((p) => present.has(p))
+    result.splice(prevId === undefined ? 0 : result.findIndex((r) => idOf(r) === prevId) + 1, 0, item)
+    present.add(id)
+  })
+  if (!orderChanged(before, after, idOf)) return result
+  // Items `before` knew take its order between them; newer ones keep their slots
+  const rank = new Map(before.map((item, i) => [idOf(item), i]))
+  const known = result.filter((item) => rank.has(idOf(item))).sort((a, b) => rank.get(idOf(a))! - rank.get(idOf(b))!)
+  let k = 0
+  return result.map((item) => (rank.has(idOf(item)) ? known[k++] : item))
+}
+
+// The undo entry for one committed change of a collection. `read` gives the
+// collection as it is when the user undoes; `write` commits a new version.
+export function collectionUndo<T>(
+  label: UndoEntry['label'],
+  before: T[],
+  after: T[],
+  idOf: (item: T) => string,
+  read: () => T[],
+  write: (next: T[]) => void,
+): UndoEntry {
+  return {
+    label,
+    undo: () => write(revertChange(read(), before, after, idOf)),
+    redo: () => write(revertChange(read(), after, before, idOf)),
+  }
+}
@@ -27,7 +27,7 @@ function isExpired(user: AuthUser): boolean {
   return Date.now() / 1000 > user.exp
 }
 
-function getStoredUser(): AuthUser | null {
+export function getStoredUser(): AuthUser | null {
   try {
     const token = localStorage.getItem(TOKEN_KEY)
     if (!token) return null
@@ -1,24 +1,28 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { getAuthToken, trigger401 } from './use-auth'
+import { recordChange, hydrateCollection, cachedCollection, registerCollection, adoptCollection } from './sync-engine'
+import { broadcast, subscribeTab } from './cross-tab'
+import { type UndoEntry, pushUndo, clearUndo, changedIds, orderChanged, collectionUndo } from './undo'
+import { normalizeFolders, parentOf, isWithin } from './folder-tree'
 
 export interface Folder {
   id: string
   name: string
   emoji?: string
   createdAt: number
+  updatedAt?: number
   playlistIds: string[]
+  // Enclosing folder; absent (or null) at the top level
+  parentId?: string | null
 }
 
 const STORAGE_KEY = 'yol-folders'
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
-const DEBOUNCE_MS = 500
 
 function loadLocal(): Folder[] {
   try {
     const raw = localStorage.getItem(STORAGE_KEY)
-    return raw ? JSON.parse(raw) : []
+    return raw ? normalizeFolders(JSON.parse(raw)) : []
   } catch { return [] }
 }
 
@@ -26,90 +30,131 @@ function saveLocal(folders: Folder[]) {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(folders))
 }
 
-async function syncToServer(folders: Folder[]) {
-  const token = getAuthToken()
-  if (!token) return
-  const res = await fetch(`${API_URL}/yol/sync/folders`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
-    body: JSON.stringify({ data: folders }),
-  })
-  if (res.status === 401) trigger401()
-}
-
 export function useFolders(isLoggedIn: boolean) {
   const [folders, setFolders] = useState<Folder[]>([])
-  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Always the latest version, including changes not rendered yet
+  const foldersRef = useRef<Folder[]>([])
 
-  useEffect(() => {
-    if (!isLoggedIn) setFolders(loadLocal())
-  }, [isLoggedIn])
+  const replace = useCallback((items: Folder[]) => {
+    foldersRef.current = items
+    setFolders(items)
+  }, [])
 
-  const persist = useCallback((next: Folder[]) => {
-    if (isLoggedIn) {
-      if (debounceRef.current) clearTimeout(debounceRef.current)
-      debounceRef.current = setTimeout(() => syncToServer(next), DEBOUNCE_MS)
-    } else {
-      saveLocal(next)
-    }
+  useEffect(() => {
+    clearUndo()
+    replace(isLoggedIn ? cachedCollection<Folder>('folders') : loadLocal())
+  }, [isLoggedIn, replace])
+
+  // Signed out: plain localStorage. Signed in: through the sync engine, which
+  // stamps changed items and queues them for the server. Either way other
+  // open tabs get the result.
+  const commit = useCallback((prev: Folder[], next: Folder[]) => {
+    const result = isLoggedIn ? recordChange('folders', prev, next) : next
+    if (!isLoggedIn) saveLocal(result)
+    broadcast('folders', result)
+    return result
   }, [isLoggedIn])
 
-  const hydrate = useCallback((data: Folder[]) => setFolders(data), [])
-
-  const flushSync = useCallback(() => {
-    if (debounceRef.current) {
-      clearTimeout(debounceRef.current)
-      debounceRef.current = null
-      syncToServer(folders)
-    }
-  }, [folders])
+  useEffect(() => subscribeTab<Folder[]>('folders', (items) => {
+    if (isLoggedIn) adoptCollection('folders', items)
+    replace(items)
+  }), [isLoggedIn, replace])
 
-  const createFolder = useCallback((name: string): string => {
+  useEffect(() => {
+    if (isLoggedIn) return registerCollection<Folder>('folders', replace)
+  }, [isLoggedIn, replace])
+
+  const hydrate = useCallback((data: Folder[]) => {
+    // Backups and the server may still hold flat folders, or a tree that
+    // only arrived in part
+    const folders = normalizeFolders(data)
+    replace(isLoggedIn ? hydrateCollection('folders', folders) : folders)
+  }, [isLoggedIn, replace])
+
+  // Committed from the ref and recorded for undo, as in usePlaylists
+  const write = useCallback((next: Folder[]) => {
+    replace(commit(foldersRef.current, next))
+  }, [commit, replace])
+
+  const apply = useCallback((label: UndoEntry['label'], fn: (prev: Folder[]) => Folder[]) => {
+    const prev = foldersRef.current
+    const next = fn(prev)
+    const idOf = (f: Folder) => f.id
+    if (changedIds(prev, next, idOf).size === 0 && !orderChanged(prev, next, idOf)) return
+    write(next)
+    pushUndo(collectionUndo(label, prev, next, idOf, () => foldersRef.current, write))
+  }, [write])
+
+  const createFolder = useCallback((name: string, parentId: string | null = null): string => {
     const folder: Folder = {
       id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
-      name: name.trim(), createdAt: Date.now(), playlistIds: [],
+      name: name.trim(), createdAt: Date.now(), playlistIds: [], parentId,
     }
-    setFolders((prev) => { const next = [folder, ...prev]; persist(next); return next })
+    apply('undoCreateFolder', (prev) => [folder, ...prev])
     return folder.id
-  }, [persist])
+  }, [apply])
 
+  // Subfolders move up a level rather than vanish with it
   const deleteFolder = useCallback((id: string) => {
-    setFolders((prev) => { const next = prev.filter((f) => f.id !== id); persist(next); return next })
-  }, [persist])
-
-  const moveToFolder = useCallback((playlistId: string, folderId: string | null) => {
-    setFolders((prev) => {
-      const next = prev.map((f) => ({ ...f, playlistIds: f.playlistIds.filter((id) => id !== playlistId) }))
-      if (folderId) {
-        const idx = next.findIndex((f) => f.id === folderId)
-        if (idx !== -1) next[idx] = { ...next[idx], playlistIds: [...next[idx].playlistIds, playlistId] }
-      }
-      persist(next)
-      return next
+    apply('undoDeleteFolder', (prev) => {
+      const folder = prev.find((f) => f.id === id)
+      if (!folder) return prev
+      const parentId = parentOf(prev, folder)
+      return prev
+        .filter((f) => f.id !== id)
+        .map((f) => (parentOf(prev, f) === id ? { ...f, parentId } : f))
+    })
+  }, [apply])
+
+  // Into another folder (or the top level), never into itself or below
+  // itself. `orderedSiblingIds` is the order its new siblings should end up
+  // in, the moved folder included; they keep the slots they had among the
+  // rest of the collection.
+  const moveFolder = useCallback((id: string, parentId: string | null, orderedSiblingIds?: string[]) => {
+    apply('undoMoveFolder', (prev) => {
+      if (parentId && isWithin(prev, parentId, id)) return prev
+      const moved = prev.map((f) => (f.id === id && parentOf(prev, f) !== parentId ? { ...f, parentId } : f))
+      if (!orderedSiblingIds) return moved
+      const byId = new Map(moved.map((f) => [f.id, f]))
+      const queue = orderedSiblingIds.map((sid) => byId.get(sid)).filter(Boolean) as Folder[]
+      const ordered = new Set(queue.map((f) => f.id))
+      return moved.map((f) => (ordered.has(f.id) ? queue.shift()! : f))
     })
-  }, [persist])
+  }, [apply])
+
+  // Folders that didn't hold the playlist stay untouched, so undo and sync
+  // only see the ones that changed. Without an index it goes at the end.
+  const moveToFolder = useCallback((playlistId: string, folderId: string | null, index?: number) => {
+    apply('undoMoveToFolder', (prev) => prev.map((f) => {
+      const rest = f.playlistIds.filter((id) => id !== playlistId)
+      if (f.id === folderId) {
+        rest.splice(Math.min(index ?? rest.length, rest.length), 0, playlistId)
+        return { ...f, playlistIds: rest }
+      }
+      return rest.length === f.playlistIds.length ? f : { ...f, playlistIds: rest }
+    }))
+  }, [apply])
+
+  const restoreFolder = useCallback((folder: Folder) => {
+    apply('undoRestore', (prev) => (prev.some((f) => f.id === folder.id) ? prev : [folder, ...prev]))
+  }, [apply])
 
   const reorderFolderPlaylists = useCallback((folderId: string, orderedIds: string[]) => {
-    setFolders((prev) => {
-      const next = prev.map((f) => f.id === folderId ? { ...f, playlistIds: orderedIds } : f)
-      persist(next)
-      return next
-    })
-  }, [persist])
+    apply('undoReorder', (prev) => prev.map((f) => f.id === folderId ? { ...f, playlistIds: orderedIds } : f))
+  }, [apply])
 
   const reorderFolders = useCallback((orderedIds: string[]) => {
-    setFolders((prev) => {
+    apply('undoReorder', (prev) => {
       const map = new Map(prev.map((f) => [f.id, f]))
       const next = orderedIds.map((id) => map.get(id)).filter(Boolean) as Folder[]
       prev.forEach((f) => { if (!next.find((n) => n.id === f.id)) next.push(f) })
-      persist(next)
       return next
     })
-  }, [persist])
+  }, [apply])
 
   const setFolderEmoji = useCallback((id: string, emoji: string) => {
-    setFolders((prev) => { const next = prev.map((f) => (f.id === id ? { ...f, emoji } : f)); persist(next); return next })
-  }, [persist])
+    apply('undoEmoji', (prev) => prev.map((f) => (f.id === id ? { ...f, emoji } : f)))
+  }, [apply])
 
-  return { folders, setFolders: hydrate, flushSync, createFolder, deleteFolder, moveToFolder, reorderFolderPlaylists, reorderFolders, setFolderEmoji }
+  return { folders, setFolders: hydrate, createFolder, deleteFolder, moveToFolder, reorderFolderPlaylists, reorderFolders, setFolderEmoji, restoreFolder, moveFolder }
 }
@@ -1,19 +1,18 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { getAuthToken, trigger401 } from './use-auth'
+import { recordChange, hydrateCollection, cachedCollection, registerCollection, adoptCollection } from './sync-engine'
+import { broadcast, subscribeTab } from './cross-tab'
 
 export interface LoopHistoryItem {
   videoId: string
   loopCount: number
   lastPlayed: number
+  updatedAt?: number
   title?: string
 }
 
 const STORAGE_KEY = 'yol-loop-history'
-const MAX_ITEMS = 20
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
-const DEBOUNCE_MS = 500
 
 function loadLocal(): LoopHistoryItem[] {
   try {
@@ -23,18 +22,7 @@ function loadLocal(): LoopHistoryItem[] {
 }
 
 function saveLocal(items: LoopHistoryItem[]) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(items.slice(0, MAX_ITEMS)))
-}
-
-async function syncToServer(items: LoopHistoryItem[]) {
-  const token = getAuthToken()
-  if (!token) return
-  const res = await fetch(`${API_URL}/yol/sync/history`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
-    body: JSON.stringify({ data: items }),
-  })
-  if (res.status === 401) trigger401()
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
 }
 
 export function getStoredLoopCount(videoId: string): number {
@@ -44,58 +32,69 @@ export function getStoredLoopCount(videoId: string): number {
 
 export function useLoopHistory(isLoggedIn: boolean) {
   const [history, setHistory] = useState<LoopHistoryItem[]>([])
-  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Always the latest version, including changes not rendered yet
+  const historyRef = useRef<LoopHistoryItem[]>([])
+
+  const replace = useCallback((items: LoopHistoryItem[]) => {
+    historyRef.current = items
+    setHistory(items)
+  }, [])
 
   useEffect(() => {
-    if (!isLoggedIn) setHistory(loadLocal())
+    replace(isLoggedIn ? cachedCollection<LoopHistoryItem>('history') : loadLocal())
+  }, [isLoggedIn, replace])
+
+  // Signed out: plain localStorage. Signed in: through the sync engine, which
+  // stamps changed items and queues them for the server. Either way other
+  // open tabs get the result.
+  const commit = useCallback((prev: LoopHistoryItem[], next: LoopHistoryItem[]) => {
+    const result = isLoggedIn ? recordChange('history', prev, next) : next
+    if (!isLoggedIn) saveLocal(result)
+    broadcast('history', result)
+    return result
   }, [isLoggedIn])
 
-  const persist = useCallback((next: LoopHistoryItem[]) => {
-    if (isLoggedIn) {
-      if (debounceRef.current) clearTimeout(debounceRef.current)
-      debounceRef.current = setTimeout(() => syncToServer(next), DEBOUNCE_MS)
-    } else {
-      saveLocal(next)
-    }
-  }, [isLoggedIn])
+  useEffect(() => subscribeTab<LoopHistoryItem[]>('history', (items) => {
+    if (isLoggedIn) adoptCollection('history', items)
+    replace(items)
+  }), [isLoggedIn, replace])
+
+  useEffect(() => {
+    if (isLoggedIn) return registerCollection<LoopHistoryItem>('history', replace)
+  }, [isLoggedIn, replace])
 
-  const hydrate = useCallback((data: LoopHistoryItem[]) => setHistory(data), [])
+  const hydrate = useCallback((data: LoopHistoryItem[]) => {
+    replace(isLoggedIn ? hydrateCollection('history', data) : data)
+  }, [isLoggedIn, replace])
 
-  const flushSync = useCallback(() => {
-    if (debounceRef.current) {
-      clearTimeout(debounceRef.current)
-      debounceRef.current = null
-      syncToServer(history)
-    }
-  }, [history])
+  // Committed straight from the ref rather than in a state updater, so each
+  // change is recorded once and back-to-back calls see the previous result
+  const apply = useCallback((fn: (prev: LoopHistoryItem[]) => LoopHistoryItem[]) => {
+    const prev = historyRef.current
+    replace(commit(prev, fn(prev)))
+  }, [commit, replace])
 
   const upsert = useCallback((videoId: string, loopCount: number, title?: string) => {
-    setHistory((prev) => {
+    apply((prev) => {
       const existing = prev.find((h) => h.videoId === videoId)
       const next = prev.filter((h) => h.videoId !== videoId)
       next.unshift({ videoId, loopCount, lastPlayed: Date.now(), title: title ?? existing?.title })
-      const trimmed = next.slice(0, MAX_ITEMS)
-      persist(trimmed)
-      return trimmed
+      return next
     })
-  }, [persist])
+  }, [apply])
 
   const remove = useCallback((videoId: string) => {
-    setHistory((prev) => {
-      const next = prev.filter((h) => h.videoId !== videoId)
-      persist(next)
-      return next
-    })
-  }, [persist])
+    apply((prev) => prev.filter((h) => h.videoId !== videoId))
+  }, [apply])
+
+  const removeMany = useCallback((videoIds: string[]) => {
+    const drop = new Set(videoIds)
+    apply((prev) => prev.filter((h) => !drop.has(h.videoId)))
+  }, [apply])
 
   const clear = useCallback(() => {
-    if (isLoggedIn) {
-      syncToServer([])
-    } else {
-      localStorage.removeItem(STORAGE_KEY)
-    }
-    setHistory([])
-  }, [isLoggedIn])
+    apply(() => [])
+  }, [apply])
 
-  return { history, setHistory: hydrate, flushSync, upsert, remove, clear }
+  return { history, setHistory: hydrate, upsert, remove, removeMany, clear }
 }
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { recordChange, hydrateCollection, cachedCollection, registerCollection, adoptCollection } from './sync-engine'
+import { broadcast, subscribeTab } from './cross-tab'
+
+export interface VideoNote {
+  videoId: string
+  markdown: string
+  updatedAt?: number
+}
+
+// Notes keyed by video id — the shape exports and the editor work with
+export type NotesMap = Record<string, string>
+
+const STORAGE_KEY = 'yol-notes'
+
+export function notesToItems(map: NotesMap): VideoNote[] {
+  return Object.entries(map).map(([videoId, markdown]) => ({ videoId, markdown }))
+}
+
+export function itemsToNotes(items: VideoNote[]): NotesMap {
+  const map: NotesMap = {}
+  for (const n of items) map[n.videoId] = n.markdown
+  return map
+}
+
+// Stored as a plain map so backups and older versions keep reading it
+function loadLocal(): VideoNote[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? notesToItems(JSON.parse(raw)) : []
+  } catch { return [] }
+}
+
+function saveLocal(notes: VideoNote[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(itemsToNotes(notes)))
+}
+
+export function useNotes(isLoggedIn: boolean) {
+  const [items, setItems] = useState<VideoNote[]>([])
+  // Always the latest version, including changes not rendered yet
+  const itemsRef = useRef<VideoNote[]>([])
+
+  const replace = useCallback((next: VideoNote[]) => {
+    itemsRef.current = next
+    setItems(next)
+  }, [])
+
+  useEffect(() => {
+    replace(isLoggedIn ? cachedCollection<VideoNote>('notes') : loadLocal())
+  }, [isLoggedIn, replace])
+
+  // Same path as the other library hooks: localStorage when signed out, the
+  // sync engine when signed in, and a broadcast to other tabs either way.
+  const commit = useCallback((prev: VideoNote[], next: VideoNote[]) => {
+    const result = isLoggedIn ? recordChange('notes', prev, next) : next
+    if (!isLoggedIn) saveLocal(result)
+    broadcast('notes', result)
+    return result
+  }, [isLoggedIn])
+
+  useEffect(() => subscribeTab<VideoNote[]>('notes', (incoming) => {
+    if (isLoggedIn) adoptCollection('notes', incoming)
+    replace(incoming)
+  }), [isLoggedIn, replace])
+
+  useEffect(() => {
+    if (isLoggedIn) return registerCollection<VideoNote>('notes', replace)
+  }, [isLoggedIn, replace])
+
+  const hydrate = useCallback((data: VideoNote[]) => {
+    replace(isLoggedIn ? hydrateCollection('notes', data) : data)
+  }, [isLoggedIn, replace])
+
+  // Committed from the ref, outside any state updater, so a change is
+  // recorded and broadcast exactly once
+  const write = useCallback((next: VideoNote[]) => {
+    replace(commit(itemsRef.current, next))
+  }, [commit, replace])
+
+  const saveNote = useCallback((videoId: string, markdown: string) => {
+    const prev = itemsRef.current
+    const existing = prev.find((n) => n.videoId === videoId)
+    if (existing?.markdown === markdown) return
+    write(existing
+      ? prev.map((n) => (n.videoId === videoId ? { ...n, markdown } : n))
+      : [{ videoId, markdown }, ...prev])
+  }, [write])
+
+  // Before account sync, signed-in users' notes also lived only in
+  // localStorage. Fold any left there into the account — for videos the
+  // account has no note for yet — and drop the local copy.
+  const absorbLocal = useCallback(() => {
+    if (!isLoggedIn) return
+    const local = loadLocal().filter((n) => n.markdown)
+    if (local.length === 0) return
+    localStorage.removeItem(STORAGE_KEY)
+    const prev = itemsRef.current
+    const known = new Set(prev.map((n) => n.videoId))
+    const added = local.filter((n) => !known.has(n.videoId))
+    if (added.length) write([...added, ...prev])
+  }, [isLoggedIn, write])
+
+  const notes = useMemo(() => itemsToNotes(items), [items])
+
+  return { notes, setNotes: hydrate, saveNote, absorbLocal }
+}
@@ -1,25 +1,49 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { getAuthToken, trigger401 } from './use-auth'
+import { recordChange, hydrateCollection, cachedCollection, registerCollection, adoptCollection } from './sync-engine'
+import { broadcast, subscribeTab } from './cross-tab'
+import { type UndoEntry, pushUndo, clearUndo, changedIds, orderChanged, collectionUndo } from './undo'
+import {
+  type PlaylistSort,
+  newPlaylistId,
+  duplicatePlaylist,
+  mergePlaylists,
+  splitPlaylist,
+  transferEntries,
+  dedupePlaylists,
+  sortPlaylist,
+} from './playlist-tools'
 
 export interface PlaylistVideo {
   videoId: string
   title?: string
   addedAt: number
+  // Tells repeated entries of the same video apart. Entries saved before
+  // duplicates were allowed have none and are keyed by videoId instead.
+  entryId?: string
+  // Playback overrides applied whenever this entry loads
+  speed?: number
+  volume?: number
+  // Loops to play before the playlist advances
+  repeat?: number
+  regionId?: string
 }
 
+export type EntrySettings = Pick<PlaylistVideo, 'speed' | 'volume' | 'repeat' | 'regionId'>
+
+export const entryKey = (v: PlaylistVideo) => v.entryId ?? v.videoId
+
 export interface Playlist {
   id: string
   name: string
   emoji?: string
   createdAt: number
+  updatedAt?: number
   videos: PlaylistVideo[]
 }
 
 const STORAGE_KEY = 'yol-playlists'
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
-const DEBOUNCE_MS = 500
 
 function loadLocal(): Playlist[] {
   try {
@@ -32,121 +56,176 @@ function saveLocal(playlists: Playlist[]) {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(playlists))
 }
 
-async function syncToServer(playlists: Playlist[]) {
-  const token = getAuthToken()
-  if (!token) return
-  const res = await fetch(`${API_URL}/yol/sync/playlists`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
-    body: JSON.stringify({ data: playlists }),
-  })
-  if (res.status === 401) trigger401()
-}
-
 export function usePlaylists(isLoggedIn: boolean) {
   const [playlists, setPlaylists] = useState<Playlist[]>([])
-  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Always the latest version, including changes not rendered yet
+  const playlistsRef = useRef<Playlist[]>([])
+
+  const replace = useCallback((items: Playlist[]) => {
+    playlistsRef.current = items
+    setPlaylists(items)
+  }, [])
 
+  // Signing in or out swaps in another library; its undo steps don't apply
   useEffect(() => {
-    if (!isLoggedIn) {
-      setPlaylists(loadLocal())
-    }
+    clearUndo()
+    replace(isLoggedIn ? cachedCollection<Playlist>('playlists') : loadLocal())
+  }, [isLoggedIn, replace])
+
+  // Signed out: plain localStorage. Signed in: through the sync engine, which
+  // stamps changed items and queues them for the server. Either way other
+  // open tabs get the result.
+  const commit = useCallback((prev: Playlist[], next: Playlist[]) => {
+    const result = isLoggedIn ? recordChange('playlists', prev, next) : next
+    if (!isLoggedIn) saveLocal(result)
+    broadcast('playlists', result)
+    return result
   }, [isLoggedIn])
 
-  const persist = useCallback((next: Playlist[]) => {
-    if (isLoggedIn) {
-      if (debounceRef.current) clearTimeout(debounceRef.current)
-      debounceRef.current = setTimeout(() => syncToServer(next), DEBOUNCE_MS)
-    } else {
-      saveLocal(next)
-    }
-  }, [isLoggedIn])
+  useEffect(() => subscribeTab<Playlist[]>('playlists', (items) => {
+    if (isLoggedIn) adoptCollection('playlists', items)
+    replace(items)
+  }), [isLoggedIn, replace])
 
-  const hydrate = useCallback((data: Playlist[]) => {
-    setPlaylists(data)
-  }, [])
+  useEffect(() => {
+    if (isLoggedIn) return registerCollection<Playlist>('playlists', replace)
+  }, [isLoggedIn, replace])
 
-  const flushSync = useCallback(() => {
-    if (debounceRef.current) {
-      clearTimeout(debounceRef.current)
-      debounceRef.current = null
-      syncToServer(playlists)
-    }
-  }, [playlists])
+  const hydrate = useCallback((data: Playlist[]) => {
+    replace(isLoggedIn ? hydrateCollection('playlists', data) : data)
+  }, [isLoggedIn, replace])
+
+  // Every change commits straight from the ref rather than in a state
+  // updater, so it is recorded for undo exactly once and back-to-back calls
+  // (an import filling a new playlist) each see the previous result
+  const write = useCallback((next: Playlist[]) => {
+    replace(commit(playlistsRef.current, next))
+  }, [commit, replace])
+
+  const apply = useCallback((label: UndoEntry['label'], fn: (prev: Playlist[]) => Playlist[]) => {
+    const prev = playlistsRef.current
+    const next = fn(prev)
+    const idOf = (p: Playlist) => p.id
+    if (changedIds(prev, next, idOf).size === 0 && !orderChanged(prev, next, idOf)) return
+    write(next)
+    pushUndo(collectionUndo(label, prev, next, idOf, () => playlistsRef.current, write))
+  }, [write])
 
   const createPlaylist = useCallback((name: string): string => {
     const playlist: Playlist = {
-      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      id: newPlaylistId(),
       name: name.trim(), createdAt: Date.now(), videos: [],
     }
-    setPlaylists((prev) => { const next = [playlist, ...prev]; persist(next); return next })
+    apply('undoCreatePlaylist', (prev) => [playlist, ...prev])
     return playlist.id
-  }, [persist])
+  }, [apply])
 
   const deletePlaylist = useCallback((id: string) => {
-    setPlaylists((prev) => { const next = prev.filter((p) => p.id !== id); persist(next); return next })
-  }, [persist])
+    apply('undoDeletePlaylist', (prev) => prev.filter((p) => p.id !== id))
+  }, [apply])
 
   const addToPlaylist = useCallback((playlistId: string, videoId: string, title?: string) => {
-    setPlaylists((prev) => {
-      const next = prev.map((p) => {
-        if (p.id !== playlistId) return p
-        if (p.videos.some((v) => v.videoId === videoId)) return p
-        return { ...p, videos: [...p.videos, { videoId, title, addedAt: Date.now() }] }
-      })
-      persist(next)
-      return next
-    })
-  }, [persist])
-
-  const removeFromPlaylist = useCallback((playlistId: string, videoId: string) => {
-    setPlaylists((prev) => {
-      const next = prev.map((p) => {
-        if (p.id !== playlistId) return p
-        return { ...p, videos: p.videos.filter((v) => v.videoId !== videoId) }
-      })
-      persist(next)
-      return next
-    })
-  }, [persist])
+    apply('undoAddVideo', (prev) => prev.map((p) => {
+      if (p.id !== playlistId) return p
+      return { ...p, videos: [...p.videos, { videoId, title, addedAt: Date.now(), entryId: newPlaylistId() }] }
+    }))
+  }, [apply])
+
+  const removeFromPlaylist = useCallback((playlistId: string, key: string) => {
+    apply('undoRemoveVideo', (prev) => prev.map((p) => {
+      if (p.id !== playlistId) return p
+      return { ...p, videos: p.videos.filter((v) => entryKey(v) !== key) }
+    }))
+  }, [apply])
 
   const setPlaylistEmoji = useCallback((id: string, emoji: string) => {
-    setPlaylists((prev) => { const next = prev.map((p) => (p.id === id ? { ...p, emoji } : p)); persist(next); return next })
-  }, [persist])
-
-  const reorderVideos = useCallback((playlistId: string, orderedVideoIds: string[]) => {
-    setPlaylists((prev) => {
-      const next = prev.map((p) => {
-        if (p.id !== playlistId) return p
-        const map = new Map(p.videos.map((v) => [v.videoId, v]))
-        const reordered = orderedVideoIds.map((id) => map.get(id)).filter(Boolean) as PlaylistVideo[]
-        return { ...p, videos: reordered }
-      })
-      persist(next)
-      return next
-    })
-  }, [persist])
-
-  const renameVideo = useCallback((playlistId: string, videoId: string, newTitle: string) => {
-    setPlaylists((prev) => {
-      const next = prev.map((p) => {
-        if (p.id !== playlistId) return p
-        return { ...p, videos: p.videos.map((v) => v.videoId === videoId ? { ...v, title: newTitle } : v) }
-      })
-      persist(next)
-      return next
-    })
-  }, [persist])
+    apply('undoEmoji', (prev) => prev.map((p) => (p.id === id ? { ...p, emoji } : p)))
+  }, [apply])
+
+  const reorderVideos = useCallback((playlistId: string, orderedKeys: string[]) => {
+    apply('undoReorder', (prev) => prev.map((p) => {
+      if (p.id !== playlistId) return p
+      const map = new Map(p.videos.map((v) => [entryKey(v), v]))
+      const reordered = orderedKeys.map((key) => map.get(key)).filter(Boolean) as PlaylistVideo[]
+      return { ...p, videos: reordered }
+    }))
+  }, [apply])
+
+  const renameVideo = useCallback((playlistId: string, key: string, newTitle: string) => {
+    apply('undoRenameVideo', (prev) => prev.map((p) => {
+      if (p.id !== playlistId) return p
+      return { ...p, videos: p.videos.map((v) => entryKey(v) === key ? { ...v, title: newTitle } : v) }
+    }))
+  }, [apply])
+
+  // Undefined fields in the patch clear that override
+  const setEntrySettings = useCallback((playlistId: string, key: string, patch: EntrySettings) => {
+    apply('undoEntrySettings', (prev) => prev.map((p) => {
+      if (p.id !== playlistId) return p
+      return { ...p, videos: p.videos.map((v) => entryKey(v) === key ? { ...v, ...patch } : v) }
+    }))
+  }, [apply])
+
+  // Back from the trash; the playlist returns at the top
+  const restorePlaylist = useCallback((playlist: Playlist) => {
+    apply('undoRestore', (prev) => (prev.some((p) => p.id === playlist.id) ? prev : [playlist, ...prev]))
+  }, [apply])
+
+  // Back from the trash at its old position (or the end, if the playlist has
+  // shrunk since)
+  const restoreVideo = useCallback((playlistId: string, video: PlaylistVideo, index: number) => {
+    apply('undoRestore', (prev) => prev.map((p) => {
+      if (p.id !== playlistId || p.videos.some((v) => entryKey(v) === entryKey(video))) return p
+      const videos = [...p.videos]
+      videos.splice(Math.min(index, videos.length), 0, video)
+      return { ...p, videos }
+    }))
+  }, [apply])
 
   const reorderPlaylists = useCallback((orderedIds: string[]) => {
-    setPlaylists((prev) => {
+    apply('undoReorder', (prev) => {
       const map = new Map(prev.map((p) => [p.id, p]))
       const next = orderedIds.map((id) => map.get(id)).filter(Boolean) as Playlist[]
       prev.forEach((p) => { if (!next.find((n) => n.id === p.id)) next.push(p) })
-      persist(next)
       return next
     })
-  }, [persist])
-
-  return { playlists, setPlaylists: hydrate, flushSync, createPlaylist, deletePlaylist, addToPlaylist, removeFromPlaylist, reorderPlaylists, reorderVideos, setPlaylistEmoji, renameVideo }
+  }, [apply])
+
+  const duplicate = useCallback((id: string, name: string): string => {
+    const copyId = newPlaylistId()
+    apply('undoDuplicate', (prev) => duplicatePlaylist(prev, id, copyId, name))
+    return copyId
+  }, [apply])
+
+  const merge = useCallback((ids: string[]) => {
+    apply('undoMerge', (prev) => mergePlaylists(prev, ids))
+  }, [apply])
+
+  const split = useCallback((id: string, keys: string[], name: string): string => {
+    const newId = newPlaylistId()
+    apply('undoSplit', (prev) => splitPlaylist(prev, id, keys, newId, name))
+    return newId
+  }, [apply])
+
+  const moveEntries = useCallback((fromId: string, keys: string[], toId: string) => {
+    apply('undoMoveEntries', (prev) => transferEntries(prev, fromId, keys, toId, 'move'))
+  }, [apply])
+
+  const copyEntries = useCallback((fromId: string, keys: string[], toId: string) => {
+    apply('undoCopyEntries', (prev) => transferEntries(prev, fromId, keys, toId, 'copy'))
+  }, [apply])
+
+  const dedupe = useCallback((ids: string[]) => {
+    apply('undoDedupe', (prev) => dedupePlaylists(prev, ids))
+  }, [apply])
+
+  const sortVideos = useCallback((id: string, by: PlaylistSort, loopCounts?: Record<string, number>) => {
+    apply('undoSort', (prev) => sortPlaylist(prev, id, by, loopCounts))
+  }, [apply])
+
+  return {
+    playlists, setPlaylists: hydrate, createPlaylist, deletePlaylist, addToPlaylist, removeFromPlaylist, reorderPlaylists, reorderVideos, setPlaylistEmoji, renameVideo, setEntrySettings,
+    restorePlaylist, restoreVideo,
+    duplicatePlaylist: duplicate, mergePlaylists: merge, splitPlaylist: split, moveEntries, copyEntries, dedupePlaylists: dedupe, sortVideos,
+  }
 }
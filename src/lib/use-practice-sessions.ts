@@ -0,0 +1,96 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { recordChange, hydrateCollection, cachedCollection, registerCollection, adoptCollection } from './sync-engine'
+import { broadcast, subscribeTab } from './cross-tab'
+
+// One uninterrupted stretch of practice on a video (and region)
+export interface PracticeSession {
+  id: string
+  videoId: string
+  title?: string
+  regionId?: string
+  regionName?: string
+  // Time-weighted average playback speed over the session
+  speed: number
+  startedAt: number
+  // Seconds actually spent playing
+  duration: number
+  loopCount: number
+  updatedAt?: number
+}
+
+const STORAGE_KEY = 'yol-sessions'
+// Keeps the log (and a signed-out user's localStorage) bounded
+const MAX_SESSIONS = 2000
+
+function loadLocal(): PracticeSession[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? JSON.parse(raw) : []
+  } catch { return [] }
+}
+
+function saveLocal(items: PracticeSession[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
+}
+
+export function usePracticeSessions(isLoggedIn: boolean) {
+  const [sessions, setSessions] = useState<PracticeSession[]>([])
+  // Always the latest version, including changes not rendered yet
+  const sessionsRef = useRef<PracticeSession[]>([])
+
+  const replace = useCallback((items: PracticeSession[]) => {
+    sessionsRef.current = items
+    setSessions(items)
+  }, [])
+
+  useEffect(() => {
+    replace(isLoggedIn ? cachedCollection<PracticeSession>('sessions') : loadLocal())
+  }, [isLoggedIn, replace])
+
+  const commit = useCallback((prev: PracticeSession[], next: PracticeSession[]) => {
+    const result = isLoggedIn ? recordChange('sessions', prev, next) : next
+    if (!isLoggedIn) saveLocal(result)
+    broadcast('sessions', result)
+    return result
+  }, [isLoggedIn])
+
+  useEffect(() => subscribeTab<PracticeSession[]>('sessions', (items) => {
+    if (isLoggedIn) adoptCollection('sessions', items)
+    replace(items)
+  }), [isLoggedIn, replace])
+
+  useEffect(() => {
+    if (isLoggedIn) return registerCollection<PracticeSession>('sessions', replace)
+  }, [isLoggedIn, replace])
+
+  const hydrate = useCallback((data: PracticeSession[]) => {
+    replace(isLoggedIn ? hydrateCollection('sessions', data) : data)
+  }, [isLoggedIn, replace])
+
+  // Newest first, oldest dropped past the cap. Committed straight away rather
+  // than in a state updater: this also runs from `pagehide`, where a deferred
+  // render may never happen.
+  const logSession = useCallback((session: Omit<PracticeSession, 'id'>) => {
+    const prev = sessionsRef.current
+    const entry = { ...session, id: `${session.startedAt}-${Math.random().toString(36).slice(2)}` }
+    replace(commit(prev, [entry, ...prev].slice(0, MAX_SESSIONS)))
+  }, [commit, replace])
+
+  // Sessions logged while signed out join the account on sign-in
+  const absorbLocal = useCallback(() => {
+    if (!isLoggedIn) return
+    const local = loadLocal()
+    if (local.length === 0) return
+    localStorage.removeItem(STORAGE_KEY)
+    const prev = sessionsRef.current
+    const known = new Set(prev.map((s) => s.id))
+    const added = local.filter((s) => !known.has(s.id))
+    if (!added.length) return
+    const next = [...added, ...prev].sort((a, b) => b.startedAt - a.startedAt).slice(0, MAX_SESSIONS)
+    replace(commit(prev, next))
+  }, [isLoggedIn, commit, replace])
+
+  return { sessions, setSessions: hydrate, logSession, absorbLocal }
+}
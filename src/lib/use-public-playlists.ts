@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react'
 import { getAuthToken, trigger401 } from './use-auth'
 import type { Playlist } from './use-playlists'
+import type { LoopPacing, LoopPointsMap } from './loop-points'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
 
@@ -48,18 +49,19 @@ export function usePublicPlaylists(isLoggedIn: boolean) {
   const publish = useCallback(
     async (
       playlist: Playlist,
-      loopPoints: Record<string, { start: string; end: string }>,
+      loopPoints: LoopPointsMap,
     ): Promise<string | null> => {
       const token = getAuthToken()
       if (!token) return null
       const videos = playlist.videos.map((v) => {
         const pts = loopPoints[v.videoId]
-        const out: { videoId: string; title?: string; loopStart?: string; loopEnd?: string } = {
+        const out: { videoId: string; title?: string; loopStart?: string; loopEnd?: string; pacing?: LoopPacing } = {
           videoId: v.videoId,
         }
         if (v.title) out.title = v.title
         if (pts?.start) out.loopStart = pts.start
         if (pts?.end) out.loopEnd = pts.end
+        if (pts?.pacing) out.pacing = pts.pacing
         return out
       })
       try {
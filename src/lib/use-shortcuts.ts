@@ -0,0 +1,109 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { recordChange, hydrateCollection, cachedCollection, registerCollection, adoptCollection } from './sync-engine'
+import { broadcast, subscribeTab } from './cross-tab'
+import { type ShortcutAction, type ShortcutMap, DEFAULT_SHORTCUTS, SHORTCUTS, normalizeCombo } from './shortcuts'
+
+// Only actions rebound away from their defaults are stored, one item each, so
+// changing a shortcut on one device doesn't undo a different change made on
+// another, and new actions pick up their defaults.
+export interface ShortcutBinding {
+  id: ShortcutAction
+  keys: string[]
+  updatedAt?: number
+}
+
+const STORAGE_KEY = 'yol-shortcuts'
+
+function loadLocal(): ShortcutBinding[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? JSON.parse(raw) : []
+  } catch { return [] }
+}
+
+function saveLocal(items: ShortcutBinding[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
+}
+
+const sameKeys = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((k, i) => normalizeCombo(k) === normalizeCombo(b[i]))
+
+export function useShortcuts(isLoggedIn: boolean) {
+  const [overrides, setOverrides] = useState<ShortcutBinding[]>([])
+  // Always the latest version, including changes not rendered yet
+  const overridesRef = useRef<ShortcutBinding[]>([])
+
+  const replace = useCallback((items: ShortcutBinding[]) => {
+    overridesRef.current = items
+    setOverrides(items)
+  }, [])
+
+  useEffect(() => {
+    replace(isLoggedIn ? cachedCollection<ShortcutBinding>('shortcuts') : loadLocal())
+  }, [isLoggedIn, replace])
+
+  const commit = useCallback((prev: ShortcutBinding[], next: ShortcutBinding[]) => {
+    const result = isLoggedIn ? recordChange('shortcuts', prev, next) : next
+    if (!isLoggedIn) saveLocal(result)
+    broadcast('shortcuts', result)
+    return result
+  }, [isLoggedIn])
+
+  useEffect(() => subscribeTab<ShortcutBinding[]>('shortcuts', (items) => {
+    if (isLoggedIn) adoptCollection('shortcuts', items)
+    replace(items)
+  }), [isLoggedIn, replace])
+
+  useEffect(() => {
+    if (isLoggedIn) return registerCollection<ShortcutBinding>('shortcuts', replace)
+  }, [isLoggedIn, replace])
+
+  const hydrate = useCallback((data: ShortcutBinding[]) => {
+    replace(isLoggedIn ? hydrateCollection('shortcuts', data) : data)
+  }, [isLoggedIn, replace])
+
+  const write = useCallback((next: ShortcutBinding[]) => {
+    replace(commit(overridesRef.current, next))
+  }, [commit, replace])
+
+  // Defaults with the stored overrides on top; unknown ids from newer
+  // versions are ignored
+  const bindings = useMemo(() => {
+    const map = { ...DEFAULT_SHORTCUTS }
+    overrides.forEach((o) => { if (o.id in map) map[o.id] = o.keys })
+    return map
+  }, [overrides])
+
+  // Several actions at once, e.g. taking a combo from one action for another.
+  // An action set back to its defaults drops its override.
+  const rebind = useCallback((changes: Partial<ShortcutMap>) => {
+    let next = overridesRef.current
+    SHORTCUTS.forEach(({ action }) => {
+      const keys = changes[action]
+      if (!keys) return
+      const rest = next.filter((o) => o.id !== action)
+      next = sameKeys(keys, DEFAULT_SHORTCUTS[action]) ? rest : [...rest, { id: action, keys: keys.map(normalizeCombo) }]
+    })
+    write(next)
+  }, [write])
+
+  const resetShortcuts = useCallback(() => {
+    write([])
+  }, [write])
+
+  // Bindings changed while signed out carry over on sign-in, unless the
+  // account already has its own for that action
+  const absorbLocal = useCallback(() => {
+    if (!isLoggedIn) return
+    const local = loadLocal()
+    if (local.length === 0) return
+    localStorage.removeItem(STORAGE_KEY)
+    const known = new Set(overridesRef.current.map((o) => o.id))
+    const added = local.filter((o) => !known.has(o.id))
+    if (added.length) write([...overridesRef.current, ...added])
+  }, [isLoggedIn, write])
+
+  return { bindings, setShortcuts: hydrate, rebind, resetShortcuts, absorbLocal }
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { recordChange, hydrateCollection, cachedCollection, registerCollection, adoptCollection } from './sync-engine'
+import { broadcast, subscribeTab } from './cross-tab'
+import { type UndoEntry, pushUndo, changedIds, collectionUndo } from './undo'
+import type { Playlist, PlaylistVideo } from './use-playlists'
+import type { Folder } from './use-folders'
+
+// Deleted playlists, folders and playlist entries, kept long enough to change
+// one's mind. Each remembers where it came from so restoring puts it back;
+// for a playlist that includes its folder and its place in it, for a folder
+// the subfolders that moved up a level when it went.
+export type TrashContent =
+  | { kind: 'playlist'; playlist: Playlist; folderId?: string; folderIndex?: number }
+  | { kind: 'folder'; folder: Folder; childIds?: string[] }
+  | { kind: 'video'; playlistId: string; index: number; video: PlaylistVideo }
+
+export type TrashItem = TrashContent & {
+  id: string
+  deletedAt: number
+  updatedAt?: number
+}
+
+const STORAGE_KEY = 'yol-trash'
+export const TRASH_DAYS = 30
+const TRASH_MS = TRASH_DAYS * 24 * 60 * 60 * 1000
+
+export const trashExpiresAt = (item: TrashItem) => item.deletedAt + TRASH_MS
+
+export function trashItemName(item: TrashItem): string {
+  if (item.kind === 'playlist') return item.playlist.name
+  if (item.kind === 'folder') return item.folder.name
+  return item.video.title || item.video.videoId
+}
+
+function loadLocal(): TrashItem[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? JSON.parse(raw) : []
+  } catch { return [] }
+}
+
+function saveLocal(items: TrashItem[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
+}
+
+export function useTrash(isLoggedIn: boolean) {
+  const [trash, setTrash] = useState<TrashItem[]>([])
+  // Always the latest version, including changes not rendered yet
+  const trashRef = useRef<TrashItem[]>([])
+
+  const replace = useCallback((items: TrashItem[]) => {
+    trashRef.current = items
+    setTrash(items)
+  }, [])
+
+  useEffect(() => {
+    replace(isLoggedIn ? cachedCollection<TrashItem>('trash') : loadLocal())
+  }, [isLoggedIn, replace])
+
+  const commit = useCallback((prev: TrashItem[], next: TrashItem[]) => {
+    const result = isLoggedIn ? recordChange('trash', prev, next) : next
+    if (!isLoggedIn) saveLocal(result)
+    broadcast('trash', result)
+    return result
+  }, [isLoggedIn])
+
+  useEffect(() => subscribeTab<TrashItem[]>('trash', (items) => {
+    if (isLoggedIn) adoptCollection('trash', items)
+    replace(items)
+  }), [isLoggedIn, replace])
+
+  useEffect(() => {
+    if (isLoggedIn) return registerCollection<TrashItem>('trash', replace)
+  }, [isLoggedIn, replace])
+
+  const hydrate = useCallback((data: TrashItem[]) => {
+    replace(isLoggedIn ? hydrateCollection('trash', data) : data)
+  }, [isLoggedIn, replace])
+
+  const write = useCallback((next: TrashItem[]) => {
+    replace(commit(trashRef.current, next))
+  }, [commit, replace])
+
+  // Recorded for undo, so undoing a delete also takes its item back out
+  const apply = useCallback((label: UndoEntry['label'], fn: (prev: TrashItem[]) => TrashItem[]) => {
+    const prev = trashRef.current
+    const next = fn(prev)
+    const idOf = (i: TrashItem) => i.id
+    if (changedIds(prev, next, idOf).size === 0) return
+    write(next)
+    pushUndo(collectionUndo(label, prev, next, idOf, () => trashRef.current, write))
+  }, [write])
+
+  // Items past their 30 days go for good, whenever the trash is loaded or
+  // changes. Not undoable: nothing asked for it.
+  useEffect(() => {
+    const now = Date.now()
+    if (trash.some((i) => trashExpiresAt(i) <= now)) write(trashRef.current.filter((i) => trashExpiresAt(i) > now))
+  }, [trash, write])
+
+  const moveToTrash = useCallback((content: TrashContent) => {
+    const item: TrashItem = { ...content, id: `${Date.now()}-${Math.random().toString(36).slice(2)}`, deletedAt: Date.now() }
+    apply('undoTrash', (prev) => [item, ...prev])
+  }, [apply])
+
+  // Out of the trash to be restored; the caller puts the content back
+  const takeFromTrash = useCallback((id: string): TrashItem | undefined => {
+    const item = trashRef.current.find((i) => i.id === id)
+    if (item) apply('undoRestore', (prev) => prev.filter((i) => i.id !== id))
+    return item
+  }, [apply])
+
+  const purge = useCallback((id: string) => {
+    apply('undoPurge', (prev) => prev.filter((i) => i.id !== id))
+  }, [apply])
+
+  const emptyTrash = useCallback(() => {
+    apply('undoPurge', () => [])
+  }, [apply])
+
+  // Things deleted while signed out join the account's trash on sign-in
+  const absorbLocal = useCallback(() => {
+    if (!isLoggedIn) return
+    const local = loadLocal()
+    if (local.length === 0) return
+    localStorage.removeItem(STORAGE_KEY)
+    const known = new Set(trashRef.current.map((i) => i.id))
+    const added = local.filter((i) => !known.has(i.id))
+    if (added.length) write([...added, ...trashRef.current])
+  }, [isLoggedIn, write])
+
+  return { trash, setTrash: hydrate, moveToTrash, takeFromTrash, purge, emptyTrash, absorbLocal }
+}
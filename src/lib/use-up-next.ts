@@ -0,0 +1,58 @@
+'use client'
+
+import { useState, useCallback, useRef } from 'react'
+import { type PlaylistVideo, entryKey } from './use-playlists'
+
+// The "Up next" queue: ad-hoc videos that play before the active playlist
+// carries on (or instead of looping, with no playlist). It lasts as long as
+// the tab, isn't synced, and items leave it as they start playing.
+export function useUpNext() {
+  const [upNext, setUpNext] = useState<PlaylistVideo[]>([])
+  // Updated in step with every change, so the player can take the next item
+  // right after it was queued without waiting for a render
+  const upNextRef = useRef<PlaylistVideo[]>([])
+
+  const update = useCallback((fn: (prev: PlaylistVideo[]) => PlaylistVideo[]) => {
+    upNextRef.current = fn(upNextRef.current)
+    setUpNext(upNextRef.current)
+  }, [])
+
+  const item = (videoId: string, title?: string): PlaylistVideo => ({
+    videoId,
+    title,
+    addedAt: Date.now(),
+    entryId: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  })
+
+  const addToQueue = useCallback((videoId: string, title?: string) => {
+    update((prev) => [...prev, item(videoId, title)])
+  }, [update])
+
+  const playNext = useCallback((videoId: string, title?: string) => {
+    update((prev) => [item(videoId, title), ...prev])
+  }, [update])
+
+  const removeFromQueue = useCallback((key: string) => {
+    update((prev) => prev.filter((v) => entryKey(v) !== key))
+  }, [update])
+
+  const reorderQueue = useCallback((orderedKeys: string[]) => {
+    update((prev) => {
+      const map = new Map(prev.map((v) => [entryKey(v), v]))
+      return orderedKeys.map((key) => map.get(key)).filter(Boolean) as PlaylistVideo[]
+    })
+  }, [update])
+
+  const clearQueue = useCallback(() => update(() => []), [update])
+
+  const peekQueue = useCallback((): PlaylistVideo | undefined => upNextRef.current[0], [])
+
+  // Remove and return an item (the first by default) to play it
+  const takeFromQueue = useCallback((key?: string): PlaylistVideo | undefined => {
+    const taken = key === undefined ? upNextRef.current[0] : upNextRef.current.find((v) => entryKey(v) === key)
+    if (taken) update((prev) => prev.filter((v) => v !== taken))
+    return taken
+  }, [update])
+
+  return { upNext, addToQueue, playNext, removeFromQueue, reorderQueue, clearQueue, peekQueue, takeFromQueue }
+}